@@ -19,8 +19,9 @@ export class ReferenceCache {
    * Generate a cache URL for a given account, region, and resource
    * Region is included to prevent cross-pollution between US/EU data
    */
+  // Account names are case-insensitive, so "Acme" and "acme" share entries
   private getCacheUrl(accountName: string, region: string, resource: string): URL {
-    return new URL(`https://cache.happyfox.local/${region}/${accountName}/${resource}`);
+    return new URL(`https://cache.happyfox.local/${region}/${accountName.toLowerCase()}/${resource}`);
   }
 
   /**
@@ -65,6 +66,20 @@ export class ReferenceCache {
     }
   }
 
+  /**
+   * Get cached data for a resource, fetching and caching it on a miss
+   */
+  async getOrFetch<T>(accountName: string, region: string, resource: string, fetcher: () => Promise<T>): Promise<T> {
+    const cached = await this.get<T>(accountName, region, resource);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await fetcher();
+    await this.set(accountName, region, resource, data);
+    return data;
+  }
+
   /**
    * Invalidate cached data for a resource
    */
@@ -85,11 +100,14 @@ export class ReferenceCache {
     const resources = [
       'categories',
       'statuses',
+      'priorities',
       'ticket-custom-fields',
       'contact-custom-fields',
       'staff',
       'contact-groups',
-      'asset-types'
+      'asset-types',
+      'recent-tags',
+      'kb/sections'
     ];
 
     await Promise.all(
@@ -0,0 +1,218 @@
+/**
+ * Attachment helpers for HappyFox multipart uploads and downloads
+ * Converts tool-supplied attachments (base64 or MCP embedded resources) into multipart form data,
+ * and downloaded ticket attachments into MCP resource contents
+ */
+
+import { MCPResourceContent } from '../types';
+
+// Per HappyFox Tickets API: combined size of all files must not exceed 25 MB
+export const MAX_ATTACHMENT_TOTAL_BYTES = 25 * 1024 * 1024;
+
+// Cap on attachments returned to MCP clients (base64 inflates this by ~33%)
+export const MAX_ATTACHMENT_DOWNLOAD_BYTES = 5 * 1024 * 1024;
+
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Attachment as supplied by a tool caller. Either a plain base64 file
+ * ({ filename, mime_type, content }) or an MCP embedded resource
+ * ({ type: 'resource', resource: { uri, mimeType, blob | text } }).
+ */
+export interface AttachmentInput {
+  filename?: string;
+  mime_type?: string;
+  content?: string;  // Base64-encoded file content
+  type?: 'resource';
+  resource?: {
+    uri?: string;
+    mimeType?: string;
+    blob?: string;  // Base64-encoded binary content
+    text?: string;  // Plain text content
+  };
+}
+
+// Decoded attachment ready to be uploaded, or downloaded from a ticket
+export interface AttachmentFile {
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+/**
+ * Decode and validate attachments, enforcing the HappyFox total size limit
+ */
+export function normalizeAttachments(inputs: AttachmentInput[]): AttachmentFile[] {
+  const files = inputs.map((input, index) => normalizeAttachment(input, index));
+
+  const totalBytes = files.reduce((sum, file) => sum + file.data.byteLength, 0);
+  if (totalBytes > MAX_ATTACHMENT_TOTAL_BYTES) {
+    throw new Error(
+      `Attachments total ${totalBytes} bytes, exceeding the HappyFox limit of ${MAX_ATTACHMENT_TOTAL_BYTES} bytes`
+    );
+  }
+
+  return files;
+}
+
+function normalizeAttachment(input: AttachmentInput, index: number): AttachmentFile {
+  if (input.type === 'resource' || input.resource) {
+    const resource = input.resource;
+    if (!resource || (resource.blob === undefined && resource.text === undefined)) {
+      throw new Error(`Attachment ${index + 1}: embedded resource must include blob or text content`);
+    }
+
+    const data = resource.blob !== undefined
+      ? decodeBase64(resource.blob, index)
+      : new TextEncoder().encode(resource.text);
+
+    return {
+      filename: input.filename || filenameFromUri(resource.uri) || `attachment-${index + 1}`,
+      mimeType: resource.mimeType || input.mime_type || DEFAULT_MIME_TYPE,
+      data
+    };
+  }
+
+  if (!input.filename) {
+    throw new Error(`Attachment ${index + 1}: filename is required`);
+  }
+  if (input.content === undefined) {
+    throw new Error(`Attachment ${index + 1}: content (base64) is required`);
+  }
+
+  return {
+    filename: input.filename,
+    mimeType: input.mime_type || DEFAULT_MIME_TYPE,
+    data: decodeBase64(input.content, index)
+  };
+}
+
+/**
+ * Build a multipart/form-data body from form fields and files
+ * Files are appended under the `attachments` field name expected by HappyFox
+ */
+export function buildMultipartBody(fields: Record<string, any>, files: AttachmentFile[]): FormData {
+  const form = new FormData();
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined || value === null) continue;
+
+    if (Array.isArray(value)) {
+      // Multi-value fields (e.g. multiple-option custom fields) repeat the key
+      value.forEach(item => form.append(key, String(item)));
+    } else if (typeof value === 'object') {
+      form.append(key, JSON.stringify(value));
+    } else {
+      form.append(key, String(value));
+    }
+  }
+
+  for (const file of files) {
+    form.append('attachments', new File([file.data], file.filename, { type: file.mimeType }));
+  }
+
+  return form;
+}
+
+// MIME types by file extension, used when storage returns a generic content type
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  txt: 'text/plain',
+  log: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  html: 'text/html',
+  htm: 'text/html',
+  json: 'application/json',
+  xml: 'application/xml',
+  yaml: 'application/yaml',
+  yml: 'application/yaml',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml'
+};
+
+const GENERIC_MIME_TYPES = ['application/octet-stream', 'binary/octet-stream'];
+
+/**
+ * Resolve the MIME type of a downloaded file from its Content-Type header,
+ * falling back to the filename extension when the header is missing or generic
+ */
+export function resolveMimeType(contentType: string | null, filename: string): string {
+  const headerType = contentType?.split(';')[0].trim().toLowerCase();
+  if (headerType && !GENERIC_MIME_TYPES.includes(headerType)) {
+    return headerType;
+  }
+
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES_BY_EXTENSION[extension] || headerType || DEFAULT_MIME_TYPE;
+}
+
+/**
+ * Whether a MIME type holds human-readable text that should be decoded for the model
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/')
+    || mimeType.endsWith('+json')
+    || mimeType.endsWith('+xml')
+    || ['application/json', 'application/xml', 'application/yaml', 'application/javascript', 'application/x-ndjson']
+      .includes(mimeType);
+}
+
+/**
+ * Convert a downloaded attachment into MCP resource contents
+ * Text-like files are decoded to text (when valid UTF-8); everything else is a base64 blob
+ */
+export function toResourceContent(uri: string, file: AttachmentFile): MCPResourceContent {
+  if (isTextMimeType(file.mimeType)) {
+    try {
+      const text = new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(file.data);
+      return { uri, mimeType: file.mimeType, text };
+    } catch {
+      // Not valid UTF-8 - fall through to blob
+    }
+  }
+
+  return { uri, mimeType: file.mimeType, blob: encodeBase64(file.data) };
+}
+
+function encodeBase64(data: Uint8Array): string {
+  let binary = '';
+  // Chunk to avoid call stack limits on large files
+  const chunkSize = 0x8000;
+  for (let i = 0; i < data.length; i += chunkSize) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function decodeBase64(content: string, index: number): Uint8Array {
+  // Accept data URLs and tolerate whitespace/line breaks in the payload
+  const base64 = content.replace(/^data:[^;,]*;base64,/, '').replace(/\s+/g, '');
+  try {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    throw new Error(`Attachment ${index + 1}: content is not valid base64`);
+  }
+}
+
+function filenameFromUri(uri?: string): string | undefined {
+  if (!uri) return undefined;
+  const path = uri.split(/[?#]/)[0];
+  const lastSegment = path.split('/').filter(Boolean).pop();
+  if (!lastSegment || lastSegment.endsWith(':')) return undefined;
+  try {
+    return decodeURIComponent(lastSegment);
+  } catch {
+    return lastSegment;
+  }
+}
@@ -1,4 +1,5 @@
 import { HappyFoxAuth } from '../types';
+import { referenceCache } from '../cache/reference-cache';
 
 export interface RequestOptions {
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
@@ -14,9 +15,12 @@ export class HappyFoxClient {
   private maxRetries = 5;
   private baseDelay = 1000; // Start with 1 second
   private maxDelay = 60000; // Cap at 60 seconds
+  private signal?: AbortSignal;
 
-  constructor(auth: HappyFoxAuth) {
+  // signal cancels outstanding requests and pending retries (e.g. when the MCP client cancels)
+  constructor(auth: HappyFoxAuth, signal?: AbortSignal) {
     this.auth = auth;
+    this.signal = signal;
     const domain = auth.region === 'eu' ? 'happyfox.net' : 'happyfox.com';
     this.baseUrl = `https://${auth.accountName}.${domain}/api/1.1/json`;
   }
@@ -24,6 +28,10 @@ export class HappyFoxClient {
   async makeRequest<T = any>(options: RequestOptions, retryCount = 0): Promise<T> {
     const { method, path, body, queryParams, headers = {} } = options;
 
+    if (this.signal?.aborted) {
+      throw this.cancelledError();
+    }
+
     let url = `${this.baseUrl}${path}`;
     if (queryParams) {
       const params = new URLSearchParams();
@@ -35,9 +43,12 @@ export class HappyFoxClient {
 
     const authHeader = `Basic ${btoa(`${this.auth.apiKey}:${this.auth.authCode}`)}`;
 
+    // Multipart bodies (attachments) let fetch set the Content-Type with its boundary
+    const isMultipart = body instanceof FormData;
+
     const requestHeaders: Record<string, string> = {
       'Authorization': authHeader,
-      'Content-Type': 'application/json',
+      ...(isMultipart ? {} : { 'Content-Type': 'application/json' }),
       ...headers
     };
 
@@ -45,7 +56,8 @@ export class HappyFoxClient {
       const response = await fetch(url, {
         method,
         headers: requestHeaders,
-        body: body ? JSON.stringify(body) : undefined
+        body: isMultipart ? body : body ? JSON.stringify(body) : undefined,
+        signal: this.signal
       });
 
       // Handle rate limiting with exponential backoff
@@ -107,6 +119,11 @@ export class HappyFoxClient {
         return responseText as unknown as T;
       }
     } catch (error) {
+      // Cancelled requests are never retried
+      if (this.signal?.aborted) {
+        throw error instanceof HappyFoxAPIError && error.code === 'CANCELLED' ? error : this.cancelledError();
+      }
+
       // Retry on network errors
       if (retryCount < this.maxRetries && this.isRetryableError(error)) {
         const delay = Math.min(
@@ -133,6 +150,80 @@ export class HappyFoxClient {
     }
   }
 
+  /**
+   * Download a file (e.g. a ticket attachment) as raw bytes
+   * Credentials are only sent to the HappyFox account host; attachment URLs
+   * on external storage are pre-signed and must not receive the API key.
+   */
+  async download(url: string, maxBytes: number): Promise<{ data: Uint8Array; contentType: string | null }> {
+    const headers: Record<string, string> = {};
+    if (new URL(url).origin === new URL(this.baseUrl).origin) {
+      headers['Authorization'] = `Basic ${btoa(`${this.auth.apiKey}:${this.auth.authCode}`)}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'GET', headers, signal: this.signal });
+    } catch (error) {
+      if (this.signal?.aborted) {
+        throw this.cancelledError();
+      }
+      throw new HappyFoxAPIError(
+        `Download failed: ${error instanceof Error ? error.message : String(error)}`,
+        0,
+        'NETWORK_ERROR'
+      );
+    }
+
+    if (!response.ok) {
+      throw new HappyFoxAPIError(
+        `Download failed: ${response.status} ${response.statusText}`,
+        response.status,
+        'API_ERROR'
+      );
+    }
+
+    const tooLarge = () => new HappyFoxAPIError(
+      `File exceeds the maximum download size of ${maxBytes} bytes`,
+      413,
+      'FILE_TOO_LARGE'
+    );
+
+    const declaredLength = Number(response.headers.get('Content-Length'));
+    if (declaredLength > maxBytes) {
+      await response.body?.cancel();
+      throw tooLarge();
+    }
+
+    // Count bytes as they arrive so a body without Content-Length is never buffered past the cap
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    if (response.body) {
+      const reader = response.body.getReader();
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        received += value.byteLength;
+        if (received > maxBytes) {
+          await reader.cancel();
+          throw tooLarge();
+        }
+        chunks.push(value);
+      }
+    }
+
+    const data = new Uint8Array(received);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+
+    return { data, contentType: response.headers.get('Content-Type') };
+  }
+
   private isRetryableError(error: any): boolean {
     // Retry on network errors
     if (error instanceof TypeError && error.message.includes('fetch')) {
@@ -153,8 +244,27 @@ export class HappyFoxClient {
     return false;
   }
 
+  // Retry delay that ends early with a CANCELLED error when the signal aborts
   private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return new Promise((resolve, reject) => {
+      if (this.signal?.aborted) {
+        reject(this.cancelledError());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(this.cancelledError());
+      };
+      const timer = setTimeout(() => {
+        this.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      this.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private cancelledError(): HappyFoxAPIError {
+    return new HappyFoxAPIError('Request cancelled', 0, 'CANCELLED');
   }
 
   // Convenience methods for common HTTP methods
@@ -173,6 +283,13 @@ export class HappyFoxClient {
   async delete<T = any>(path: string, queryParams?: Record<string, string | number | boolean>): Promise<T> {
     return this.makeRequest<T>({ method: 'DELETE', path, queryParams });
   }
+
+  /**
+   * GET reference data through the shared ReferenceCache (keyed by this account and region)
+   */
+  async getCached<T = any>(resource: string, path: string): Promise<T> {
+    return referenceCache.getOrFetch<T>(this.auth.accountName, this.auth.region, resource, () => this.get<T>(path));
+  }
 }
 
 export class HappyFoxAPIError extends Error {
@@ -0,0 +1,216 @@
+/**
+ * Custom field value encoding for HappyFox payloads
+ * Validates tool-supplied custom field values against field metadata and converts them
+ * to the formats HappyFox expects (choice IDs, lists of choice IDs, yyyy-mm-dd dates, numbers)
+ * Fields may be given by key (t-cf-12) or by label ("Product Version")
+ */
+
+// Field metadata as returned by /ticket_custom_fields/, /user_custom_fields/ and /asset_custom_fields/
+export interface CustomFieldDefinition {
+  id: number;
+  name: string;
+  type: string;
+  choices?: Array<{ id: number; text: string }> | null;
+}
+
+// Loads definitions for a key prefix; receives the requested field IDs for per-field lookups,
+// or null when every field is needed to match labels
+export type CustomFieldSource = (fieldIds: number[] | null) => Promise<CustomFieldDefinition[]>;
+
+// Custom field keys: t-cf-{id} (ticket), c-cf-{id} (contact), a-cf-{id} (asset)
+const CUSTOM_FIELD_KEY = /^([a-z]+-cf-)(\d+)$/;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+type FieldKind = 'choice' | 'multiple_choice' | 'number' | 'date' | 'staff' | 'text';
+
+/**
+ * Encodes custom field values for one payload shape (e.g. tickets accept t-cf- and c-cf- keys)
+ * Definitions are memoized per prefix and field set, so one encoder can be reused across bulk items
+ */
+export class CustomFieldEncoder {
+  private definitions = new Map<string, Promise<CustomFieldDefinition[]>>();
+
+  constructor(private sources: Record<string, CustomFieldSource>) {}
+
+  async encode(values: Record<string, any>): Promise<Record<string, any>> {
+    const entries = Object.entries(values);
+    const keyed = entries
+      .filter(([key]) => CUSTOM_FIELD_KEY.test(key))
+      .map(([key, value]) => ({ key, value, ...this.parseKey(key) }));
+    const labelled = entries.filter(([key]) => !CUSTOM_FIELD_KEY.test(key));
+
+    const encoded: Record<string, any> = {};
+    for (const { key, value, prefix, fieldId } of keyed) {
+      const requested = keyed.filter(p => p.prefix === prefix).map(p => p.fieldId);
+      const definitions = await this.load(prefix, requested);
+      const field = definitions.find(definition => definition.id === fieldId);
+      if (!field) {
+        const known = definitions.map(definition => `${prefix}${definition.id} (${definition.name})`).join(', ');
+        throw new Error(`Unknown custom field ${key}.${known ? ` Valid fields: ${known}` : ''}`);
+      }
+      encoded[key] = encodeValue(key, field, value);
+    }
+
+    for (const [label, value] of labelled) {
+      const { key, field } = await this.findByLabel(label);
+      if (key in encoded) {
+        throw new Error(`Custom field "${field.name}" (${key}) is given more than once`);
+      }
+      encoded[key] = encodeValue(key, field, value);
+    }
+
+    return encoded;
+  }
+
+  // Match a field label case-insensitively across every prefix this encoder accepts
+  private async findByLabel(label: string): Promise<{ key: string; field: CustomFieldDefinition }> {
+    const needle = label.trim().toLowerCase();
+    const candidates: Array<{ key: string; field: CustomFieldDefinition }> = [];
+    for (const prefix of Object.keys(this.sources)) {
+      for (const field of await this.load(prefix, null)) {
+        candidates.push({ key: `${prefix}${field.id}`, field });
+      }
+    }
+
+    const matches = candidates.filter(({ field }) => String(field.name).trim().toLowerCase() === needle);
+    if (matches.length === 1) {
+      return matches[0];
+    }
+
+    const describe = (list: typeof candidates) => list.map(({ key, field }) => `${key} (${field.name})`).join(', ');
+    if (matches.length > 1) {
+      throw new Error(`Custom field label "${label}" matches more than one field: ${describe(matches)}. Use the key instead.`);
+    }
+    throw new Error(`Unknown custom field "${label}".${candidates.length ? ` Valid fields: ${describe(candidates)}` : ''}`);
+  }
+
+  private parseKey(key: string): { prefix: string; fieldId: number } {
+    const match = key.match(CUSTOM_FIELD_KEY);
+    if (!match || !this.sources[match[1]]) {
+      const formats = Object.keys(this.sources).map(prefix => `${prefix}{id}`).join(', ');
+      throw new Error(`Invalid custom field key "${key}". Expected ${formats} or a field label`);
+    }
+    return { prefix: match[1], fieldId: Number(match[2]) };
+  }
+
+  private load(prefix: string, fieldIds: number[] | null): Promise<CustomFieldDefinition[]> {
+    const cacheKey = fieldIds === null ? `${prefix}*` : `${prefix}${[...new Set(fieldIds)].sort((a, b) => a - b).join(',')}`;
+    let definitions = this.definitions.get(cacheKey);
+    if (!definitions) {
+      definitions = this.sources[prefix](fieldIds).then(result => (Array.isArray(result) ? result : []));
+      this.definitions.set(cacheKey, definitions);
+    }
+    return definitions;
+  }
+}
+
+/**
+ * Re-key a custom_fields list from a ticket, contact or asset response ([{ id, name, value }]) by label
+ * Repeated labels are suffixed with the field ID so no value is dropped
+ */
+export function customFieldsByLabel(fields: any): any {
+  if (!Array.isArray(fields)) return fields;
+
+  const counts = new Map<string, number>();
+  for (const field of fields) {
+    counts.set(field.name, (counts.get(field.name) || 0) + 1);
+  }
+
+  const byLabel: Record<string, any> = {};
+  for (const field of fields) {
+    const label = counts.get(field.name)! > 1 ? `${field.name} (${field.id})` : field.name;
+    byLabel[label] = field.value ?? null;
+  }
+  return byLabel;
+}
+
+function fieldKind(type: string): FieldKind {
+  const normalized = String(type || '').toLowerCase().replace(/[^a-z]/g, '');
+  if (normalized.startsWith('multi')) return 'multiple_choice';
+  if (['choice', 'dropdown', 'radio'].includes(normalized)) return 'choice';
+  if (['number', 'decimal', 'integer'].includes(normalized)) return 'number';
+  if (normalized === 'date') return 'date';
+  if (normalized === 'staff') return 'staff';
+  return 'text';
+}
+
+function encodeValue(key: string, field: CustomFieldDefinition, value: any): any {
+  // null and empty strings clear the field
+  if (value === null || value === '') return value;
+
+  const label = `Custom field "${field.name}" (${key})`;
+
+  switch (fieldKind(field.type)) {
+    case 'choice':
+      if (Array.isArray(value)) {
+        throw new Error(`${label} accepts a single choice. ${validOptions(field)}`);
+      }
+      return resolveChoice(label, field, value);
+
+    case 'multiple_choice': {
+      const items = Array.isArray(value) ? value : [value];
+      return [...new Set(items.map(item => resolveChoice(label, field, item)))];
+    }
+
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (typeof value === 'boolean' || String(value).trim() === '' || !Number.isFinite(number)) {
+        throw new Error(`${label} must be a number, got ${JSON.stringify(value)}`);
+      }
+      // HappyFox stores numbers with at most 2 decimal places
+      return Math.round(number * 100) / 100;
+    }
+
+    case 'date': {
+      const match = typeof value === 'string' ? value.trim().match(DATE_PATTERN) : null;
+      if (!match || !isValidDate(Number(match[1]), Number(match[2]), Number(match[3]))) {
+        throw new Error(`${label} must be a date in yyyy-mm-dd format, got ${JSON.stringify(value)}`);
+      }
+      return value.trim();
+    }
+
+    case 'staff': {
+      const staffId = Number(value);
+      if (!Number.isInteger(staffId) || staffId <= 0) {
+        throw new Error(`${label} must be a staff ID, got ${JSON.stringify(value)}`);
+      }
+      return staffId;
+    }
+
+    default:
+      if (typeof value === 'object') {
+        throw new Error(`${label} must be text, got ${JSON.stringify(value)}`);
+      }
+      return String(value);
+  }
+}
+
+// Accept a choice ID (number or numeric string) or its label (case-insensitive)
+function resolveChoice(label: string, field: CustomFieldDefinition, value: any): number {
+  const choices = field.choices || [];
+
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value.trim()))) {
+    const byId = choices.find(choice => choice.id === Number(value));
+    if (byId) return byId.id;
+  }
+
+  if (typeof value === 'string') {
+    const text = value.trim().toLowerCase();
+    const byText = choices.find(choice => String(choice.text).trim().toLowerCase() === text);
+    if (byText) return byText.id;
+  }
+
+  throw new Error(`${label}: ${JSON.stringify(value)} is not a valid choice. ${validOptions(field)}`);
+}
+
+function validOptions(field: CustomFieldDefinition): string {
+  const choices = field.choices || [];
+  if (choices.length === 0) return 'The field has no choices.';
+  return `Valid options: ${choices.map(choice => `"${choice.text}" (id ${choice.id})`).join(', ')}`;
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
@@ -1,8 +1,43 @@
-import { HappyFoxClient } from '../client';
+import { HappyFoxClient, HappyFoxAPIError } from '../client';
+import { CustomFieldEncoder, CustomFieldDefinition } from '../custom-fields';
 
 export class AssetEndpoints {
   constructor(private client: HappyFoxClient) {}
 
+  /**
+   * Encoder for asset custom fields (a-cf-{id} keys or field labels)
+   * Keyed fields are fetched one by one, since update payloads do not carry the asset type;
+   * labels are matched against the full field list of the asset type
+   */
+  private customFieldEncoder(assetTypeId: () => Promise<number>): CustomFieldEncoder {
+    return new CustomFieldEncoder({
+      'a-cf-': async fieldIds => {
+        if (fieldIds === null) {
+          return this.listAllAssetCustomFields(await assetTypeId());
+        }
+        const fields = await Promise.all(fieldIds.map(id => this.getAssetCustomField(id).catch(error => {
+          // Unknown fields are reported by the encoder with the other validation errors
+          if (error instanceof HappyFoxAPIError && error.statusCode === 404) return null;
+          throw error;
+        })));
+        return fields.filter((field): field is CustomFieldDefinition => field !== null);
+      }
+    });
+  }
+
+  // Every custom field of an asset type, following pagination (max page size is 50)
+  private async listAllAssetCustomFields(assetTypeId: number): Promise<CustomFieldDefinition[]> {
+    const fields: CustomFieldDefinition[] = [];
+    for (let page = 1; ; page++) {
+      const response = await this.client.get('/asset_custom_fields/', { asset_type: assetTypeId, page, size: 50 });
+      const data: CustomFieldDefinition[] = Array.isArray(response) ? response : (response?.data || []);
+      fields.push(...data);
+      if (data.length === 0 || !response?.page_info || page >= response.page_info.page_count) {
+        return fields;
+      }
+    }
+  }
+
   // Phone type mapping: API uses short codes (same as ContactEndpoints)
   private mapPhoneType(type: string): string {
     const typeMap: Record<string, string> = {
@@ -84,11 +119,10 @@ export class AssetEndpoints {
       }));
     }
 
-    // Handle custom fields (format: a-cf-{id})
+    // Handle custom fields (format: a-cf-{id} or field label)
     if (data.custom_fields) {
-      Object.entries(data.custom_fields).forEach(([key, value]) => {
-        formData[key] = value;
-      });
+      const encoder = this.customFieldEncoder(async () => assetTypeId);
+      Object.assign(formData, await encoder.encode(data.custom_fields));
     }
 
     return await this.client.post('/assets/', formData, { asset_type: assetTypeId });
@@ -129,11 +163,13 @@ export class AssetEndpoints {
       }));
     }
 
-    // Handle custom fields
+    // Handle custom fields; labels need the asset type, which is only known from the asset itself
     if (data.custom_fields) {
-      Object.entries(data.custom_fields).forEach(([key, value]) => {
-        formData[key] = value;
+      const encoder = this.customFieldEncoder(async () => {
+        const asset = await this.getAsset(assetId);
+        return asset.asset_type?.id ?? asset.asset_type;
       });
+      Object.assign(formData, await encoder.encode(data.custom_fields));
     }
 
     return await this.client.put(`/asset/${assetId}/`, formData);
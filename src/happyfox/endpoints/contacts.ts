@@ -1,8 +1,16 @@
 import { HappyFoxClient } from '../client';
+import { CustomFieldEncoder, CustomFieldDefinition } from '../custom-fields';
 
 export class ContactEndpoints {
   constructor(private client: HappyFoxClient) {}
 
+  // Encoder for contact custom fields (c-cf-{id} keys or labels), validated against cached field metadata
+  private customFieldEncoder(): CustomFieldEncoder {
+    return new CustomFieldEncoder({
+      'c-cf-': () => this.client.getCached<CustomFieldDefinition[]>('contact-custom-fields', '/user_custom_fields/')
+    });
+  }
+
   // Phone type mapping: API uses short codes
   private mapPhoneType(type: string): string {
     const typeMap: Record<string, string> = {
@@ -49,9 +57,7 @@ export class ContactEndpoints {
 
     // Handle custom fields
     if (data.custom_fields) {
-      Object.entries(data.custom_fields).forEach(([key, value]) => {
-        formData[key] = value;
-      });
+      Object.assign(formData, await this.customFieldEncoder().encode(data.custom_fields));
     }
 
     return await this.client.post('/users/', formData);
@@ -115,9 +121,7 @@ export class ContactEndpoints {
 
     // Handle custom fields
     if (updates.custom_fields) {
-      Object.entries(updates.custom_fields).forEach(([key, value]) => {
-        formData[key] = value;
-      });
+      Object.assign(formData, await this.customFieldEncoder().encode(updates.custom_fields));
     }
 
     return await this.client.post(`/user/${contactId}/`, formData);
@@ -0,0 +1,154 @@
+import { HappyFoxClient, HappyFoxAPIError } from '../client';
+
+export interface KnowledgeBaseSearchOptions {
+  query: string;
+  section_id?: number;
+  limit?: number;
+}
+
+const SNIPPET_LENGTH = 200;
+
+export class KnowledgeBaseEndpoints {
+  constructor(private client: HappyFoxClient) {}
+
+  /**
+   * List external (public) articles
+   * API: GET /kb/articles/
+   * Per DOCUMENTATION.md:168
+   */
+  async listArticles(sectionId?: number): Promise<any[]> {
+    const articles = this.toArray(await this.client.get('/kb/articles/'));
+    return this.filterBySection(articles, sectionId);
+  }
+
+  /**
+   * List internal (staff-only) articles
+   * API: GET /kb/internal-articles/
+   * Per DOCUMENTATION.md:169
+   */
+  async listInternalArticles(sectionId?: number): Promise<any[]> {
+    const articles = this.toArray(await this.client.get('/kb/internal-articles/'));
+    return this.filterBySection(articles, sectionId);
+  }
+
+  /**
+   * List all sections
+   * API: GET /kb/sections/
+   * Per DOCUMENTATION.md:170
+   */
+  async listSections(): Promise<any> {
+    return await this.client.get('/kb/sections/');
+  }
+
+  /**
+   * Get a single external article
+   * API: GET /kb/article/<id>/
+   * Per DOCUMENTATION.md:171 - only applicable to external articles
+   */
+  async getArticle(articleId: number | string): Promise<any> {
+    return await this.client.get(`/kb/article/${articleId}/`);
+  }
+
+  /**
+   * Get a single internal article
+   * The single-article export only covers external articles, so the internal list is scanned instead
+   */
+  async getInternalArticle(articleId: number | string): Promise<any> {
+    const articles = await this.listInternalArticles();
+    const article = articles.find(a => String(a.id) === String(articleId));
+    if (!article) {
+      throw new HappyFoxAPIError(`Internal article ${articleId} not found`, 404, 'NOT_FOUND');
+    }
+    return article;
+  }
+
+  /**
+   * Get a single section
+   * API: GET /kb/section/<id>/
+   * Per DOCUMENTATION.md:172
+   */
+  async getSection(sectionId: number | string): Promise<any> {
+    return await this.client.get(`/kb/section/${sectionId}/`);
+  }
+
+  /**
+   * Search external articles by keyword
+   * HappyFox has no KB search endpoint, so articles are matched client-side on title and contents
+   */
+  async searchArticles(options: KnowledgeBaseSearchOptions): Promise<any> {
+    return this.search(await this.listArticles(options.section_id), options);
+  }
+
+  /**
+   * Search internal articles by keyword (client-side, see searchArticles)
+   */
+  async searchInternalArticles(options: KnowledgeBaseSearchOptions): Promise<any> {
+    return this.search(await this.listInternalArticles(options.section_id), options);
+  }
+
+  private search(articles: any[], options: KnowledgeBaseSearchOptions): any {
+    const terms = options.query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) {
+      throw new Error('query must contain at least one search term');
+    }
+
+    const limit = Math.min(options.limit || 10, 50);
+
+    // Every term must appear; title matches rank above body-only matches
+    const matches = articles
+      .map(article => {
+        const title = String(article.title || '').toLowerCase();
+        const body = stripHtml(articleContents(article)).toLowerCase();
+        if (!terms.every(term => title.includes(term) || body.includes(term))) {
+          return null;
+        }
+        const score = terms.filter(term => title.includes(term)).length;
+        return { article, score };
+      })
+      .filter((match): match is { article: any; score: number } => match !== null)
+      .sort((a, b) => b.score - a.score);
+
+    return {
+      query: options.query,
+      total: matches.length,
+      articles: matches.slice(0, limit).map(({ article }) => ({
+        id: article.id,
+        title: article.title,
+        section: article.section,
+        snippet: snippet(stripHtml(articleContents(article)), terms[0])
+      }))
+    };
+  }
+
+  // KB list endpoints may return a bare array or a paginated { data } envelope
+  private toArray(response: any): any[] {
+    if (Array.isArray(response)) return response;
+    if (response && Array.isArray(response.data)) return response.data;
+    return [];
+  }
+
+  private filterBySection(articles: any[], sectionId?: number): any[] {
+    if (sectionId === undefined) return articles;
+    return articles.filter(article => {
+      const section = article.section;
+      const id = section && typeof section === 'object' ? section.id : (section ?? article.section_id);
+      return String(id) === String(sectionId);
+    });
+  }
+}
+
+function articleContents(article: any): string {
+  return String(article.contents ?? article.content ?? '');
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Excerpt around the first occurrence of a term, falling back to the start of the text
+function snippet(text: string, term: string): string {
+  const index = text.toLowerCase().indexOf(term);
+  const start = index > SNIPPET_LENGTH / 2 ? index - SNIPPET_LENGTH / 2 : 0;
+  const excerpt = text.slice(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '...' : ''}${excerpt}${start + SNIPPET_LENGTH < text.length ? '...' : ''}`;
+}
@@ -0,0 +1,196 @@
+import { HappyFoxClient } from '../client';
+
+// Runtime filters accepted by every report view
+export interface ReportFilters {
+  period?: string;       // Which ticket event the date range applies to (e.g. 'created')
+  date_range?: string;   // Preset range (e.g. 'last_7_days'); implied 'custom' when dates are given
+  start_date?: string;   // yyyy-mm-dd
+  end_date?: string;     // yyyy-mm-dd
+}
+
+// Sorting and pagination for paginated report views
+export interface ReportListOptions extends ReportFilters {
+  page?: number;
+  size?: number;
+  sort_key?: string;
+  sort_dir?: 'asc' | 'desc';
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class ReportEndpoints {
+  constructor(private client: HappyFoxClient) {}
+
+  // Period type mapping: API uses short codes
+  private mapPeriodType(period: string): string {
+    const typeMap: Record<string, string> = {
+      'created': 'cr',
+      'assigned': 'as',
+      'staff_reply': 'str',
+      'contact_reply': 'cur',
+      'private_note': 'prs',
+      'staff_reply_or_note': 'srp',
+      'closed': 'cl'
+    };
+    const code = typeMap[period.toLowerCase()];
+    if (!code) {
+      throw new Error(`Invalid period: ${period}. Valid values: ${Object.keys(typeMap).join(', ')}`);
+    }
+    return code;
+  }
+
+  // Date range mapping: API uses short codes
+  private mapDateRangeType(range: string): string {
+    const rangeMap: Record<string, string> = {
+      'custom': 'sr',
+      'today': 'tod',
+      'last_7_days': 'l7d',
+      'month_to_date': 'mtd',
+      'year_to_date': 'ytd',
+      'previous_month': 'pm'
+    };
+    const code = rangeMap[range.toLowerCase()];
+    if (!code) {
+      throw new Error(`Invalid date_range: ${range}. Valid values: ${Object.keys(rangeMap).join(', ')}`);
+    }
+    return code;
+  }
+
+  /**
+   * Build runtime filter query parameters
+   * Per "Get reports via API": period_type, period_date_range_type, period_start, period_end
+   */
+  private buildFilterParams(filters: ReportFilters): Record<string, string> {
+    const queryParams: Record<string, string> = {};
+    const hasDates = filters.start_date !== undefined || filters.end_date !== undefined;
+
+    if (hasDates) {
+      if (!filters.start_date || !filters.end_date) {
+        throw new Error('Both start_date and end_date are required for a custom date range');
+      }
+      if (!DATE_PATTERN.test(filters.start_date) || !DATE_PATTERN.test(filters.end_date)) {
+        throw new Error('start_date and end_date must use the yyyy-mm-dd format');
+      }
+      if (filters.date_range && filters.date_range !== 'custom') {
+        throw new Error('start_date and end_date can only be combined with date_range "custom"');
+      }
+      queryParams.period_date_range_type = 'sr';
+      queryParams.period_start = filters.start_date;
+      queryParams.period_end = filters.end_date;
+    } else if (filters.date_range) {
+      if (filters.date_range === 'custom') {
+        throw new Error('date_range "custom" requires start_date and end_date');
+      }
+      queryParams.period_date_range_type = this.mapDateRangeType(filters.date_range);
+    }
+
+    if (filters.period) {
+      queryParams.period_type = this.mapPeriodType(filters.period);
+    } else if (queryParams.period_date_range_type) {
+      // A date range without a period defaults to ticket creation time
+      queryParams.period_type = 'cr';
+    }
+
+    return queryParams;
+  }
+
+  private buildListParams(options: ReportListOptions): Record<string, string | number> {
+    const queryParams: Record<string, string | number> = {
+      page: options.page || 1,
+      size: Math.min(options.size || 50, 50),
+      ...this.buildFilterParams(options)
+    };
+
+    if (options.sort_key) queryParams.sort_key = options.sort_key;
+    if (options.sort_dir) queryParams.sort_dir = options.sort_dir === 'desc' ? 'd' : 'a';
+
+    return queryParams;
+  }
+
+  /**
+   * List all saved reports
+   * API: GET /reports/
+   * Per DOCUMENTATION.md:147
+   */
+  async listReports(params: { page?: number; size?: number } = {}): Promise<any> {
+    return await this.client.get('/reports/', {
+      page: params.page || 1,
+      size: Math.min(params.size || 50, 50)
+    });
+  }
+
+  /**
+   * Get report summary (ticket, completed, assigned, pending and unassigned counts)
+   * API: GET /report/<id>/
+   * Per DOCUMENTATION.md:148
+   */
+  async getReportSummary(reportId: number, filters: ReportFilters = {}): Promise<any> {
+    const queryParams = this.buildFilterParams(filters);
+    return await this.client.get(
+      `/report/${reportId}/`,
+      Object.keys(queryParams).length > 0 ? queryParams : undefined
+    );
+  }
+
+  /**
+   * Get the tabular view of a report
+   * API: GET /report/<id>/tabulardata/
+   * Per DOCUMENTATION.md:149-150 - sort keys: ticket, status, created, duedate, assigned
+   */
+  async getTabularData(reportId: number, options: ReportListOptions = {}): Promise<any> {
+    return await this.client.get(`/report/${reportId}/tabulardata/`, this.buildListParams(options));
+  }
+
+  /**
+   * Get response statistics
+   * API: GET /report/<id>/responsestats/
+   * Per DOCUMENTATION.md:151
+   */
+  async getResponseStats(reportId: number, filters: ReportFilters = {}): Promise<any> {
+    const queryParams = this.buildFilterParams(filters);
+    return await this.client.get(
+      `/report/${reportId}/responsestats/`,
+      Object.keys(queryParams).length > 0 ? queryParams : undefined
+    );
+  }
+
+  /**
+   * Get staff performance
+   * API: GET /report/<id>/staffperformance/
+   * Per DOCUMENTATION.md:152 - sort key: name
+   */
+  async getStaffPerformance(reportId: number, options: ReportListOptions = {}): Promise<any> {
+    return await this.client.get(`/report/${reportId}/staffperformance/`, this.buildListParams(options));
+  }
+
+  /**
+   * Get staff activity
+   * API: GET /report/<id>/staffactivity/
+   * Per DOCUMENTATION.md:153 - sort key: name
+   */
+  async getStaffActivity(reportId: number, options: ReportListOptions = {}): Promise<any> {
+    return await this.client.get(`/report/${reportId}/staffactivity/`, this.buildListParams(options));
+  }
+
+  /**
+   * Get contact activity
+   * API: GET /report/<id>/customeractivity/
+   * Per DOCUMENTATION.md:154 - sort key: name
+   */
+  async getContactActivity(reportId: number, options: ReportListOptions = {}): Promise<any> {
+    return await this.client.get(`/report/${reportId}/customeractivity/`, this.buildListParams(options));
+  }
+
+  /**
+   * Get SLA performance entries
+   * API: GET /report/<id>/slaentries/
+   * Per DOCUMENTATION.md:155
+   */
+  async getSlaEntries(reportId: number, filters: ReportFilters = {}): Promise<any> {
+    const queryParams = this.buildFilterParams(filters);
+    return await this.client.get(
+      `/report/${reportId}/slaentries/`,
+      Object.keys(queryParams).length > 0 ? queryParams : undefined
+    );
+  }
+}
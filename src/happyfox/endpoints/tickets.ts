@@ -1,8 +1,43 @@
-import { HappyFoxClient } from '../client';
+import { HappyFoxClient, HappyFoxAPIError } from '../client';
+import {
+  AttachmentInput,
+  AttachmentFile,
+  buildMultipartBody,
+  normalizeAttachments,
+  resolveMimeType,
+  MAX_ATTACHMENT_DOWNLOAD_BYTES
+} from '../attachments';
+import { CustomFieldEncoder, CustomFieldDefinition } from '../custom-fields';
+import { TicketSearchFilters, buildTicketQuery, clientSideFilters, matchesClientSideFilters } from '../ticket-query';
 
 export class TicketEndpoints {
   constructor(private client: HappyFoxClient) {}
 
+  /**
+   * Encoder for ticket payload custom fields, validated against cached field metadata
+   * Per Tickets API docs: ticket creation also accepts contact (c-cf-) custom fields
+   */
+  private customFieldEncoder(includeContactFields = true): CustomFieldEncoder {
+    return new CustomFieldEncoder({
+      't-cf-': () => this.client.getCached<CustomFieldDefinition[]>('ticket-custom-fields', '/ticket_custom_fields/'),
+      ...(includeContactFields && {
+        'c-cf-': () => this.client.getCached<CustomFieldDefinition[]>('contact-custom-fields', '/user_custom_fields/')
+      })
+    });
+  }
+
+  /**
+   * POST form data, switching to multipart/form-data when attachments are present
+   * Per DOCUMENTATION.md: attachments require multipart/form-data payloads
+   */
+  private async postWithAttachments(path: string, formData: any, attachments?: AttachmentInput[]): Promise<any> {
+    if (attachments && attachments.length > 0) {
+      const files = normalizeAttachments(attachments);
+      return await this.client.post(path, buildMultipartBody(formData, files));
+    }
+    return await this.client.post(path, formData);
+  }
+
   async createTicket(data: {
     category: string;
     subject: string;
@@ -16,6 +51,7 @@ export class TicketEndpoints {
     cc?: string[];
     bcc?: string[];
     custom_fields?: Record<string, any>;
+    attachments?: AttachmentInput[];
   }): Promise<any> {
     const formData: any = {
       category: data.category,
@@ -34,12 +70,10 @@ export class TicketEndpoints {
 
     // Handle custom fields
     if (data.custom_fields) {
-      Object.entries(data.custom_fields).forEach(([key, value]) => {
-        formData[key] = value;
-      });
+      Object.assign(formData, await this.customFieldEncoder().encode(data.custom_fields));
     }
 
-    return await this.client.post('/tickets/', formData);
+    return await this.postWithAttachments('/tickets/', formData, data.attachments);
   }
 
   async listTickets(params: {
@@ -67,6 +101,49 @@ export class TicketEndpoints {
     return await this.client.get('/tickets/', queryParams);
   }
 
+  /**
+   * Search tickets with typed filters compiled to the q syntax
+   * API: GET /tickets/?status=_all&q=<query>
+   * Per DOCUMENTATION.md "Ticket Query Syntax" - status, contact group, custom field and date
+   * filters are not part of the documented syntax, so they are applied to the returned page and
+   * flagged in the result
+   */
+  async searchTickets(params: TicketSearchFilters & {
+    page?: number;
+    size?: number;
+    category?: string;
+    pending_only?: boolean;
+    sort_by?: string;
+  } = {}): Promise<any> {
+    const query = buildTicketQuery(params);
+    const applied = clientSideFilters(params);
+
+    const queryParams: any = {
+      page: params.page || 1,
+      size: Math.min(params.size || 50, 50),
+      status: params.pending_only ? '_pending' : '_all'
+    };
+    if (query) queryParams.q = query;
+    if (params.category) queryParams.category = params.category;
+    if (params.sort_by) queryParams.sort = params.sort_by;
+
+    const response = await this.client.get('/tickets/', queryParams);
+    if (applied.length === 0) {
+      return { ...response, query };
+    }
+
+    const tickets: any[] = Array.isArray(response?.data) ? response.data : [];
+    return {
+      ...response,
+      data: tickets.filter(ticket => matchesClientSideFilters(ticket, params, applied)),
+      query,
+      client_side_filters: {
+        applied,
+        note: 'Applied to this page only: page_info counts are from HappyFox and include tickets filtered out here'
+      }
+    };
+  }
+
   async getTicket(ticketId: string, params: {
     show_cf_changes?: boolean;
   } = {}): Promise<any> {
@@ -79,6 +156,40 @@ export class TicketEndpoints {
     );
   }
 
+  /**
+   * Download a ticket attachment
+   * Attachment URLs are listed under updates[].message.attachments in the ticket detail
+   * and expire after 5 minutes, so the ticket is re-fetched for a fresh URL.
+   */
+  async getTicketAttachment(
+    ticketId: string,
+    attachmentId: string,
+    maxBytes: number = MAX_ATTACHMENT_DOWNLOAD_BYTES
+  ): Promise<AttachmentFile & { id: number }> {
+    const ticket = await this.getTicket(ticketId);
+
+    const attachment = (ticket?.updates || [])
+      .flatMap((update: any) => update?.message?.attachments || [])
+      .find((candidate: any) => String(candidate.id) === String(attachmentId));
+
+    if (!attachment) {
+      throw new HappyFoxAPIError(
+        `Attachment ${attachmentId} not found on ticket ${ticketId}`,
+        404,
+        'NOT_FOUND'
+      );
+    }
+
+    const { data, contentType } = await this.client.download(attachment.url, maxBytes);
+
+    return {
+      id: attachment.id,
+      filename: attachment.filename,
+      mimeType: resolveMimeType(contentType, attachment.filename),
+      data
+    };
+  }
+
   async updateTags(ticketId: string, data: { add?: string[], remove?: string[], staff_id?: number }): Promise<any> {
     const formData: any = {};
     if (data.staff_id) formData.staff_id = data.staff_id;
@@ -88,7 +199,7 @@ export class TicketEndpoints {
   }
 
   async updateCustomFields(ticketId: string, fields: Record<string, any>, staff?: number): Promise<any> {
-    const formData: any = { ...fields };
+    const formData: any = await this.customFieldEncoder(false).encode(fields);
     if (staff) formData.staff = staff;
     return await this.client.post(`/ticket/${ticketId}/update_custom_fields/`, formData);
   }
@@ -108,6 +219,7 @@ export class TicketEndpoints {
     status?: string;
     priority?: string;
     assignee?: number;
+    attachments?: AttachmentInput[];
   }): Promise<any> {
     const formData: any = {
       staff: data.staff_id,
@@ -120,7 +232,7 @@ export class TicketEndpoints {
     if (data.priority) formData.priority = data.priority;
     if (data.assignee) formData.assignee = data.assignee;
 
-    return await this.client.post(`/ticket/${ticketId}/staff_update/`, formData);
+    return await this.postWithAttachments(`/ticket/${ticketId}/staff_update/`, formData, data.attachments);
   }
 
   async addPrivateNote(ticketId: string, data: {
@@ -128,6 +240,7 @@ export class TicketEndpoints {
     staff_id: number;
     status?: string;
     priority?: string;
+    attachments?: AttachmentInput[];
   }): Promise<any> {
     const formData: any = {
       staff: data.staff_id,
@@ -137,7 +250,7 @@ export class TicketEndpoints {
     if (data.status) formData.status = data.status;
     if (data.priority) formData.priority = data.priority;
 
-    return await this.client.post(`/ticket/${ticketId}/staff_pvtnote/`, formData);
+    return await this.postWithAttachments(`/ticket/${ticketId}/staff_pvtnote/`, formData, data.attachments);
   }
 
   async forwardTicket(ticketId: string, data: {
@@ -173,6 +286,7 @@ export class TicketEndpoints {
     user?: number;
     cc?: string[];
     bcc?: string[];
+    attachments?: AttachmentInput[];
   }): Promise<any> {
     const formData: any = {
       html: data.text
@@ -182,7 +296,7 @@ export class TicketEndpoints {
     if (data.cc && data.cc.length > 0) formData.cc = data.cc.join(',');
     if (data.bcc && data.bcc.length > 0) formData.bcc = data.bcc.join(',');
 
-    return await this.client.post(`/ticket/${ticketId}/user_reply/`, formData);
+    return await this.postWithAttachments(`/ticket/${ticketId}/user_reply/`, formData, data.attachments);
   }
 
   /**
@@ -234,7 +348,8 @@ export class TicketEndpoints {
       throw new Error('At least one ticket is required');
     }
 
-    const formattedTickets = tickets.map(ticket => {
+    const encoder = this.customFieldEncoder();
+    const formattedTickets = await Promise.all(tickets.map(async ticket => {
       const formData: any = {
         category: ticket.category,
         subject: ticket.subject,
@@ -251,14 +366,128 @@ export class TicketEndpoints {
       if (ticket.bcc && ticket.bcc.length > 0) formData.bcc = ticket.bcc.join(',');
 
       if (ticket.custom_fields) {
-        Object.entries(ticket.custom_fields).forEach(([key, value]) => {
-          formData[key] = value;
-        });
+        Object.assign(formData, await encoder.encode(ticket.custom_fields));
       }
 
       return formData;
-    });
+    }));
 
     return await this.client.post('/tickets/', formattedTickets);
   }
+
+  /**
+   * Get the choices of a dropdown or multiple-choice ticket custom field
+   * API: GET /ticket_custom_fields/ (there is no single-field GET)
+   * Per DOCUMENTATION.md:164
+   */
+  async listCustomFieldChoices(fieldId: number): Promise<any> {
+    return this.summarizeChoiceField(await this.getChoiceField(fieldId));
+  }
+
+  /**
+   * Replace the full choice list of a ticket custom field
+   * API: PUT /ticket_custom_field/<id>/
+   * Per DOCUMENTATION.md:165 - choices omitted from the list are deleted, id: null creates a choice.
+   * dependant_fields is only sent when known, so existing dependencies are not cleared by accident.
+   */
+  async updateCustomFieldChoices(
+    fieldId: number,
+    choices: Array<{ id: number | null; text: string; dependant_fields?: any[] }>
+  ): Promise<any> {
+    return await this.client.put(`/ticket_custom_field/${fieldId}/`, {
+      choices: choices.map(choice => ({
+        id: choice.id,
+        text: choice.text,
+        ...(choice.dependant_fields !== undefined && { dependant_fields: choice.dependant_fields })
+      }))
+    });
+  }
+
+  /**
+   * Add choices to a ticket custom field, skipping any that already exist (case-insensitive)
+   */
+  async addCustomFieldChoices(fieldId: number, texts: string[]): Promise<any> {
+    const field = await this.getChoiceField(fieldId);
+    const existing = new Set(field.choices.map((choice: any) => String(choice.text).trim().toLowerCase()));
+
+    const added: string[] = [];
+    for (const text of texts.map(t => t.trim()).filter(Boolean)) {
+      if (!existing.has(text.toLowerCase())) {
+        existing.add(text.toLowerCase());
+        added.push(text);
+      }
+    }
+
+    if (added.length === 0) {
+      return { updated: false, added: [], field: this.summarizeChoiceField(field) };
+    }
+
+    const result = await this.updateCustomFieldChoices(fieldId, [
+      ...field.choices,
+      ...added.map(text => ({ id: null, text, dependant_fields: [] }))
+    ]);
+    return { updated: true, added, field: result };
+  }
+
+  /**
+   * Rename a single choice of a ticket custom field, keeping its ID
+   */
+  async renameCustomFieldChoice(fieldId: number, choiceId: number, text: string): Promise<any> {
+    if (!text.trim()) {
+      throw new Error('text must not be empty');
+    }
+
+    const field = await this.getChoiceField(fieldId);
+    if (!field.choices.some((choice: any) => choice.id === choiceId)) {
+      throw new HappyFoxAPIError(`Choice ${choiceId} not found on custom field ${fieldId}`, 404, 'NOT_FOUND');
+    }
+
+    return await this.updateCustomFieldChoices(
+      fieldId,
+      field.choices.map((choice: any) => choice.id === choiceId ? { ...choice, text: text.trim() } : choice)
+    );
+  }
+
+  /**
+   * Retire (delete) choices of a ticket custom field by omitting them from the choice list
+   */
+  async retireCustomFieldChoices(fieldId: number, choiceIds: number[]): Promise<any> {
+    const field = await this.getChoiceField(fieldId);
+    const unknown = choiceIds.filter(id => !field.choices.some((choice: any) => choice.id === id));
+    if (unknown.length > 0) {
+      throw new HappyFoxAPIError(
+        `Choice(s) ${unknown.join(', ')} not found on custom field ${fieldId}`,
+        404,
+        'NOT_FOUND'
+      );
+    }
+
+    const remaining = field.choices.filter((choice: any) => !choiceIds.includes(choice.id));
+    if (remaining.length === 0) {
+      throw new Error('Cannot retire every choice of a custom field');
+    }
+
+    return await this.updateCustomFieldChoices(fieldId, remaining);
+  }
+
+  private async getChoiceField(fieldId: number): Promise<any> {
+    const fields = await this.client.get<any[]>('/ticket_custom_fields/');
+    const field = (Array.isArray(fields) ? fields : []).find(f => f.id === fieldId);
+    if (!field) {
+      throw new HappyFoxAPIError(`Ticket custom field ${fieldId} not found`, 404, 'NOT_FOUND');
+    }
+    if (!Array.isArray(field.choices)) {
+      throw new Error(`Ticket custom field ${fieldId} (${field.type}) does not have choices`);
+    }
+    return field;
+  }
+
+  private summarizeChoiceField(field: any): any {
+    return {
+      id: field.id,
+      name: field.name,
+      type: field.type,
+      choices: field.choices.map((choice: any) => ({ id: choice.id, text: choice.text }))
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+/**
+ * Ticket search query builder
+ * Compiles typed filters to the /tickets/ `q` syntax (see DOCUMENTATION.md "Ticket Query Syntax")
+ * Only documented terms go into `q`; status, contact group, custom field and date filters are
+ * not part of the documented syntax and are applied client-side to the returned page instead
+ */
+
+export interface TicketSearchFilters {
+  assignee?: string[];
+  priority?: string[];
+  status?: string[];
+  tag?: string[];
+  contact?: string[];
+  contact_group?: string[];
+  duedate?: 'today' | 'yesterday' | 'tomorrow' | 'overdue' | 'next_7_days';
+  unresponded?: boolean;
+  breached?: boolean;
+  has_attachments?: boolean;
+  custom_fields?: Record<string, string | number | Array<string | number>>;
+  created_from?: string;
+  created_to?: string;
+  updated_from?: string;
+  updated_to?: string;
+}
+
+// Filters applied to the returned page
+export const CLIENT_SIDE_FILTERS = [
+  'status',
+  'contact_group',
+  'custom_fields',
+  'created_from',
+  'created_to',
+  'updated_from',
+  'updated_to'
+] as const;
+
+export type ClientSideFilter = typeof CLIENT_SIDE_FILTERS[number];
+
+// Date range filters, keyed by the ticket field they compare
+const DATE_FILTERS = {
+  created_from: 'created_at',
+  created_to: 'created_at',
+  updated_from: 'last_updated_at',
+  updated_to: 'last_updated_at'
+} as const;
+
+// Assignee keywords: --none (unassigned), --any (assigned)
+const KEYWORDS: Record<string, string> = { none: '--none', any: '--any' };
+
+const DUEDATE_VALUES: Record<string, string> = {
+  today: 'today',
+  yesterday: 'yesterday',
+  tomorrow: 'tomorrow',
+  overdue: 'overdue',
+  next_7_days: '"next 7 days"'
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Build the `q` string for the given filters
+ * Terms are joined with spaces, which the query string encodes as `+`
+ */
+export function buildTicketQuery(filters: TicketSearchFilters): string {
+  const terms: string[] = [];
+
+  if (filters.assignee?.length) terms.push(`assignee:${keywordList('assignee', filters.assignee)}`);
+  if (filters.priority?.length) terms.push(`priority:${quotedList('priority', filters.priority)}`);
+  if (filters.tag?.length) terms.push(`tag:${quotedList('tag', filters.tag)}`);
+  if (filters.contact?.length) terms.push(`contact:${quotedList('contact', filters.contact)}`);
+  if (filters.duedate) {
+    const duedate = DUEDATE_VALUES[filters.duedate];
+    if (!duedate) {
+      throw new Error(`Invalid duedate: ${filters.duedate}. Must be one of: ${Object.keys(DUEDATE_VALUES).join(', ')}`);
+    }
+    terms.push(`duedate:${duedate}`);
+  }
+  if (filters.unresponded !== undefined) terms.push(`unresponded:${filters.unresponded}`);
+  if (filters.breached !== undefined) terms.push(`breached:${filters.breached}`);
+  if (filters.has_attachments !== undefined) terms.push(`has_attachments:${filters.has_attachments}`);
+
+  return terms.join(' ');
+}
+
+/**
+ * Validate the client-side filters, returning the names of those in use
+ */
+export function clientSideFilters(filters: TicketSearchFilters): ClientSideFilter[] {
+  const active = CLIENT_SIDE_FILTERS.filter(name => {
+    const value = filters[name];
+    if (value === undefined) return false;
+    if (Array.isArray(value)) return value.length > 0;
+    return typeof value !== 'object' || Object.keys(value).length > 0;
+  });
+
+  for (const name of active) {
+    if (name in DATE_FILTERS) {
+      if (!DATE_PATTERN.test(String(filters[name]))) {
+        throw new Error(`${name} must be a date in yyyy-mm-dd format, got ${JSON.stringify(filters[name])}`);
+      }
+    } else if (name === 'custom_fields') {
+      for (const [label, value] of Object.entries(filters.custom_fields!)) {
+        if (!label.trim()) throw new Error('Custom field labels must be non-empty');
+        (Array.isArray(value) ? value : [value]).forEach(option => checkedValue(`custom field "${label}"`, String(option)));
+      }
+    } else {
+      (filters[name] as string[]).forEach(value => checkedValue(name, value));
+    }
+  }
+  return active;
+}
+
+/**
+ * Whether a ticket satisfies the active client-side filters
+ * Names and option labels compare case-insensitively; date ranges are inclusive and compare the date part
+ */
+export function matchesClientSideFilters(ticket: any, filters: TicketSearchFilters, active: ClientSideFilter[]): boolean {
+  return active.every(name => {
+    switch (name) {
+      case 'status':
+        return matchesAny([ticket?.status?.name], filters.status!);
+      case 'contact_group': {
+        const groups: any[] = Array.isArray(ticket?.user?.contact_groups) ? ticket.user.contact_groups : [];
+        return filters.contact_group!.some(value => {
+          const keyword = String(value).trim().toLowerCase();
+          if (keyword === 'none') return groups.length === 0;
+          if (keyword === 'any') return groups.length > 0;
+          return matchesAny(groups.map(group => group?.name), [value]);
+        });
+      }
+      case 'custom_fields':
+        return Object.entries(filters.custom_fields!).every(([label, value]) => {
+          const field = customFieldList(ticket).find(item => normalize(item?.name) === normalize(label));
+          const current = Array.isArray(field?.value) ? field.value : [field?.value];
+          return matchesAny(current, (Array.isArray(value) ? value : [value]).map(String));
+        });
+      default: {
+        const date = String(ticket?.[DATE_FILTERS[name]] ?? '').slice(0, 10);
+        if (!DATE_PATTERN.test(date)) return false;
+        const bound = filters[name] as string;
+        return name.endsWith('_from') ? date >= bound : date <= bound;
+      }
+    }
+  });
+}
+
+function matchesAny(actual: unknown[], wanted: string[]): boolean {
+  const values = actual.filter(value => value !== undefined && value !== null).map(normalize);
+  return wanted.some(value => values.includes(normalize(value)));
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+// Ticket custom fields as returned by HappyFox: a list of { id, name, type, value }
+function customFieldList(ticket: any): any[] {
+  return Array.isArray(ticket?.custom_fields) ? ticket.custom_fields : [];
+}
+
+// "a","b" - the syntax has no escape for double quotes, so values containing them are rejected
+function quotedList(filter: string, values: string[]): string {
+  return values.map(value => `"${checkedValue(filter, value)}"`).join(',');
+}
+
+// Keyword lists (assignee) take bare values, quoted only when they contain spaces or commas,
+// and accept "none" and "any" in addition to exact names
+function keywordList(filter: string, values: string[]): string {
+  return values
+    .map(value => {
+      const keyword = KEYWORDS[String(value).trim().toLowerCase()];
+      if (keyword) return keyword;
+      const text = checkedValue(filter, value);
+      return /[\s,]/.test(text) ? `"${text}"` : text;
+    })
+    .join(',');
+}
+
+function checkedValue(filter: string, value: string): string {
+  const text = String(value).trim();
+  if (!text || text.includes('"')) {
+    throw new Error(`Invalid ${filter} value ${JSON.stringify(value)}: values must be non-empty and cannot contain double quotes`);
+  }
+  return text;
+}
@@ -1,13 +1,19 @@
 /**
  * HappyFox MCP Adapter - Cloudflare Worker Entry Point
- * MCP 2025-11-25 Streamable HTTP Transport with OAuth 2.0 Authentication
+ * MCP Streamable HTTP Transport (protocol 2025-03-26 through 2025-11-25) with OAuth 2.0 Authentication
  */
 
 import { OAuthProvider } from '@cloudflare/workers-oauth-provider';
-import { Env, MCPMessage, MCP_PROTOCOL_VERSION, AuthContext } from './types';
+import { Env, MCPMessage, MCPRequest, MCPResponse, MCP_PROTOCOL_VERSION, AuthContext, ClientChannel, ClientResponse, MCPSessionPayload, ResourceSubscriptions, RequestCancellation } from './types';
 import { MCPServer } from './mcp/server';
+import { isSupportedProtocolVersion, getProtocolFeatures, DEFAULT_HEADER_PROTOCOL_VERSION } from './mcp/protocol-versions';
+import { requiresConfirmation } from './mcp/tools/confirmation';
+import { SSEStream } from './mcp/sse-stream';
 import { CORSMiddleware } from './middleware/cors';
-import { SessionTokenManager } from './session/token';
+import { SessionTokenManager, getClientCapabilities } from './session/token';
+import { SessionHub, RequestOutcome } from './session/session-hub';
+import { SubscriptionDirectory, getAccountKey } from './session/subscription-directory';
+import { handleWebhook } from './webhooks/happyfox';
 import { handleWellKnown } from './oauth/handlers/metadata';
 import { renderConsentPage, renderErrorPage } from './oauth/views/consent';
 import { validateAndResolveStaff } from './oauth/services/happyfox-validator';
@@ -17,6 +23,9 @@ import { AVAILABLE_SCOPES, DEFAULT_SCOPES, StoredCredentials, CREDENTIAL_TTL_SEC
 // Account name validation pattern (prevents SSRF)
 const ACCOUNT_NAME_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
 
+// How long a streamed tool call waits for the user to answer an elicitation
+const ELICITATION_TIMEOUT_MS = 120_000;
+
 /**
  * Props stored in OAuth grant and passed to API handler
  */
@@ -138,17 +147,15 @@ class McpApiHandler {
       return corsMiddleware.handlePreflight(origin);
     }
 
-    // Handle GET (SSE streaming - not implemented)
+    // Handle GET (resuming a streamed response with Last-Event-ID, or the session SSE stream
+    // for resource subscriptions)
     if (request.method === 'GET') {
-      return new Response('SSE streaming not supported', {
-        status: 405,
-        headers: { ...corsHeaders, 'Allow': 'POST, OPTIONS, DELETE' }
-      });
+      return this.handleStream(request, typedEnv, typedCtx, corsHeaders);
     }
 
     // Handle DELETE (session termination)
     if (request.method === 'DELETE') {
-      return new Response(null, { status: 202, headers: corsHeaders });
+      return this.terminateSession(request, typedEnv, typedCtx.props, corsHeaders);
     }
 
     // Only POST from here
@@ -159,26 +166,17 @@ class McpApiHandler {
       });
     }
 
-    // Check if MCP headers are present BEFORE parsing JSON
-    // This ensures header errors take precedence over parse errors for non-initialize requests
-    const hasMcpHeaders = this.hasMcpHeaders(request);
-
     // Parse request body
     let rawBody: unknown;
     try {
       rawBody = await request.json();
     } catch {
-      // If MCP headers are missing and JSON is invalid, return header error
-      // (we can't determine if it's initialize, so assume it's not)
-      if (!hasMcpHeaders) {
-        return this.jsonRpcError(-32600, 'Invalid Request: MCP-Protocol-Version header required.', null, 400, corsHeaders);
-      }
       return this.jsonRpcError(-32700, 'Parse error: Invalid JSON', null, 400, corsHeaders);
     }
 
-    // Reject batch requests
+    // Batch requests are only part of 2025-03-26 sessions
     if (Array.isArray(rawBody)) {
-      return this.jsonRpcError(-32600, 'Invalid Request: Batch requests not supported.', null, 400, corsHeaders);
+      return this.handleBatch(request, typedEnv, typedCtx.props, rawBody, corsHeaders);
     }
 
     // Validate JSON-RPC 2.0 structure
@@ -191,6 +189,12 @@ class McpApiHandler {
     }
 
     const body = rawBody as Record<string, unknown>;
+
+    // JSON-RPC responses answer our server-initiated requests (elicitation/create)
+    if (body.method === undefined && 'id' in body && ('result' in body || 'error' in body)) {
+      return this.handleClientResponse(request, typedEnv, typedCtx.props, body as unknown as ClientResponse, corsHeaders);
+    }
+
     if (typeof body.method !== 'string' || body.method.length === 0) {
       const rawId = body.id;
       const id = (typeof rawId === 'string' || typeof rawId === 'number' || rawId === null) ? rawId : null;
@@ -201,13 +205,15 @@ class McpApiHandler {
     const isInitialize = message.method === 'initialize';
 
     // Validate MCP headers for non-initialize requests
+    let session: MCPSessionPayload | undefined;
     if (!isInitialize) {
       const headerError = this.validateMcpHeaders(request, message, corsHeaders);
       if (headerError) return headerError;
 
       // Session validation
-      const sessionError = await this.validateSession(request, typedEnv, message, corsHeaders);
-      if (sessionError) return sessionError;
+      const validation = await this.validateSession(request, typedEnv, typedCtx.props, message, corsHeaders);
+      if (validation instanceof Response) return validation;
+      session = validation;
     }
 
     // Build AuthContext from OAuth props
@@ -224,11 +230,31 @@ class McpApiHandler {
       );
     }
 
+    // Requests that may send messages before their result are answered over SSE:
+    // destructive tools asking for confirmation (elicitation/create) and requests with a progressToken
+    const protocolVersion = session?.v ?? MCP_PROTOCOL_VERSION;
+    const subscriptions = this.subscriptionsFor(request, typedEnv, typedCtx.props, session);
+    const clientCapabilities = session ? getClientCapabilities(session) : [];
+    const canElicit = getProtocolFeatures(protocolVersion).elicitation && clientCapabilities.includes('elicitation');
+    const progressToken = message.params?._meta?.progressToken;
+    const hasProgressToken = typeof progressToken === 'string' || typeof progressToken === 'number';
+    const needsConfirmation = canElicit && message.method === 'tools/call' && requiresConfirmation(message.params?.name);
+    if ('id' in message && (needsConfirmation || hasProgressToken)) {
+      return this.streamResponse(message, authContext, typedEnv, typedCtx, corsHeaders, {
+        sessionId: request.headers.get('MCP-Session-Id')!,
+        protocolVersion,
+        subscriptions,
+        canElicit,
+        progressToken: hasProgressToken ? progressToken : undefined
+      });
+    }
+
     // Process the message
-    const mcpServer = new MCPServer(authContext);
+    const cancellation = this.cancellationFor(typedEnv, typedCtx.props.tokenId, request.headers.get('MCP-Session-Id'), false);
+    const mcpServer = new MCPServer(authContext, undefined, protocolVersion, subscriptions, cancellation);
     const response = await mcpServer.handleMessage(message);
 
-    // Handle notifications (no response body)
+    // Notifications, and requests the client cancelled, get no response body
     if (response === null) {
       return new Response(null, { status: 202, headers: corsHeaders });
     }
@@ -243,13 +269,335 @@ class McpApiHandler {
     if (isInitialize && response.result) {
       const tokenManager = new SessionTokenManager(typedEnv.MCP_SESSION_SECRET);
       const capabilities = Object.keys(response.result.capabilities || {});
-      const sessionToken = await tokenManager.createToken(MCP_PROTOCOL_VERSION, capabilities);
+      const sessionToken = await tokenManager.createToken(
+        response.result.protocolVersion,
+        capabilities,
+        this.clientCapabilities(message.params?.capabilities),
+        { tokenId: typedCtx.props.tokenId, staffId: typedCtx.props.staffId, clientInfo: message.params?.clientInfo }
+      );
       responseHeaders['MCP-Session-Id'] = sessionToken;
     }
 
     return new Response(JSON.stringify(response), { headers: responseHeaders });
   }
 
+  /**
+   * Answer a request over SSE so the server can message the client before the result
+   * Stream: elicitation/create requests and notifications/progress as they happen, then the response
+   * Events are recorded in the session's hub, so a dropped connection can be resumed
+   */
+  private async streamResponse(
+    message: MCPRequest,
+    authContext: AuthContext,
+    env: Env,
+    ctx: ExecutionContext,
+    corsHeaders: Record<string, string>,
+    options: {
+      sessionId: string;
+      protocolVersion: string;
+      subscriptions?: ResourceSubscriptions;
+      canElicit: boolean;
+      progressToken?: string | number;
+    }
+  ): Promise<Response> {
+    const stream = new SSEStream({
+      buffer: this.getSessionHub(env, authContext.tokenId, options.sessionId),
+      streamId: crypto.randomUUID()
+    });
+    const channel: ClientChannel = {};
+
+    if (options.canElicit) {
+      // The answer is posted separately and reaches this request through the session's hub
+      const hub = this.getSessionHub(env, authContext.tokenId, options.sessionId);
+      channel.elicit = async (question, requestedSchema) => {
+        const id = `elicit-${crypto.randomUUID()}`;
+        const answered: Promise<ClientResponse | null> = hub.waitForResponse(id, ELICITATION_TIMEOUT_MS);
+        await stream.send({ jsonrpc: '2.0', id, method: 'elicitation/create', params: { mode: 'form', message: question, requestedSchema } });
+
+        // No answer, or an error answer, counts as cancelled
+        const answer = await answered;
+        return answer?.result && typeof answer.result.action === 'string' ? answer.result : { action: 'cancel' };
+      };
+    }
+
+    const progressToken = options.progressToken;
+    if (progressToken !== undefined) {
+      // Progress must increase with every notification; stale or repeated values are dropped
+      let last = -Infinity;
+      channel.progress = async (progress, total, progressMessage) => {
+        if (!(progress > last)) return;
+        last = progress;
+        await stream.send({
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress,
+            ...(total !== undefined && Number.isFinite(total) && { total }),
+            ...(progressMessage && { message: progressMessage })
+          }
+        });
+      };
+    }
+
+    ctx.waitUntil((async () => {
+      try {
+        await stream.begin(getProtocolFeatures(options.protocolVersion).streamPriming);
+        const cancellation = this.cancellationFor(env, authContext.tokenId, options.sessionId, true);
+        const response = await new MCPServer(authContext, channel, options.protocolVersion, options.subscriptions, cancellation).handleMessage(message);
+        if (response) await stream.send(response);
+      } catch (error) {
+        console.error('Streamed request failed:', error);
+      } finally {
+        await stream.close();
+      }
+    })());
+
+    return new Response(stream.readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        ...corsHeaders
+      }
+    });
+  }
+
+  /**
+   * Handle GET: open the session's SSE stream, or resume a streamed response after Last-Event-ID;
+   * both are served by the session hub, so only streams of the same session can be resumed
+   */
+  private async handleStream(
+    request: Request,
+    env: Env,
+    ctx: ExecutionContext & { props: OAuthProps },
+    corsHeaders: Record<string, string>
+  ): Promise<Response> {
+    const acceptHeader = request.headers.get('Accept') || '';
+    if (!acceptHeader.includes('text/event-stream') && !acceptHeader.includes('*/*')) {
+      return this.jsonRpcError(-32600, 'Invalid Request: Accept header must include text/event-stream.', null, 400, corsHeaders);
+    }
+    const asNotification: MCPMessage = { jsonrpc: '2.0', method: 'stream' };
+    const protocolVersionHeader = request.headers.get('MCP-Protocol-Version');
+    if (protocolVersionHeader !== null && !isSupportedProtocolVersion(protocolVersionHeader)) {
+      return this.jsonRpcError(-32602, `Unsupported protocol version: ${protocolVersionHeader}`, null, 400, corsHeaders);
+    }
+    const session = await this.validateSession(request, env, ctx.props, asNotification, corsHeaders);
+    if (session instanceof Response) return session;
+
+    const hub = this.getSessionHub(env, ctx.props.tokenId, request.headers.get('MCP-Session-Id')!);
+    const response = await hub.fetch(request);
+    if (response.status === 404) {
+      return this.jsonRpcError(-32600, 'Invalid Request: Unknown or expired Last-Event-ID.', null, 404, corsHeaders);
+    }
+    const headers = new Headers(response.headers);
+    for (const [name, value] of Object.entries(corsHeaders)) {
+      headers.set(name, value);
+    }
+    return new Response(response.body, { status: response.status, headers });
+  }
+
+  /**
+   * Terminate the session: revoke its token and close its session hub
+   */
+  private async terminateSession(
+    request: Request,
+    env: Env,
+    props: OAuthProps,
+    corsHeaders: Record<string, string>
+  ): Promise<Response> {
+    const asNotification: MCPMessage = { jsonrpc: '2.0', method: 'terminate' };
+    const session = await this.validateSession(request, env, props, asNotification, corsHeaders);
+    if (session instanceof Response) return session;
+
+    await new SessionTokenManager(env.MCP_SESSION_SECRET, env.OAUTH_KV).revokeToken(session);
+    await this.getSessionHub(env, props.tokenId, request.headers.get('MCP-Session-Id')!).terminate();
+
+    return new Response(null, { status: 202, headers: corsHeaders });
+  }
+
+  /**
+   * Subscriptions of the request's session, kept until it expires
+   * (initialize has no session yet; the object then only advertises the capability)
+   */
+  private subscriptionsFor(request: Request, env: Env, props: OAuthProps, session?: MCPSessionPayload): ResourceSubscriptions {
+    const sessionId = request.headers.get('MCP-Session-Id') || '';
+    const account = getAccountKey(props.region, props.accountName);
+
+    return {
+      subscribe: async content => {
+        // resources/subscribe is only handled within a session
+        await this.getSessionHub(env, props.tokenId, sessionId).subscribe(props.tokenId, account, content, session!.exp);
+      },
+      unsubscribe: async uri => {
+        await this.getSessionHub(env, props.tokenId, sessionId).unsubscribe(uri);
+      }
+    };
+  }
+
+  /**
+   * Cancellation of the session's tool calls: a tracked call watches for its cancel in the session
+   * hub, which notifications/cancelled reaches whichever isolate handles it. Tracking costs two hub
+   * calls per tool call (the watch, held open for the whole call, and finish), so only calls
+   * answered on a stream are tracked; JSON responses run to completion. Requests without a session
+   * (initialize) have nothing to cancel
+   */
+  private cancellationFor(
+    env: Env,
+    tokenId: string,
+    sessionId: string | null,
+    trackCalls: boolean
+  ): RequestCancellation | undefined {
+    if (!sessionId) return undefined;
+    const hub = this.getSessionHub(env, tokenId, sessionId);
+    const cancellation: RequestCancellation = {
+      cancel: async (requestId, reason) => {
+        await hub.cancel(requestId, reason);
+      }
+    };
+    if (trackCalls) {
+      cancellation.track = requestId => {
+        const controller = new AbortController();
+        const outcome: Promise<RequestOutcome> = hub.watchCancellation(requestId);
+        outcome.then(
+          ({ cancelled, reason }) => {
+            if (cancelled) controller.abort(reason);
+          },
+          // Unreachable hub: the call runs to completion, as cancellation is best-effort
+          () => {}
+        );
+        return {
+          signal: controller.signal,
+          finish: async () => {
+            await hub.finishRequest(requestId);
+          }
+        };
+      };
+    }
+    return cancellation;
+  }
+
+  // One hub per session, keyed by OAuth token too so a session ID is useless with another token
+  private getSessionHub(env: Env, tokenId: string, sessionId: string): DurableObjectStub<SessionHub> {
+    return env.SESSION_HUB.get(env.SESSION_HUB.idFromName(`${tokenId}:${sessionId}`));
+  }
+
+  /**
+   * Process a JSON-RPC batch (2025-03-26 sessions only)
+   * Messages run in order; the response is an array of the request results, or 202 when
+   * the batch holds only notifications. Batched requests are never streamed, so progress
+   * and confirmation prompts are not sent for them
+   */
+  private async handleBatch(
+    request: Request,
+    env: Env,
+    props: OAuthProps,
+    batch: unknown[],
+    corsHeaders: Record<string, string>
+  ): Promise<Response> {
+    if (batch.length === 0) {
+      return this.jsonRpcError(-32600, 'Invalid Request: Empty batch', null, 400, corsHeaders);
+    }
+
+    // Validated like any other post-initialize message; errors carry a null id
+    const asNotification: MCPMessage = { jsonrpc: '2.0', method: 'batch' };
+    const headerError = this.validateMcpHeaders(request, asNotification, corsHeaders);
+    if (headerError) return headerError;
+    const session = await this.validateSession(request, env, props, asNotification, corsHeaders);
+    if (session instanceof Response) return session;
+
+    if (!getProtocolFeatures(session.v).batchRequests) {
+      return this.jsonRpcError(-32600, 'Invalid Request: Batch requests not supported.', null, 400, corsHeaders);
+    }
+
+    let authContext: AuthContext;
+    try {
+      authContext = await buildAuthContext(props, env);
+    } catch (error) {
+      return this.jsonRpcError(
+        -32002,
+        'Authentication error: Unable to retrieve credentials. Please re-authorize.',
+        null,
+        401,
+        corsHeaders
+      );
+    }
+
+    const mcpServer = new MCPServer(
+      authContext,
+      undefined,
+      session.v,
+      this.subscriptionsFor(request, env, props, session),
+      this.cancellationFor(env, props.tokenId, request.headers.get('MCP-Session-Id'), false)
+    );
+    const responses: MCPResponse[] = [];
+    for (const item of batch) {
+      const response = await this.handleBatchItem(mcpServer, item);
+      if (response) responses.push(response);
+    }
+
+    if (responses.length === 0) {
+      return new Response(null, { status: 202, headers: corsHeaders });
+    }
+    return new Response(JSON.stringify(responses), {
+      headers: { 'Content-Type': 'application/json', ...corsHeaders }
+    });
+  }
+
+  // One batch entry: invalid entries get their own error response instead of failing the batch
+  private async handleBatchItem(mcpServer: MCPServer, item: unknown): Promise<MCPResponse | null> {
+    const entry = item && typeof item === 'object' && !Array.isArray(item) ? item as Record<string, unknown> : {};
+    const rawId = entry.id;
+    const id = (typeof rawId === 'string' || typeof rawId === 'number' || rawId === null) ? rawId : null;
+
+    if (entry.jsonrpc !== '2.0' || typeof entry.method !== 'string' || entry.method.length === 0) {
+      return { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request: Missing or invalid jsonrpc or method field' }, id };
+    }
+    if (entry.method === 'initialize') {
+      return { jsonrpc: '2.0', error: { code: -32600, message: 'Invalid Request: initialize must not be part of a batch' }, id };
+    }
+
+    return await mcpServer.handleMessage(entry as unknown as MCPMessage);
+  }
+
+  /**
+   * Accept a client's JSON-RPC response to a server-initiated request
+   */
+  private async handleClientResponse(
+    request: Request,
+    env: Env,
+    props: OAuthProps,
+    response: ClientResponse,
+    corsHeaders: Record<string, string>
+  ): Promise<Response> {
+    // Validated like any other post-initialize message; errors carry a null id since
+    // the response id belongs to our request, not to a client request
+    const asNotification: MCPMessage = { jsonrpc: '2.0', method: 'response' };
+    const headerError = this.validateMcpHeaders(request, asNotification, corsHeaders);
+    if (headerError) return headerError;
+    const validation = await this.validateSession(request, env, props, asNotification, corsHeaders);
+    if (validation instanceof Response) return validation;
+
+    if (typeof response.id !== 'string' && typeof response.id !== 'number') {
+      return this.jsonRpcError(-32600, 'Invalid Request: Response id must be a string or number', null, 400, corsHeaders);
+    }
+
+    await this.getSessionHub(env, props.tokenId, request.headers.get('MCP-Session-Id')!).resolveResponse(response);
+    return new Response(null, { status: 202, headers: corsHeaders });
+  }
+
+  /**
+   * Client capability names to record in the session token
+   * Elicitation only counts when form mode is supported (an empty object means form only)
+   */
+  private clientCapabilities(capabilities: unknown): string[] {
+    if (!capabilities || typeof capabilities !== 'object' || Array.isArray(capabilities)) return [];
+    const declared = capabilities as Record<string, any>;
+    const elicitation = declared.elicitation;
+    const formElicitation = typeof elicitation === 'object' && elicitation !== null &&
+      (Object.keys(elicitation).length === 0 || 'form' in elicitation);
+    return Object.keys(declared).filter(name => name !== 'elicitation' || formElicitation);
+  }
+
   private validateMcpHeaders(
     request: Request,
     message: MCPMessage,
@@ -257,12 +605,10 @@ class McpApiHandler {
   ): Response | null {
     const id = 'id' in message ? message.id : null;
 
-    // Validate MCP-Protocol-Version header
+    // Validate MCP-Protocol-Version header; whether it is required depends on the session's
+    // version, checked in validateSession
     const protocolVersionHeader = request.headers.get('MCP-Protocol-Version');
-    if (!protocolVersionHeader) {
-      return this.jsonRpcError(-32600, 'Invalid Request: MCP-Protocol-Version header required.', id, 400, corsHeaders);
-    }
-    if (protocolVersionHeader !== MCP_PROTOCOL_VERSION) {
+    if (protocolVersionHeader !== null && !isSupportedProtocolVersion(protocolVersionHeader)) {
       return this.jsonRpcError(-32602, `Unsupported protocol version: ${protocolVersionHeader}`, id, 400, corsHeaders);
     }
 
@@ -286,9 +632,10 @@ class McpApiHandler {
   private async validateSession(
     request: Request,
     env: Env,
+    props: OAuthProps,
     message: MCPMessage,
     corsHeaders: Record<string, string>
-  ): Promise<Response | null> {
+  ): Promise<Response | MCPSessionPayload> {
     const id = 'id' in message ? message.id : null;
     const sessionId = request.headers.get('MCP-Session-Id');
 
@@ -296,20 +643,48 @@ class McpApiHandler {
       return this.jsonRpcError(-32000, 'Bad Request: MCP-Session-Id header required.', id, 400, corsHeaders);
     }
 
-    const tokenManager = new SessionTokenManager(env.MCP_SESSION_SECRET);
-    const validation = await tokenManager.validateToken(sessionId);
+    const tokenManager = new SessionTokenManager(env.MCP_SESSION_SECRET, env.OAUTH_KV);
+    // Sessions are bound to the OAuth grant they were created with, so a session ID
+    // cannot be used with another user's (or another authorization's) bearer token
+    const validation = await tokenManager.validateToken(sessionId, { tokenId: props.tokenId, staffId: props.staffId });
+
+    // A valid session presented with another grant's bearer token is forbidden rather than unknown,
+    // so clients can tell it apart from an expired or terminated session
+    if (validation.error === 'mismatch') {
+      console.warn(`Session ${validation.payload?.jti} (client ${validation.payload?.cli ?? 'unknown'}) used with another authorization`);
+      return this.jsonRpcError(-32003, 'Forbidden: session belongs to a different authorization.', id, 403, corsHeaders);
+    }
 
     if (!validation.valid) {
-      const statusCode = validation.error === 'expired' || validation.error === 'invalid' ? 404 : 400;
+      const statusCode = validation.error === 'malformed' || validation.error === 'missing' ? 400 : 404;
       const errorMessage = validation.error === 'expired'
         ? 'Session expired. Please re-initialize.'
+        : validation.error === 'revoked'
+        ? 'Session terminated. Please re-initialize.'
         : validation.error === 'invalid'
         ? 'Invalid session. Please re-initialize.'
         : 'Malformed session token.';
       return this.jsonRpcError(-32001, errorMessage, id, statusCode, corsHeaders);
     }
 
-    return null;
+    // The MCP-Protocol-Version header must name the negotiated version; without it,
+    // 2025-03-26 is assumed, which only sessions of that version accept
+    const session = validation.payload!;
+    const protocolVersionHeader = request.headers.get('MCP-Protocol-Version');
+    if (protocolVersionHeader === null && getProtocolFeatures(session.v).versionHeader) {
+      return this.jsonRpcError(-32600, 'Invalid Request: MCP-Protocol-Version header required.', id, 400, corsHeaders);
+    }
+    if ((protocolVersionHeader ?? DEFAULT_HEADER_PROTOCOL_VERSION) !== session.v) {
+      return this.jsonRpcError(
+        -32602,
+        `Protocol version mismatch: this session negotiated ${session.v}, request uses ${protocolVersionHeader}`,
+        id,
+        400,
+        corsHeaders
+      );
+    }
+
+    return session;
   }
 
   private jsonRpcError(
@@ -329,13 +704,6 @@ class McpApiHandler {
     });
   }
 
-  /**
-   * Quick check if MCP headers are present (used before JSON parsing)
-   */
-  private hasMcpHeaders(request: Request): boolean {
-    return request.headers.has('MCP-Protocol-Version');
-  }
-
   /**
    * Validate CREDENTIAL_ENCRYPTION_KEY is a valid 32-byte base64 string
    */
@@ -375,6 +743,12 @@ const defaultHandler = {
       return handleValidateStaff(request);
     }
 
+    // Handle HappyFox webhooks (signed per account, no OAuth)
+    const webhookResponse = await handleWebhook(request, typedEnv, ctx);
+    if (webhookResponse) {
+      return webhookResponse;
+    }
+
     // 404 for other paths
     return new Response('Not Found', { status: 404 });
   }
@@ -614,6 +988,9 @@ const oauthProvider = new OAuthProvider({
   refreshTokenTTL: 90 * 24 * 60 * 60, // 90 days
 });
 
+// Durable Object classes must be exported from the Worker entry point
+export { SessionHub, SubscriptionDirectory };
+
 /**
  * Wrapper to intercept token requests and normalize the resource parameter.
  * This fixes a bug in @cloudflare/workers-oauth-provider where audience comparison
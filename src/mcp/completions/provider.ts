@@ -0,0 +1,117 @@
+import { HappyFoxAuth } from '../../types';
+import { HappyFoxClient } from '../../happyfox/client';
+import { referenceCache } from '../../cache/reference-cache';
+
+/**
+ * Argument completion for prompts and resource templates (completion/complete)
+ * Values come from cached reference data and are matched on a case-insensitive prefix
+ */
+
+export interface CompletionResult {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+// Per MCP spec: at most 100 values per completion response
+export const MAX_COMPLETION_VALUES = 100;
+
+// Recent tickets scanned for tag suggestions (one page, most recently updated first)
+const RECENT_TICKETS_PAGE_SIZE = 50;
+
+type CompletionSource = (client: HappyFoxClient, auth: HappyFoxAuth) => Promise<string[]>;
+
+const names = (resource: string, path: string): CompletionSource => async client =>
+  toArray(await client.getCached(resource, path)).map(item => item.name);
+
+const SOURCES: Record<string, CompletionSource> = {
+  categories: names('categories', '/categories/'),
+  statuses: names('statuses', '/statuses/'),
+  // Not listed in DOCUMENTATION.md, but served alongside /statuses/ by the same API
+  priorities: names('priorities', '/priorities/'),
+  staff: async client => toArray(await client.getCached('staff', '/staff/'))
+    .filter(member => member.active !== false)
+    .map(member => member.email),
+  contactGroups: names('contact-groups', '/contact_groups/'),
+  assetTypes: names('asset-types', '/asset_types/'),
+  tags: (client, auth) => referenceCache.getOrFetch(auth.accountName, auth.region, 'recent-tags', async () => {
+    const response = await client.get('/tickets/', { page: 1, size: RECENT_TICKETS_PAGE_SIZE, status: '_all' });
+    return toArray(response).flatMap(ticket => splitTags(ticket.tags));
+  })
+};
+
+// Argument names (prompt arguments and tool-style parameter names) mapped to their source
+const ARGUMENT_SOURCES: Record<string, keyof typeof SOURCES> = {
+  category: 'categories',
+  category_id: 'categories',
+  target_category_id: 'categories',
+  status: 'statuses',
+  priority: 'priorities',
+  staff: 'staff',
+  staff_id: 'staff',
+  staff_email: 'staff',
+  assignee: 'staff',
+  contact_group: 'contactGroups',
+  group: 'contactGroups',
+  asset_type: 'assetTypes',
+  asset_type_id: 'assetTypes',
+  tag: 'tags',
+  tags: 'tags'
+};
+
+// Resource template variables with completable values, keyed by URI template
+const RESOURCE_ARGUMENT_SOURCES: Record<string, Record<string, keyof typeof SOURCES>> = {
+  // Contact group resources accept a group name in place of the ID
+  'happyfox://contact-group/{id}': { id: 'contactGroups' }
+};
+
+// Reference to what is being completed (per MCP spec)
+export type CompletionReference =
+  | { type: 'ref/prompt'; name: string }
+  | { type: 'ref/resource'; uri: string };
+
+export class CompletionProvider {
+  /**
+   * Complete an argument value; unknown arguments and unavailable reference data yield no values
+   */
+  async complete(ref: CompletionReference, argumentName: string, value: string, auth: HappyFoxAuth): Promise<CompletionResult> {
+    const source = ref.type === 'ref/resource'
+      ? RESOURCE_ARGUMENT_SOURCES[ref.uri]?.[argumentName]
+      : ARGUMENT_SOURCES[argumentName];
+    if (!source) {
+      return { values: [], total: 0, hasMore: false };
+    }
+
+    let candidates: string[];
+    try {
+      candidates = await SOURCES[source](new HappyFoxClient(auth), auth);
+    } catch {
+      // Autocomplete is best-effort - an API failure should not surface as an error
+      return { values: [], total: 0, hasMore: false };
+    }
+
+    const prefix = String(value ?? '').trim().toLowerCase();
+    const matches = [...new Set(candidates.filter((candidate): candidate is string => typeof candidate === 'string' && candidate !== ''))]
+      .filter(candidate => candidate.toLowerCase().startsWith(prefix))
+      .sort((a, b) => a.localeCompare(b));
+
+    return {
+      values: matches.slice(0, MAX_COMPLETION_VALUES),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETION_VALUES
+    };
+  }
+}
+
+// Reference lists are plain arrays, except paginated ones ({ data, page_info })
+function toArray(response: any): any[] {
+  if (Array.isArray(response)) return response;
+  if (response && Array.isArray(response.data)) return response.data;
+  return [];
+}
+
+// Ticket tags are a comma-separated string (or a list in some responses)
+function splitTags(tags: unknown): string[] {
+  const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : [];
+  return list.map(tag => String(tag).trim()).filter(Boolean);
+}
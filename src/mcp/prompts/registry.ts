@@ -0,0 +1,202 @@
+import { MCPPrompt, MCPPromptMessage, MCPContent, HappyFoxAuth, PromptNotFoundError } from '../../types';
+import { HappyFoxClient } from '../../happyfox/client';
+import { TicketEndpoints } from '../../happyfox/endpoints/tickets';
+import { ContactEndpoints } from '../../happyfox/endpoints/contacts';
+import { ReportEndpoints } from '../../happyfox/endpoints/reports';
+import { NameResolver } from '../tools/name-resolver';
+import { paginate } from '../tools/pagination';
+
+// Built-in prompts: the definition plus a builder that fetches the data the workflow starts from
+interface PromptDefinition extends MCPPrompt {
+  build: (args: Record<string, string>, client: HappyFoxClient) => Promise<MCPPromptMessage[]>;
+}
+
+// Days covered by the weekly SLA review
+const SLA_REVIEW_DAYS = 7;
+
+// Breached tickets listed in the weekly SLA review; more would crowd out the review itself
+const SLA_REVIEW_MAX_TICKETS = 50;
+
+export class PromptRegistry {
+  private prompts: Map<string, PromptDefinition>;
+
+  constructor() {
+    this.prompts = new Map();
+    for (const prompt of this.initializePrompts()) {
+      this.prompts.set(prompt.name, prompt);
+    }
+  }
+
+  private initializePrompts(): PromptDefinition[] {
+    return [
+      {
+        name: 'triage_ticket',
+        title: 'Triage ticket',
+        description: 'Triage a ticket: classify it, set category, priority and assignee, and flag anything urgent',
+        arguments: [{ name: 'ticket_id', description: 'Ticket ID or display ID', required: true }],
+        build: async ({ ticket_id }, client) => {
+          const [ticket, categories, statuses, staff] = await Promise.all([
+            new TicketEndpoints(client).getTicket(ticket_id),
+            client.getCached('categories', '/categories/'),
+            client.getCached('statuses', '/statuses/'),
+            client.getCached('staff', '/staff/')
+          ]);
+          return [
+            user(jsonResource(`happyfox://ticket/${encodeURIComponent(ticket_id)}`, ticket)),
+            user(jsonResource('happyfox://categories', categories)),
+            user(jsonResource('happyfox://statuses', statuses)),
+            user(jsonResource('happyfox://staff', staff)),
+            user(text([
+              `Triage ticket ${ticket_id} using the ticket and reference data above.`,
+              '1. Summarize the request in two sentences and identify the product area.',
+              '2. Recommend a category, priority and assignee (an active staff member), with a one-line reason for each.',
+              '3. Flag SLA risk, security or data-loss concerns, or signs of an outage affecting several customers.',
+              '4. List any information missing from the customer before work can start.',
+              'Do not change the ticket; propose the updates so they can be reviewed first.'
+            ]))
+          ];
+        }
+      },
+      {
+        name: 'draft_reply',
+        title: 'Draft reply',
+        description: 'Draft a staff reply to a ticket based on its full conversation',
+        arguments: [
+          { name: 'ticket_id', description: 'Ticket ID or display ID', required: true },
+          { name: 'tone', description: 'Tone of the reply (default: friendly and professional)' }
+        ],
+        build: async ({ ticket_id, tone }, client) => {
+          const ticket = await new TicketEndpoints(client).getTicket(ticket_id);
+          return [
+            user(jsonResource(`happyfox://ticket/${encodeURIComponent(ticket_id)}`, ticket)),
+            user(text([
+              `Draft a reply to the customer on ticket ${ticket_id}.`,
+              `Tone: ${tone || 'friendly and professional'}.`,
+              '- Answer the latest customer message; do not repeat what earlier staff replies already covered.',
+              '- Use private notes for context, but never quote or reveal them.',
+              '- If the answer is not known from the ticket, ask specific clarifying questions instead of guessing.',
+              '- End with the concrete next step and who owns it.',
+              'Return only the reply text. Do not send it.'
+            ]))
+          ];
+        }
+      },
+      {
+        name: 'summarize_contact_history',
+        title: 'Summarize contact history',
+        description: "Summarize a contact's support history across their recent tickets",
+        arguments: [{ name: 'email', description: 'Contact email address', required: true }],
+        build: async ({ email }, client) => {
+          const [contact, tickets] = await Promise.all([
+            new ContactEndpoints(client).getContact(email),
+            new TicketEndpoints(client).searchTickets({ contact: [email], size: 50 })
+          ]);
+          return [
+            user(jsonResource(`happyfox://contact/${encodeURIComponent(email)}`, contact)),
+            user(text([`Most recent tickets for ${email}:`, json(tickets)])),
+            user(text([
+              `Summarize the support history of ${email}.`,
+              '- Open issues first, with their status and how long they have been waiting.',
+              '- Recurring problems or themes across tickets.',
+              '- Overall sentiment and any escalation or churn risk.',
+              '- Anything the next agent should know before replying.'
+            ]))
+          ];
+        }
+      },
+      {
+        name: 'weekly_sla_review',
+        title: 'Weekly SLA review',
+        description: 'Review SLA breaches from the past week and recommend follow-ups',
+        arguments: [
+          { name: 'report_id', description: 'Saved report whose SLA performance should be included (optional)' },
+          { name: 'category', description: 'Limit the review to one category (ID or name)' }
+        ],
+        build: async ({ report_id, category }, client) => {
+          const since = new Date(Date.now() - SLA_REVIEW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+          const categoryId = await new NameResolver(client).resolve('category', category);
+          const endpoints = new TicketEndpoints(client);
+          // The update date is filtered client-side page by page, so walk pages until enough
+          // breaches are collected instead of reading only the first page
+          const [{ data, nextCursor }, slaEntries] = await Promise.all([
+            paginate({ max_items: SLA_REVIEW_MAX_TICKETS }, (page, size) =>
+              endpoints.searchTickets({ breached: true, updated_from: since, category: categoryId, page, size })
+            ),
+            report_id
+              ? new ReportEndpoints(client).getSlaEntries(Number(report_id), { date_range: 'last_7_days' })
+              : Promise.resolve(undefined)
+          ]);
+          return [
+            user(text([
+              `Tickets with a breached SLA updated since ${since}:`,
+              json(data.map(slaFields)),
+              ...(nextCursor
+                ? [`Only the first ${data.length} breached tickets are listed; more exist. Say in the review that the list is truncated and the numbers may be incomplete.`]
+                : [])
+            ])),
+            ...(slaEntries !== undefined ? [user(text([`SLA performance for report ${report_id} (last 7 days):`, json(slaEntries)]))] : []),
+            user(text([
+              `Review SLA performance for the week since ${since}.`,
+              '1. Group breaches by category, priority and assignee, and call out the largest contributors.',
+              '2. Identify tickets still open and at risk of further breaches, most urgent first.',
+              '3. Suggest process or staffing changes backed by the numbers above.',
+              'Keep the review under 300 words, with the at-risk tickets as a list.'
+            ]))
+          ];
+        }
+      }
+    ];
+  }
+
+  async listPrompts(): Promise<MCPPrompt[]> {
+    return Array.from(this.prompts.values()).map(({ build, ...prompt }) => prompt);
+  }
+
+  async getPrompt(
+    name: string,
+    args: Record<string, string>,
+    auth: HappyFoxAuth
+  ): Promise<{ description: string; messages: MCPPromptMessage[] }> {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new PromptNotFoundError(name);
+    }
+
+    return {
+      description: prompt.description,
+      messages: await prompt.build(args, new HappyFoxClient(auth))
+    };
+  }
+}
+
+function user(content: MCPContent): MCPPromptMessage {
+  return { role: 'user', content };
+}
+
+function text(lines: string[]): MCPContent {
+  return { type: 'text', text: lines.join('\n') };
+}
+
+function json(data: unknown): string {
+  return JSON.stringify(data, null, 2);
+}
+
+// The fields the SLA review works from; full tickets carry the whole conversation
+function slaFields(ticket: any): Record<string, unknown> {
+  return {
+    id: ticket.id,
+    display_id: ticket.display_id,
+    subject: ticket.subject,
+    status: ticket.status?.name,
+    priority: ticket.priority?.name,
+    category: ticket.category?.name,
+    assignee: ticket.assigned_to?.name ?? null,
+    due_date: ticket.due_date,
+    created_at: ticket.created_at,
+    last_updated_at: ticket.last_updated_at
+  };
+}
+
+function jsonResource(uri: string, data: unknown): MCPContent {
+  return { type: 'resource', resource: { uri, mimeType: 'application/json', text: json(data) } };
+}
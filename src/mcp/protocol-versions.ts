@@ -0,0 +1,51 @@
+/**
+ * Supported MCP protocol versions and the behaviour that differs between them
+ * initialize negotiates a version; it is stored in the session token and gates later requests
+ */
+
+import { MCP_PROTOCOL_VERSION } from '../types';
+
+export interface ProtocolFeatures {
+  // JSON-RPC batch requests (added in 2025-03-26, removed in 2025-06-18)
+  batchRequests: boolean;
+  // Tool outputSchema and structuredContent results (2025-06-18)
+  structuredOutput: boolean;
+  // Server-initiated elicitation/create requests (2025-06-18)
+  elicitation: boolean;
+  // MCP-Protocol-Version header on every request after initialize (2025-06-18)
+  versionHeader: boolean;
+  // SSE streams open with an event ID and empty data, so they can be resumed early (2025-11-25)
+  streamPriming: boolean;
+}
+
+// Newest first; the first entry is MCP_PROTOCOL_VERSION
+const PROTOCOL_VERSIONS: Record<string, ProtocolFeatures> = {
+  [MCP_PROTOCOL_VERSION]: { batchRequests: false, structuredOutput: true, elicitation: true, versionHeader: true, streamPriming: true },
+  '2025-06-18': { batchRequests: false, structuredOutput: true, elicitation: true, versionHeader: true, streamPriming: false },
+  '2025-03-26': { batchRequests: true, structuredOutput: false, elicitation: false, versionHeader: false, streamPriming: false }
+};
+
+export const SUPPORTED_PROTOCOL_VERSIONS = Object.keys(PROTOCOL_VERSIONS);
+
+// Version assumed when a request has no MCP-Protocol-Version header (per the 2025-06-18 spec)
+export const DEFAULT_HEADER_PROTOCOL_VERSION = '2025-03-26';
+
+export function isSupportedProtocolVersion(version: unknown): version is string {
+  return typeof version === 'string' && Object.prototype.hasOwnProperty.call(PROTOCOL_VERSIONS, version);
+}
+
+/**
+ * Pick the version to use for a client's requested version: the newest supported version
+ * not newer than the request (versions are dates, so they compare as strings), or null
+ * when the client only speaks versions older than any supported here
+ */
+export function negotiateProtocolVersion(requested: unknown): string | null {
+  if (typeof requested !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(requested)) {
+    return null;
+  }
+  return SUPPORTED_PROTOCOL_VERSIONS.find(version => version <= requested) ?? null;
+}
+
+export function getProtocolFeatures(version: string): ProtocolFeatures {
+  return PROTOCOL_VERSIONS[version] ?? PROTOCOL_VERSIONS[MCP_PROTOCOL_VERSION];
+}
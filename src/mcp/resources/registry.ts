@@ -1,13 +1,104 @@
-import { MCPResource, MCPResourceContent, HappyFoxAuth, ResourceNotFoundError } from '../../types';
+import { MCPResource, MCPResourceContent, MCPResourceTemplate, HappyFoxAuth, ResourceNotFoundError, ToolExecutionError } from '../../types';
 import { HappyFoxClient } from '../../happyfox/client';
-import { referenceCache } from '../../cache/reference-cache';
+import { TicketEndpoints } from '../../happyfox/endpoints/tickets';
+import { ContactEndpoints } from '../../happyfox/endpoints/contacts';
+import { AssetEndpoints } from '../../happyfox/endpoints/assets';
+import { KnowledgeBaseEndpoints } from '../../happyfox/endpoints/knowledge-base';
+import { toResourceContent } from '../../happyfox/attachments';
+import { NameResolver } from '../tools/name-resolver';
+
+// HappyFox API paths backing the static reference data resources
+const REFERENCE_PATHS: Record<string, string> = {
+  'happyfox://categories': '/categories/',
+  'happyfox://statuses': '/statuses/',
+  'happyfox://ticket-custom-fields': '/ticket_custom_fields/',
+  'happyfox://contact-custom-fields': '/user_custom_fields/',
+  'happyfox://staff': '/staff/',
+  'happyfox://contact-groups': '/contact_groups/',
+  'happyfox://asset-types': '/asset_types/',
+  'happyfox://kb/sections': '/kb/sections/'
+};
+
+// Templated resources: the pattern captures the (URI-encoded) template variables in order
+interface ResourceTemplateDefinition extends MCPResourceTemplate {
+  pattern: RegExp;
+  read: (uri: string, params: string[], auth: HappyFoxAuth) => Promise<MCPResourceContent>;
+  // Clients may subscribe to changes (resources/subscribe)
+  subscribable?: boolean;
+}
 
 export class ResourceRegistry {
   private resources: Map<string, MCPResource>;
+  private templates: ResourceTemplateDefinition[];
 
   constructor() {
     this.resources = new Map();
     this.initializeResources();
+    this.templates = this.initializeTemplates();
+  }
+
+  private initializeTemplates(): ResourceTemplateDefinition[] {
+    // Individual records are read live (not cached) - they change far more often than reference data
+    return [
+      {
+        uriTemplate: 'happyfox://ticket/{id}',
+        name: 'Ticket',
+        description: 'A single ticket with its updates, by ticket ID or display ID',
+        mimeType: 'application/json',
+        pattern: /^happyfox:\/\/ticket\/([^/]+)$/,
+        read: (uri, [id], auth) => this.readJson(uri, new TicketEndpoints(new HappyFoxClient(auth)).getTicket(id)),
+        subscribable: true
+      },
+      {
+        uriTemplate: 'happyfox://ticket/{id}/attachments/{attachmentId}',
+        name: 'Ticket Attachment',
+        description: 'A file attached to a ticket update',
+        mimeType: 'application/octet-stream',
+        pattern: /^happyfox:\/\/ticket\/([^/]+)\/attachments\/([^/]+)$/,
+        read: (uri, [ticketId, attachmentId], auth) => this.readTicketAttachment(uri, ticketId, attachmentId, auth)
+      },
+      {
+        uriTemplate: 'happyfox://contact/{idOrEmail}',
+        name: 'Contact',
+        description: 'A single contact, by contact ID or email address',
+        mimeType: 'application/json',
+        pattern: /^happyfox:\/\/contact\/([^/]+)$/,
+        read: (uri, [idOrEmail], auth) => this.readJson(uri, new ContactEndpoints(new HappyFoxClient(auth)).getContact(idOrEmail))
+      },
+      {
+        uriTemplate: 'happyfox://contact-group/{id}',
+        name: 'Contact Group',
+        description: 'A single contact group with its contacts, by ID or name',
+        mimeType: 'application/json',
+        pattern: /^happyfox:\/\/contact-group\/([^/]+)$/,
+        read: (uri, [idOrName], auth) => this.readContactGroup(uri, idOrName, auth)
+      },
+      {
+        uriTemplate: 'happyfox://asset/{id}',
+        name: 'Asset',
+        description: 'A single asset with its custom fields and contacts',
+        mimeType: 'application/json',
+        pattern: /^happyfox:\/\/asset\/(\d+)$/,
+        read: (uri, [id], auth) => this.readJson(uri, new AssetEndpoints(new HappyFoxClient(auth)).getAsset(Number(id)))
+      },
+      {
+        uriTemplate: 'happyfox://kb/articles/{id}',
+        name: 'Knowledge Base Article',
+        description: 'An external (public) knowledge base article',
+        mimeType: 'application/json',
+        pattern: /^happyfox:\/\/kb\/articles\/([^/]+)$/,
+        read: (uri, [id], auth) => this.readJson(uri, new KnowledgeBaseEndpoints(new HappyFoxClient(auth)).getArticle(id))
+      },
+      {
+        // Scope checks for internal articles happen in the MCP server before this is called
+        uriTemplate: 'happyfox://kb/internal-articles/{id}',
+        name: 'Internal Knowledge Base Article',
+        description: 'An internal (staff-only) knowledge base article. Requires the happyfox:kb-internal scope.',
+        mimeType: 'application/json',
+        pattern: /^happyfox:\/\/kb\/internal-articles\/([^/]+)$/,
+        read: (uri, [id], auth) => this.readJson(uri, new KnowledgeBaseEndpoints(new HappyFoxClient(auth)).getInternalArticle(id))
+      }
+    ];
   }
 
   private initializeResources() {
@@ -54,6 +145,12 @@ export class ResourceRegistry {
         name: 'Asset Types',
         description: 'List of all asset types (cacheable reference data)',
         mimeType: 'application/json'
+      },
+      {
+        uri: 'happyfox://kb/sections',
+        name: 'Knowledge Base Sections',
+        description: 'List of all knowledge base sections',
+        mimeType: 'application/json'
       }
     ];
 
@@ -67,7 +164,25 @@ export class ResourceRegistry {
     return Array.from(this.resources.values());
   }
 
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    return this.templates.map(({ uriTemplate, name, description, mimeType }) => ({ uriTemplate, name, description, mimeType }));
+  }
+
+  /**
+   * Whether clients can subscribe to a resource: single tickets and the reference data
+   */
+  isSubscribable(uri: string): boolean {
+    return uri in REFERENCE_PATHS || this.templates.some(template => template.subscribable && template.pattern.test(uri));
+  }
+
   async readResource(uri: string, auth: HappyFoxAuth): Promise<MCPResourceContent> {
+    for (const template of this.templates) {
+      const match = uri.match(template.pattern);
+      if (match) {
+        return template.read(uri, match.slice(1).map(param => decodeParam(uri, param)), auth);
+      }
+    }
+
     const resource = this.resources.get(uri);
     if (!resource) {
       throw new ResourceNotFoundError(uri);
@@ -75,55 +190,76 @@ export class ResourceRegistry {
 
     // Extract cache key from URI (e.g., "happyfox://categories" -> "categories")
     const cacheKey = uri.replace('happyfox://', '');
+    const path = REFERENCE_PATHS[uri];
+    if (!path) {
+      throw new ResourceNotFoundError(uri);
+    }
 
-    // Try to get from cache first (include region to prevent cross-pollution)
-    let data = await referenceCache.get<any>(auth.accountName, auth.region, cacheKey);
-
-    if (!data) {
-      // Cache miss - fetch from HappyFox API
-      const client = new HappyFoxClient(auth);
-
-      switch (uri) {
-        case 'happyfox://categories':
-          data = await client.get('/categories/');
-          break;
-
-        case 'happyfox://statuses':
-          data = await client.get('/statuses/');
-          break;
-
-        case 'happyfox://ticket-custom-fields':
-          data = await client.get('/ticket_custom_fields/');
-          break;
-
-        case 'happyfox://contact-custom-fields':
-          data = await client.get('/user_custom_fields/');
-          break;
-
-        case 'happyfox://staff':
-          data = await client.get('/staff/');
-          break;
+    // Served from cache when possible (cache is keyed by account and region to prevent cross-pollution)
+    const data = await new HappyFoxClient(auth).getCached(cacheKey, path);
 
-        case 'happyfox://contact-groups':
-          data = await client.get('/contact_groups/');
-          break;
+    return {
+      uri,
+      mimeType: resource.mimeType,
+      text: JSON.stringify(data, null, 2)
+    };
+  }
 
-        case 'happyfox://asset-types':
-          data = await client.get('/asset_types/');
-          break;
+  /**
+   * Download a ticket attachment (not cached - URLs are short-lived and files may be large)
+   */
+  private async readTicketAttachment(
+    uri: string,
+    ticketId: string,
+    attachmentId: string,
+    auth: HappyFoxAuth
+  ): Promise<MCPResourceContent> {
+    const endpoints = new TicketEndpoints(new HappyFoxClient(auth));
+    const attachment = await endpoints.getTicketAttachment(ticketId, attachmentId);
+    return toResourceContent(uri, attachment);
+  }
 
-        default:
-          throw new ResourceNotFoundError(uri);
+  /**
+   * Read a contact group, resolving a group name to its ID via the cached group list
+   */
+  private async readContactGroup(uri: string, idOrName: string, auth: HappyFoxAuth): Promise<MCPResourceContent> {
+    const client = new HappyFoxClient(auth);
+    let groupId: string | number;
+    try {
+      groupId = await new NameResolver(client).resolve('contact_group', idOrName);
+    } catch (error) {
+      // An unknown group name is a missing resource, not a failed call
+      if (error instanceof ToolExecutionError && error.errorCode === 'NAME_NOT_FOUND') {
+        throw new ResourceNotFoundError(uri);
       }
-
-      // Store in cache for next time (include region)
-      await referenceCache.set(auth.accountName, auth.region, cacheKey, data);
+      throw error;
     }
+    return this.readJson(uri, new ContactEndpoints(client).getContactGroup(String(groupId)));
+  }
 
+  /**
+   * Serialize a live API result as a JSON resource
+   */
+  private async readJson(uri: string, data: Promise<any>): Promise<MCPResourceContent> {
     return {
       uri,
-      mimeType: resource.mimeType,
-      text: JSON.stringify(data, null, 2)
+      mimeType: 'application/json',
+      text: JSON.stringify(await data, null, 2)
     };
   }
 }
+
+// Template variables are percent-encoded in URIs (e.g. contact emails). Values are interpolated into
+// API paths, so malformed encodings and values that would change the path match nothing
+function decodeParam(uri: string, param: string): string {
+  let value: string;
+  try {
+    value = decodeURIComponent(param);
+  } catch {
+    throw new ResourceNotFoundError(uri);
+  }
+  if (value.includes('/') || value.includes('?') || value.includes('#') || value === '.' || value === '..') {
+    throw new ResourceNotFoundError(uri);
+  }
+  return value;
+}
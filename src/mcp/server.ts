@@ -1,17 +1,44 @@
-import { MCPRequest, MCPResponse, MCPError, MCPMessage, AuthContext, ToolNotFoundError, ToolExecutionError, ResourceNotFoundError, MCP_PROTOCOL_VERSION } from '../types';
+import { MCPRequest, MCPResponse, MCPError, MCPMessage, AuthContext, ClientChannel, ResourceSubscriptions, RequestCancellation, ToolNotFoundError, ToolExecutionError, ToolContentResult, ResourceNotFoundError, PromptNotFoundError, MCP_PROTOCOL_VERSION } from '../types';
 import { ToolRegistry } from './tools/registry';
 import { ResourceRegistry } from './resources/registry';
+import { CompletionProvider } from './completions/provider';
+import { PromptRegistry } from './prompts/registry';
+import { getResourceScope } from '../oauth/services/scope-enforcer';
+import { negotiateProtocolVersion, getProtocolFeatures, SUPPORTED_PROTOCOL_VERSIONS } from './protocol-versions';
+import { HappyFoxAPIError } from '../happyfox/client';
 import packageJson from '../../package.json';
 
 export class MCPServer {
   private authContext: AuthContext;
   private toolRegistry: ToolRegistry;
   private resourceRegistry: ResourceRegistry;
-
-  constructor(authContext: AuthContext) {
+  private promptRegistry: PromptRegistry;
+  private completionProvider: CompletionProvider;
+  private channel?: ClientChannel;
+  private protocolVersion: string;
+  private subscriptions?: ResourceSubscriptions;
+  private cancellation?: RequestCancellation;
+
+  // channel is given when the response is streamed over SSE and the client can answer server requests;
+  // protocolVersion is the version negotiated for the session; subscriptions is given by the
+  // transport, which keeps them in the session hub (without it, subscribing is not advertised);
+  // cancellation tracks tool calls of the session so notifications/cancelled can abort them
+  constructor(
+    authContext: AuthContext,
+    channel?: ClientChannel,
+    protocolVersion: string = MCP_PROTOCOL_VERSION,
+    subscriptions?: ResourceSubscriptions,
+    cancellation?: RequestCancellation
+  ) {
     this.authContext = authContext;
+    this.channel = channel;
+    this.protocolVersion = protocolVersion;
+    this.subscriptions = subscriptions;
+    this.cancellation = cancellation;
     this.toolRegistry = new ToolRegistry();
     this.resourceRegistry = new ResourceRegistry();
+    this.promptRegistry = new PromptRegistry();
+    this.completionProvider = new CompletionProvider();
   }
 
   // Type guard to check if message is a request (has id) vs notification (no id)
@@ -36,6 +63,9 @@ export class MCPServer {
           case 'notifications/initialized':
             // Notifications don't receive responses per JSON-RPC 2.0
             return null;
+          case 'notifications/cancelled':
+            await this.handleCancelled(message.params);
+            return null;
           default:
             // Unknown notification - silently ignore per spec
             return null;
@@ -65,8 +95,23 @@ export class MCPServer {
         case 'resources/read':
           return await this.handleResourceRead(request);
 
+        case 'resources/subscribe':
+          return await this.handleResourceSubscribe(request, true);
+
+        case 'resources/unsubscribe':
+          return await this.handleResourceSubscribe(request, false);
+
+        case 'resources/templates/list':
+          return await this.handleResourceTemplatesList(request);
+
+        case 'prompts/list':
+          return await this.handlePromptsList(request);
+
+        case 'prompts/get':
+          return await this.handlePromptGet(request);
+
         case 'completion/complete':
-          return this.handleCompletion(request);
+          return await this.handleCompletion(request);
 
         default:
           throw this.createError(-32601, 'Method not found');
@@ -75,8 +120,9 @@ export class MCPServer {
       // Get the id from the message if it's a request, null otherwise (per JSON-RPC 2.0 spec)
       const id = this.isRequest(message) ? message.id : null;
 
-      // Check if it's our MCPError (plain object with code and message)
-      if (error && typeof error === 'object' && 'code' in error && 'message' in error) {
+      // Check if it's our MCPError (plain object with code and message; Error instances such as
+      // HappyFoxAPIError also have both, but are not valid JSON-RPC error objects)
+      if (error && typeof error === 'object' && !(error instanceof Error) && 'code' in error && 'message' in error) {
         return {
           jsonrpc: '2.0',
           error: error as MCPError,
@@ -99,22 +145,25 @@ export class MCPServer {
     // Read client's requested protocol version
     const clientVersion = request.params?.protocolVersion as string | undefined;
 
-    // MCP 2025-11-25: Only accept the current protocol version (no backwards compat)
-    if (clientVersion !== MCP_PROTOCOL_VERSION) {
+    // Answer with the newest version both sides support
+    const protocolVersion = negotiateProtocolVersion(clientVersion);
+    if (!protocolVersion) {
       throw this.createError(
         -32602,
-        `Unsupported protocol version: ${clientVersion || 'none'}. This server only supports ${MCP_PROTOCOL_VERSION}`,
-        { supported: [MCP_PROTOCOL_VERSION], requested: clientVersion }
+        `Unsupported protocol version: ${clientVersion || 'none'}. This server supports ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`,
+        { supported: SUPPORTED_PROTOCOL_VERSIONS, requested: clientVersion }
       );
     }
 
     return {
       jsonrpc: '2.0',
       result: {
-        protocolVersion: MCP_PROTOCOL_VERSION,
+        protocolVersion,
         capabilities: {
           tools: {},
-          resources: {}
+          resources: this.subscriptions ? { subscribe: true } : {},
+          prompts: {},
+          completions: {}
         },
         serverInfo: {
           name: 'happyfox-mcp',
@@ -144,7 +193,10 @@ export class MCPServer {
     // Simple pagination: decode cursor as start index, page size of 50
     const pageSize = 50;
     const endIndex = Math.min(startIndex + pageSize, allTools.length);
-    const pagedTools = allTools.slice(startIndex, endIndex);
+    // Output schemas are only understood by clients of versions with structured output
+    const pagedTools = getProtocolFeatures(this.protocolVersion).structuredOutput
+      ? allTools.slice(startIndex, endIndex)
+      : allTools.slice(startIndex, endIndex).map(({ outputSchema, ...tool }) => tool);
 
     const result: any = { tools: pagedTools };
 
@@ -160,7 +212,32 @@ export class MCPServer {
     };
   }
 
-  private async handleToolCall(request: MCPRequest): Promise<MCPResponse> {
+  // Cancellation is best-effort: a request that already finished, or runs in another
+  // isolate, is unknown here and the notification is ignored
+  private async handleCancelled(params: any): Promise<void> {
+    const requestId = params?.requestId;
+    if (typeof requestId !== 'string' && typeof requestId !== 'number') {
+      return;
+    }
+    await this.cancellation?.cancel(requestId, typeof params.reason === 'string' ? params.reason : undefined);
+  }
+
+  // Tool calls can be cancelled by the session's client; a cancelled call gets no response
+  private async handleToolCall(request: MCPRequest): Promise<MCPResponse | null> {
+    if (!this.cancellation?.track || request.id === null) {
+      return await this.callTool(request);
+    }
+
+    const { signal, finish } = this.cancellation.track(request.id);
+    try {
+      const response = await this.callTool(request, signal);
+      return signal.aborted ? null : response;
+    } finally {
+      await finish();
+    }
+  }
+
+  private async callTool(request: MCPRequest, signal?: AbortSignal): Promise<MCPResponse> {
     // Auth is validated by OAuth layer - no need for legacy header checks
 
     const { name, arguments: args } = request.params || {};
@@ -171,17 +248,38 @@ export class MCPServer {
 
     try {
       // Use OAuth-aware tool call with scope enforcement and staff_id injection
-      const result = await this.toolRegistry.callToolWithAuth(name, args || {}, this.authContext);
+      const result = await this.toolRegistry.callToolWithAuth(name, args || {}, this.authContext, this.channel, signal);
+
+      // Tools returning MCP content directly (e.g. embedded attachment resources)
+      if (result instanceof ToolContentResult) {
+        return {
+          jsonrpc: '2.0',
+          result: { content: result.content },
+          id: request.id
+        };
+      }
+
+      const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+
+      // Tools with an output schema also return the result as structuredContent;
+      // the text item keeps the serialized JSON for clients without structured output support
+      const tool = this.toolRegistry.getTool(name);
+      const outputSchema = getProtocolFeatures(this.protocolVersion).structuredOutput ? tool?.outputSchema : undefined;
+      const structuredContent = outputSchema && toStructuredContent(result, outputSchema);
+      if (outputSchema && !structuredContent) {
+        // A write has already happened in HappyFox by now: reporting it as failed could make the
+        // client retry it, so only reads fail and writes return the text alone
+        if (tool?.annotations?.readOnlyHint) {
+          throw new ToolExecutionError(`HappyFox returned a response that does not match the tool's output schema: ${text}`, 502, 'UNEXPECTED_RESPONSE');
+        }
+        console.warn(`Result of ${name} does not match its output schema; returning it as text only`);
+      }
 
       return {
         jsonrpc: '2.0',
         result: {
-          content: [
-            {
-              type: 'text',
-              text: typeof result === 'string' ? result : JSON.stringify(result, null, 2)
-            }
-          ]
+          content: [{ type: 'text', text }],
+          ...(structuredContent && { structuredContent })
         },
         id: request.id
       };
@@ -274,6 +372,25 @@ export class MCPServer {
     };
   }
 
+  private async handleResourceTemplatesList(request: MCPRequest): Promise<MCPResponse> {
+    // Same read scope as resources/list; templates needing an extra scope are hidden without it
+    if (!this.authContext.scopes.includes('happyfox:read')) {
+      throw this.createError(-32600, 'Insufficient permissions. Resource access requires happyfox:read scope.');
+    }
+
+    const templates = await this.resourceRegistry.listResourceTemplates();
+    const resourceTemplates = templates.filter(template => {
+      const requiredScope = getResourceScope(template.uriTemplate);
+      return !requiredScope || this.authContext.scopes.includes(requiredScope);
+    });
+
+    return {
+      jsonrpc: '2.0',
+      result: { resourceTemplates },
+      id: request.id
+    };
+  }
+
   private async handleResourceRead(request: MCPRequest): Promise<MCPResponse> {
     // Auth is validated by OAuth layer - check read scope for resources
     if (!this.authContext.scopes.includes('happyfox:read')) {
@@ -286,6 +403,12 @@ export class MCPServer {
       throw this.createError(-32602, 'Missing required parameter: uri');
     }
 
+    // Some resources (e.g. internal KB articles) need a scope beyond happyfox:read
+    const requiredScope = getResourceScope(uri);
+    if (requiredScope && !this.authContext.scopes.includes(requiredScope)) {
+      throw this.createError(-32600, `Insufficient permissions. Resource access requires ${requiredScope} scope.`);
+    }
+
     try {
       const content = await this.resourceRegistry.readResource(uri, this.authContext.credentials);
       return {
@@ -297,25 +420,141 @@ export class MCPServer {
       if (error instanceof ResourceNotFoundError) {
         throw this.createError(-32602, error.message);
       }
-      throw error;
+      throw this.apiError(error, new ResourceNotFoundError(uri).message);
     }
   }
 
-  private handleCompletion(request: MCPRequest): MCPResponse {
-    // Completion is not implemented - return empty results
+  private async handleResourceSubscribe(request: MCPRequest, subscribe: boolean): Promise<MCPResponse> {
+    if (!this.subscriptions) {
+      throw this.createError(-32601, 'Method not found');
+    }
+
+    // Subscribers receive change notifications, so they need the same scopes as readers
+    if (!this.authContext.scopes.includes('happyfox:read')) {
+      throw this.createError(-32600, 'Insufficient permissions. Resource access requires happyfox:read scope.');
+    }
+
+    const { uri } = request.params || {};
+
+    if (!uri || typeof uri !== 'string') {
+      throw this.createError(-32602, 'Missing required parameter: uri');
+    }
+
+    const requiredScope = getResourceScope(uri);
+    if (requiredScope && !this.authContext.scopes.includes(requiredScope)) {
+      throw this.createError(-32600, `Insufficient permissions. Resource access requires ${requiredScope} scope.`);
+    }
+
+    if (!this.resourceRegistry.isSubscribable(uri)) {
+      throw this.createError(-32602, `Resource does not support subscriptions: ${uri}`);
+    }
+
+    if (!subscribe) {
+      await this.subscriptions.unsubscribe(uri);
+      return { jsonrpc: '2.0', result: {}, id: request.id };
+    }
+
+    try {
+      // Reading first checks the resource exists and records the state changes are compared against
+      const content = await this.resourceRegistry.readResource(uri, this.authContext.credentials);
+      await this.subscriptions.subscribe(content);
+      return { jsonrpc: '2.0', result: {}, id: request.id };
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        throw this.createError(-32602, error.message);
+      }
+      throw this.apiError(error, new ResourceNotFoundError(uri).message);
+    }
+  }
+
+  private async handlePromptsList(request: MCPRequest): Promise<MCPResponse> {
+    // Prompts embed ticket and contact data, so they need the same scope as resources
+    if (!this.authContext.scopes.includes('happyfox:read')) {
+      throw this.createError(-32600, 'Insufficient permissions. Prompt access requires happyfox:read scope.');
+    }
+
     return {
       jsonrpc: '2.0',
-      result: {
-        completion: {
-          values: [],
-          total: 0,
-          hasMore: false
-        }
-      },
+      result: { prompts: await this.promptRegistry.listPrompts() },
+      id: request.id
+    };
+  }
+
+  private async handlePromptGet(request: MCPRequest): Promise<MCPResponse> {
+    if (!this.authContext.scopes.includes('happyfox:read')) {
+      throw this.createError(-32600, 'Insufficient permissions. Prompt access requires happyfox:read scope.');
+    }
+
+    const { name, arguments: args = {} } = request.params || {};
+    if (!name) {
+      throw this.createError(-32602, 'Missing required parameter: name');
+    }
+
+    const prompt = (await this.promptRegistry.listPrompts()).find(p => p.name === name);
+    if (!prompt) {
+      throw this.createError(-32602, `Prompt not found: ${name}`);
+    }
+    const missing = (prompt.arguments || []).filter(arg => arg.required && !args[arg.name]).map(arg => arg.name);
+    if (missing.length > 0) {
+      throw this.createError(-32602, `Missing required arguments: ${missing.join(', ')}`);
+    }
+
+    try {
+      return {
+        jsonrpc: '2.0',
+        result: await this.promptRegistry.getPrompt(name, args, this.authContext.credentials),
+        id: request.id
+      };
+    } catch (error) {
+      if (error instanceof PromptNotFoundError) {
+        throw this.createError(-32602, error.message);
+      }
+      const given = Object.entries(args).map(([key, value]) => `${key}=${value}`).join(', ');
+      throw this.apiError(error, `Not found: no HappyFox record matches the prompt arguments (${given})`);
+    }
+  }
+
+  private async handleCompletion(request: MCPRequest): Promise<MCPResponse> {
+    // Completions expose reference data, so they need the same scope as resources
+    if (!this.authContext.scopes.includes('happyfox:read')) {
+      throw this.createError(-32600, 'Insufficient permissions. Completion requires happyfox:read scope.');
+    }
+
+    const { ref, argument } = request.params || {};
+    const validRef = (ref?.type === 'ref/prompt' && typeof ref.name === 'string')
+      || (ref?.type === 'ref/resource' && typeof ref.uri === 'string');
+    if (!validRef) {
+      throw this.createError(-32602, 'Invalid params: ref must be a ref/prompt with a name or a ref/resource with a uri');
+    }
+    if (typeof argument?.name !== 'string') {
+      throw this.createError(-32602, 'Invalid params: argument.name is required');
+    }
+
+    const completion = await this.completionProvider.complete(
+      ref,
+      argument.name,
+      typeof argument.value === 'string' ? argument.value : '',
+      this.authContext.credentials
+    );
+
+    return {
+      jsonrpc: '2.0',
+      result: { completion },
       id: request.id
     };
   }
 
+  // HappyFox errors from resource templates and prompts: a 404 means the requested ticket,
+  // contact or asset does not exist; anything else is an internal error
+  private apiError(error: unknown, notFoundMessage: string): unknown {
+    if (!(error instanceof HappyFoxAPIError)) {
+      return error;
+    }
+    return error.statusCode === 404
+      ? this.createError(-32602, notFoundMessage)
+      : this.createError(-32603, error.message, { statusCode: error.statusCode, code: error.code });
+  }
+
   private createError(code: number, message: string, data?: any): MCPError {
     return {
       code,
@@ -324,3 +563,16 @@ export class MCPServer {
     };
   }
 }
+
+// Shapes a tool result to match its output schema: objects pass through, bare arrays become
+// the data of list schemas and single-item arrays unwrap for object schemas. Returns undefined
+// when the result cannot match, since structuredContent must conform to the advertised schema.
+function toStructuredContent(result: unknown, schema: { properties?: Record<string, any> }): Record<string, unknown> | undefined {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    value !== null && typeof value === 'object' && !Array.isArray(value);
+
+  if (isObject(result)) return result;
+  if (!Array.isArray(result)) return undefined;
+  if (schema.properties?.data?.type === 'array') return { data: result };
+  return result.length === 1 && isObject(result[0]) ? result[0] : undefined;
+}
@@ -0,0 +1,95 @@
+import { ReplayEntry, ReplayRecorder, formatEventId } from '../session/replay-buffer';
+
+/**
+ * Server-Sent Events response body for Streamable HTTP
+ * Each JSON-RPC message (server requests, notifications, the final response) is one `message` event
+ *
+ * With a replay recorder the stream is resumable: events carry IDs and are recorded after being
+ * written, and a client disconnect no longer fails the writes, so the request runs to completion
+ * and the client can pick up the remaining events with Last-Event-ID. Recording is best-effort:
+ * when it fails the live connection still gets every event, only resuming is affected
+ */
+export class SSEStream {
+  readonly readable: ReadableStream<Uint8Array>;
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private encoder = new TextEncoder();
+  private replay?: { buffer: ReplayRecorder; streamId: string };
+  private sequence = 0;
+  private connected = true;
+
+  constructor(replay?: { buffer: ReplayRecorder; streamId: string }) {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    this.readable = readable;
+    this.writer = writable.getWriter();
+    this.replay = replay;
+  }
+
+  /**
+   * Start a resumable stream; with sendPrimingEvent the client gets an event ID (and empty data)
+   * right away, so it can resume even if the connection drops before the first message
+   */
+  async begin(sendPrimingEvent: boolean): Promise<void> {
+    if (!this.replay) return;
+    if (sendPrimingEvent) {
+      await this.write(`id: ${formatEventId(this.replay.streamId, 0)}\ndata: \n\n`);
+    }
+    await this.record(0, { start: true });
+  }
+
+  async send(message: unknown): Promise<void> {
+    if (!this.replay) {
+      await this.sendEvent(message);
+      return;
+    }
+    const sequence = ++this.sequence;
+    await this.sendEvent(message, formatEventId(this.replay.streamId, sequence));
+    await this.record(sequence, { message });
+  }
+
+  /**
+   * Write a message event with the given ID (replaying a recorded event)
+   */
+  async sendEvent(message: unknown, id?: string): Promise<void> {
+    await this.write(`${id !== undefined ? `id: ${id}\n` : ''}event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  // SSE comment line: ignored by clients, keeps idle connections open and detects closed ones
+  async keepAlive(): Promise<void> {
+    await this.write(': keep-alive\n\n');
+  }
+
+  async close(): Promise<void> {
+    try {
+      if (this.replay) {
+        await this.record(this.sequence + 1, { end: true });
+      }
+    } finally {
+      if (this.connected) {
+        try {
+          await this.writer.close();
+        } catch (error) {
+          if (!this.replay) throw error;
+        }
+      }
+    }
+  }
+
+  private async record(sequence: number, entry: ReplayEntry): Promise<void> {
+    try {
+      await this.replay!.buffer.record(this.replay!.streamId, sequence, entry);
+    } catch (error) {
+      console.error(`Failed to record event ${sequence} of stream ${this.replay!.streamId}:`, error);
+    }
+  }
+
+  private async write(chunk: string): Promise<void> {
+    if (!this.connected) return;
+    try {
+      await this.writer.write(this.encoder.encode(chunk));
+    } catch (error) {
+      // Resumable streams outlive the connection; the client catches up from the recorded events
+      if (!this.replay) throw error;
+      this.connected = false;
+    }
+  }
+}
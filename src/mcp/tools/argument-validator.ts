@@ -0,0 +1,99 @@
+/**
+ * Tool argument validation against inputSchema
+ * Supports the JSON Schema subset used by the tool definitions: type (single or list), required,
+ * properties, enum, items and additionalProperties
+ */
+
+type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null';
+
+/**
+ * Validate tool arguments, returning one message per invalid field (empty when valid)
+ * Tool arguments are a closed set: unless the schema says otherwise, unknown top-level
+ * arguments are reported instead of being silently ignored
+ */
+export function validateArguments(schema: Record<string, any>, args: unknown): string[] {
+  const errors: string[] = [];
+  validate({ additionalProperties: false, ...schema }, args, '', errors);
+  return errors;
+}
+
+function validate(schema: Record<string, any>, value: unknown, path: string, errors: string[]): void {
+  const label = path || 'arguments';
+
+  if (schema.type !== undefined) {
+    const types: JsonType[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(type, value))) {
+      errors.push(`${label}: expected ${types.join(' or ')}, got ${describeType(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    errors.push(`${label}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`);
+    return;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => validate(schema.items, item, `${path}[${index}]`, errors));
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, any> = schema.properties || {};
+    const object = value as Record<string, unknown>;
+
+    for (const name of schema.required || []) {
+      if (object[name] === undefined) {
+        errors.push(`${join(path, name)}: required`);
+      }
+    }
+
+    for (const [name, item] of Object.entries(object)) {
+      if (item === undefined) continue;
+      if (properties[name]) {
+        validate(properties[name], item, join(path, name), errors);
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(properties);
+        errors.push(`${join(path, name)}: unknown ${path ? 'property' : 'argument'}${known.length ? ` (expected one of: ${known.join(', ')})` : ''}`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        validate(schema.additionalProperties, item, join(path, name), errors);
+      }
+    }
+  }
+}
+
+function matchesType(type: JsonType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value)}`;
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
@@ -1,47 +1,68 @@
-import { MCPTool, HappyFoxAuth } from '../../types';
+import { MCPTool, HappyFoxAuth, ToolContext } from '../../types';
 import { HappyFoxClient } from '../../happyfox/client';
 import { AssetEndpoints } from '../../happyfox/endpoints/assets';
+import { customFieldsByLabel } from '../../happyfox/custom-fields';
+import { paginate, paginationProperties } from './pagination';
+import { assetSchema, listSchema } from './output-schemas';
+import { NameResolver, ReferenceKind } from './name-resolver';
+
+// Asset tool parameters that accept a name (or staff email) in place of an ID
+const REFERENCE_PARAMS: Record<string, ReferenceKind> = {
+  asset_type: 'asset_type',
+  asset_type_id: 'asset_type',
+  created_by: 'staff',
+  updated_by: 'staff',
+  deleted_by: 'staff'
+};
 
 export class AssetTools {
   getTools(): Array<MCPTool & { handler: string }> {
     return [
       {
         name: 'happyfox_list_assets',
-        description: 'List assets with pagination for a specific asset type',
+        title: 'List assets',
+        description: 'List assets for a specific asset type. Returns nextCursor when more assets remain; use max_items to collect several pages in one call.',
         handler: 'listAssets',
+        annotations: { readOnlyHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            page: { type: 'number', description: 'Page number (default: 1)' },
-            size: { type: 'number', description: 'Page size (default: 50, max: 50)' },
-            asset_type: { type: 'number', description: 'Asset type ID (required - use happyfox://asset-types resource to find valid IDs)' }
+            ...paginationProperties,
+            asset_type: { type: ['number', 'string'], description: 'Asset type ID or name (required - use happyfox://asset-types resource to find valid values)' }
           },
           required: ['asset_type']
-        }
+        },
+        outputSchema: listSchema(assetSchema)
       },
       {
         name: 'happyfox_get_asset',
+        title: 'Get asset',
         description: 'Get asset details by ID',
         handler: 'getAsset',
+        annotations: { readOnlyHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            asset_id: { type: 'number', description: 'Asset ID' }
+            asset_id: { type: ['number', 'string'], description: 'Asset ID' },
+            custom_fields_by_label: { type: 'boolean', description: 'Return custom_fields as an object keyed by field label instead of a list' }
           },
           required: ['asset_id']
-        }
+        },
+        outputSchema: assetSchema
       },
       {
         name: 'happyfox_create_asset',
+        title: 'Create asset',
         description: 'Create a new asset of a specific type',
         handler: 'createAsset',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            asset_type_id: { type: 'number', description: 'Asset type ID (required)' },
+            asset_type_id: { type: ['number', 'string'], description: 'Asset type ID or name (required)' },
             name: { type: 'string', description: 'Asset name (required)' },
             display_id: { type: 'string', description: 'Custom display ID for the asset' },
-            created_by: { type: 'number', description: 'Staff ID who created the asset. Optional - defaults to authenticated user.' },
+            created_by: { type: ['number', 'string'], description: 'Staff ID, name or email who created the asset. Optional - defaults to authenticated user.' },
             contact_ids: {
               type: 'array',
               items: { type: 'number' },
@@ -73,23 +94,26 @@ export class AssetTools {
             },
             custom_fields: {
               type: 'object',
-              description: 'Custom field values (a-cf-{id}: value)'
+              description: 'Custom field values keyed by field label (e.g. "Product Version") or a-cf-{id}. Dropdown fields take a choice ID or label, multiple-option fields a list of them, dates use yyyy-mm-dd'
             }
           },
           required: ['asset_type_id', 'name']
-        }
+        },
+        outputSchema: assetSchema
       },
       {
         name: 'happyfox_update_asset',
+        title: 'Update asset',
         description: 'Update an existing asset',
         handler: 'updateAsset',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            asset_id: { type: 'number', description: 'Asset ID to update (required)' },
+            asset_id: { type: ['number', 'string'], description: 'Asset ID to update (required)' },
             name: { type: 'string', description: 'Asset name' },
             display_id: { type: 'string', description: 'Custom display ID' },
-            updated_by: { type: 'number', description: 'Staff ID who updated the asset. Optional - defaults to authenticated user.' },
+            updated_by: { type: ['number', 'string'], description: 'Staff ID, name or email who updated the asset. Optional - defaults to authenticated user.' },
             contact_ids: {
               type: 'array',
               items: { type: 'number' },
@@ -108,40 +132,47 @@ export class AssetTools {
               },
               description: 'New contacts to create and associate'
             },
-            custom_fields: { type: 'object', description: 'Custom field values (a-cf-{id}: value)' }
+            custom_fields: { type: 'object', description: 'Custom field values keyed by field label (e.g. "Product Version") or a-cf-{id}. Dropdown fields take a choice ID or label, multiple-option fields a list of them, dates use yyyy-mm-dd' }
           },
           required: ['asset_id']
-        }
+        },
+        outputSchema: assetSchema
       },
       {
         name: 'happyfox_delete_asset',
+        title: 'Delete asset',
         description: 'Delete an asset',
         handler: 'deleteAsset',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            asset_id: { type: 'number', description: 'Asset ID to delete' },
-            deleted_by: { type: 'number', description: 'Staff ID performing the deletion. Optional - defaults to authenticated user.' }
+            asset_id: { type: ['number', 'string'], description: 'Asset ID to delete' },
+            deleted_by: { type: ['number', 'string'], description: 'Staff ID, name or email performing the deletion. Optional - defaults to authenticated user.' }
           },
           required: ['asset_id']
         }
       },
       {
         name: 'happyfox_list_asset_custom_fields',
+        title: 'List asset custom fields',
         description: 'List asset custom field definitions for a specific asset type',
         handler: 'listAssetCustomFields',
+        annotations: { readOnlyHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            asset_type_id: { type: 'number', description: 'Asset type ID (required - use happyfox://asset-types resource to find valid IDs)' }
+            asset_type_id: { type: ['number', 'string'], description: 'Asset type ID or name (required - use happyfox://asset-types resource to find valid values)' }
           },
           required: ['asset_type_id']
         }
       },
       {
         name: 'happyfox_get_asset_custom_field',
+        title: 'Get asset custom field',
         description: 'Get asset custom field details by ID',
         handler: 'getAssetCustomField',
+        annotations: { readOnlyHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
@@ -153,48 +184,57 @@ export class AssetTools {
     ];
   }
 
-  async listAssets(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async listAssets(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new AssetEndpoints(client);
-    return await endpoints.listAssets(args);
+    const resolvedArgs = await this.resolveNames(client, args);
+    return await paginate(resolvedArgs, (page, size) => endpoints.listAssets({ ...resolvedArgs, page, size }), context.progress);
   }
 
-  async getAsset(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async getAsset(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new AssetEndpoints(client);
-    return await endpoints.getAsset(args.asset_id);
+    const asset = await endpoints.getAsset(args.asset_id);
+    if (!args.custom_fields_by_label) return asset;
+    return { ...asset, custom_fields: customFieldsByLabel(asset.custom_fields) };
   }
 
-  async createAsset(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { asset_type_id, ...data } = args;
-    const client = new HappyFoxClient(auth);
+  async createAsset(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new AssetEndpoints(client);
+    const { asset_type_id, ...data } = await this.resolveNames(client, args);
     return await endpoints.createAsset(asset_type_id, data);
   }
 
-  async updateAsset(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { asset_id, ...updates } = args;
-    const client = new HappyFoxClient(auth);
+  async updateAsset(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new AssetEndpoints(client);
+    const { asset_id, ...updates } = await this.resolveNames(client, args);
     return await endpoints.updateAsset(asset_id, updates);
   }
 
-  async deleteAsset(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { asset_id, deleted_by } = args;
-    const client = new HappyFoxClient(auth);
+  async deleteAsset(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new AssetEndpoints(client);
+    const { asset_id, deleted_by } = await this.resolveNames(client, args);
     return await endpoints.deleteAsset(asset_id, deleted_by);
   }
 
-  async listAssetCustomFields(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async listAssetCustomFields(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new AssetEndpoints(client);
-    return await endpoints.listAssetCustomFields(args.asset_type_id);
+    const { asset_type_id } = await this.resolveNames(client, args);
+    return await endpoints.listAssetCustomFields(asset_type_id);
   }
 
-  async getAssetCustomField(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async getAssetCustomField(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new AssetEndpoints(client);
     return await endpoints.getAssetCustomField(args.custom_field_id);
   }
+
+  // Accept names (and staff emails) wherever an asset type or staff ID is expected
+  private resolveNames(client: HappyFoxClient, args: any): Promise<any> {
+    return new NameResolver(client).resolveArgs(args, REFERENCE_PARAMS);
+  }
 }
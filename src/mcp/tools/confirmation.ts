@@ -0,0 +1,82 @@
+import { ClientChannel, HappyFoxAuth, ToolExecutionError } from '../../types';
+import { HappyFoxClient } from '../../happyfox/client';
+import { TicketEndpoints } from '../../happyfox/endpoints/tickets';
+import { AssetEndpoints } from '../../happyfox/endpoints/assets';
+import { NameResolver } from './name-resolver';
+
+/**
+ * User confirmation for destructive tools
+ * When the client supports elicitation, these tools describe what they are about to change
+ * and only run once the user explicitly accepts
+ */
+
+// Builds the confirmation question from the tool arguments and the current HappyFox data
+type ConfirmationMessage = (args: any, client: HappyFoxClient) => Promise<string>;
+
+const CONFIRMATIONS: Record<string, ConfirmationMessage> = {
+  happyfox_delete_ticket: async (args, client) => {
+    const ticket = await new TicketEndpoints(client).getTicket(String(args.ticket_id));
+    return `Permanently delete ticket ${describeTicket(ticket, args.ticket_id)}? This cannot be undone.`;
+  },
+  happyfox_move_ticket_category: async (args, client) => {
+    const [ticket, target] = await Promise.all([
+      new TicketEndpoints(client).getTicket(String(args.ticket_id)),
+      new NameResolver(client).find('category', args.target_category_id)
+    ]);
+    const from = ticket?.category?.name ? ` from "${ticket.category.name}"` : '';
+    const to = target?.name ? `"${target.name}"` : `#${args.target_category_id}`;
+    return `Move ticket ${describeTicket(ticket, args.ticket_id)}${from} to category ${to}?`;
+  },
+  happyfox_delete_asset: async (args, client) => {
+    const asset = await new AssetEndpoints(client).getAsset(Number(args.asset_id));
+    const name = asset?.name ? `"${asset.name}"` : `#${args.asset_id}`;
+    const type = asset?.asset_type?.name ? ` (${asset.asset_type.name})` : '';
+    return `Permanently delete asset ${name}${type}? This cannot be undone.`;
+  }
+};
+
+// Form shown to the user; the tool runs only when confirm is checked and the form accepted
+const CONFIRMATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    confirm: { type: 'boolean', title: 'Confirm', description: 'Check to go ahead' }
+  },
+  required: ['confirm']
+};
+
+export function requiresConfirmation(toolName: string): boolean {
+  return toolName in CONFIRMATIONS;
+}
+
+/**
+ * Ask the user to confirm a tool call; throws unless they accept
+ */
+export async function confirmToolCall(
+  toolName: string,
+  args: any,
+  auth: HappyFoxAuth,
+  channel: Required<Pick<ClientChannel, 'elicit'>>,
+  signal?: AbortSignal
+): Promise<void> {
+  const message = await CONFIRMATIONS[toolName](args, new HappyFoxClient(auth, signal));
+  const answer = await channel.elicit(message, CONFIRMATION_SCHEMA);
+
+  if (answer.action !== 'accept' || answer.content?.confirm !== true) {
+    throw new ToolExecutionError(
+      `Not confirmed: the user ${answer.action === 'cancel' ? 'cancelled' : 'declined'} "${message}" No changes were made.`,
+      undefined,
+      'NOT_CONFIRMED'
+    );
+  }
+}
+
+// "#NCC00003439 "Printer on fire" raised by Jane Doe <jane@example.com>"
+function describeTicket(ticket: any, ticketId: string): string {
+  const id = ticket?.display_id || `#${ticketId}`;
+  const subject = ticket?.subject ? ` "${ticket.subject}"` : '';
+  const user = ticket?.user;
+  const requester = user?.name || user?.email
+    ? ` raised by ${[user.name, user.email ? `<${user.email}>` : undefined].filter(Boolean).join(' ')}`
+    : '';
+  return `${id}${subject}${requester}`;
+}
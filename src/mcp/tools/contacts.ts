@@ -1,14 +1,19 @@
-import { MCPTool, HappyFoxAuth } from '../../types';
+import { MCPTool, HappyFoxAuth, ToolContext } from '../../types';
 import { HappyFoxClient } from '../../happyfox/client';
 import { ContactEndpoints } from '../../happyfox/endpoints/contacts';
+import { customFieldsByLabel } from '../../happyfox/custom-fields';
+import { paginate, paginationProperties } from './pagination';
+import { contactSchema, listSchema } from './output-schemas';
 
 export class ContactTools {
   getTools(): Array<MCPTool & { handler: string }> {
     return [
       {
         name: 'happyfox_create_contact',
+        title: 'Create contact',
         description: 'Create a new contact in HappyFox',
         handler: 'createContact',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
@@ -38,45 +43,54 @@ export class ContactTools {
             },
             custom_fields: {
               type: 'object',
-              description: 'Custom field values (c-cf-{id}: value)'
+              description: 'Custom field values keyed by field label (e.g. "Product Version") or c-cf-{id}. Dropdown fields take a choice ID or label, multiple-option fields a list of them, dates use yyyy-mm-dd'
             }
           },
           required: ['name', 'email']
-        }
+        },
+        outputSchema: contactSchema
       },
       {
         name: 'happyfox_list_contacts',
-        description: 'List contacts with optional search',
+        title: 'List contacts',
+        description: 'List contacts with optional search. Returns nextCursor when more contacts remain; use max_items to collect several pages in one call.',
         handler: 'listContacts',
+        annotations: { readOnlyHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            page: { type: 'number', description: 'Page number (default: 1)' },
-            size: { type: 'number', description: 'Page size (default: 50, max: 50)' },
+            ...paginationProperties,
             query: { type: 'string', description: 'Search query (searches name, email, phone)' }
           }
-        }
+        },
+        outputSchema: listSchema(contactSchema)
       },
       {
         name: 'happyfox_get_contact',
+        title: 'Get contact',
         description: 'Get contact details by ID',
         handler: 'getContact',
+        annotations: { readOnlyHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            contact_id: { type: 'string', description: 'Contact ID' }
+            contact_id: { type: ['number', 'string'], description: 'Contact ID' },
+            custom_fields_by_label: { type: 'boolean', description: 'Return custom_fields as an object keyed by field label instead of a list' }
           },
           required: ['contact_id']
-        }
+        },
+        outputSchema: contactSchema
       },
       {
         name: 'happyfox_update_contact',
+        title: 'Update contact',
         description: 'Update contact information',
         handler: 'updateContact',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            contact_id: { type: 'string', description: 'Contact ID' },
+            contact_id: { type: ['number', 'string'], description: 'Contact ID' },
             name: { type: 'string', description: 'Contact name' },
             email: { type: 'string', description: 'Contact email address' },
             phones: {
@@ -104,16 +118,19 @@ export class ContactTools {
             },
             custom_fields: {
               type: 'object',
-              description: 'Custom field values (c-cf-{id}: value)'
+              description: 'Custom field values keyed by field label (e.g. "Product Version") or c-cf-{id}. Dropdown fields take a choice ID or label, multiple-option fields a list of them, dates use yyyy-mm-dd'
             }
           },
           required: ['contact_id']
-        }
+        },
+        outputSchema: contactSchema
       },
       {
         name: 'happyfox_create_contact_group',
+        title: 'Create contact group',
         description: 'Create a new contact group',
         handler: 'createContactGroup',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
@@ -125,24 +142,28 @@ export class ContactTools {
       },
       {
         name: 'happyfox_get_contact_group',
+        title: 'Get contact group',
         description: 'Get contact group details',
         handler: 'getContactGroup',
+        annotations: { readOnlyHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            group_id: { type: 'string', description: 'Contact group ID' }
+            group_id: { type: ['number', 'string'], description: 'Contact group ID' }
           },
           required: ['group_id']
         }
       },
       {
         name: 'happyfox_update_contact_group',
+        title: 'Update contact group',
         description: 'Update a contact group',
         handler: 'updateContactGroup',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            group_id: { type: 'string', description: 'Contact group ID' },
+            group_id: { type: ['number', 'string'], description: 'Contact group ID' },
             name: { type: 'string', description: 'Group name' },
             description: { type: 'string', description: 'Group description' }
           },
@@ -151,12 +172,14 @@ export class ContactTools {
       },
       {
         name: 'happyfox_add_contacts_to_group',
+        title: 'Add contacts to group',
         description: 'Add contacts to a contact group',
         handler: 'addContactsToGroup',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            group_id: { type: 'string', description: 'Contact group ID' },
+            group_id: { type: ['number', 'string'], description: 'Contact group ID' },
             contact_ids: { type: 'array', items: { type: 'number' }, description: 'Contact IDs to add' }
           },
           required: ['group_id', 'contact_ids']
@@ -164,12 +187,14 @@ export class ContactTools {
       },
       {
         name: 'happyfox_remove_contacts_from_group',
+        title: 'Remove contacts from group',
         description: 'Remove contacts from a contact group',
         handler: 'removeContactsFromGroup',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            group_id: { type: 'string', description: 'Contact group ID' },
+            group_id: { type: ['number', 'string'], description: 'Contact group ID' },
             contact_ids: { type: 'array', items: { type: 'number' }, description: 'Contact IDs to remove' }
           },
           required: ['group_id', 'contact_ids']
@@ -178,60 +203,62 @@ export class ContactTools {
     ];
   }
 
-  async createContact(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async createContact(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new ContactEndpoints(client);
     return await endpoints.createContact(args);
   }
 
-  async listContacts(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async listContacts(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new ContactEndpoints(client);
-    return await endpoints.listContacts(args);
+    return await paginate(args, (page, size) => endpoints.listContacts({ ...args, page, size }), context.progress);
   }
 
-  async getContact(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async getContact(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new ContactEndpoints(client);
-    return await endpoints.getContact(args.contact_id);
+    const contact = await endpoints.getContact(args.contact_id);
+    if (!args.custom_fields_by_label) return contact;
+    return { ...contact, custom_fields: customFieldsByLabel(contact.custom_fields) };
   }
 
-  async updateContact(args: any, auth: HappyFoxAuth): Promise<any> {
+  async updateContact(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
     const { contact_id, ...updates } = args;
-    const client = new HappyFoxClient(auth);
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new ContactEndpoints(client);
     return await endpoints.updateContact(contact_id, updates);
   }
 
-  async createContactGroup(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async createContactGroup(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new ContactEndpoints(client);
     return await endpoints.createContactGroup(args);
   }
 
-  async getContactGroup(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async getContactGroup(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new ContactEndpoints(client);
     return await endpoints.getContactGroup(args.group_id);
   }
 
-  async updateContactGroup(args: any, auth: HappyFoxAuth): Promise<any> {
+  async updateContactGroup(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
     const { group_id, ...updates } = args;
-    const client = new HappyFoxClient(auth);
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new ContactEndpoints(client);
     return await endpoints.updateContactGroup(group_id, updates);
   }
 
-  async addContactsToGroup(args: any, auth: HappyFoxAuth): Promise<any> {
+  async addContactsToGroup(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
     const { group_id, contact_ids } = args;
-    const client = new HappyFoxClient(auth);
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new ContactEndpoints(client);
     return await endpoints.addContactsToGroup(group_id, contact_ids);
   }
 
-  async removeContactsFromGroup(args: any, auth: HappyFoxAuth): Promise<any> {
+  async removeContactsFromGroup(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
     const { group_id, contact_ids } = args;
-    const client = new HappyFoxClient(auth);
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new ContactEndpoints(client);
     return await endpoints.removeContactsFromGroup(group_id, contact_ids);
   }
@@ -0,0 +1,147 @@
+import { MCPTool, HappyFoxAuth, ToolContext } from '../../types';
+import { HappyFoxClient } from '../../happyfox/client';
+import { KnowledgeBaseEndpoints } from '../../happyfox/endpoints/knowledge-base';
+
+const searchProperties = {
+  query: { type: 'string', description: 'Keywords to search for in article titles and contents (all must match)' },
+  section_id: { type: 'number', description: 'Only search articles in this section' },
+  limit: { type: 'number', description: 'Maximum number of results (default: 10, max: 50)' }
+};
+
+export class KnowledgeBaseTools {
+  getTools(): Array<MCPTool & { handler: string }> {
+    return [
+      {
+        name: 'happyfox_list_kb_articles',
+        title: 'List knowledge base articles',
+        description: 'List external (public) knowledge base articles',
+        handler: 'listArticles',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            section_id: { type: 'number', description: 'Only list articles in this section (use happyfox://kb/sections resource to find valid IDs)' }
+          }
+        }
+      },
+      {
+        name: 'happyfox_get_kb_article',
+        title: 'Get knowledge base article',
+        description: 'Get an external knowledge base article including its contents',
+        handler: 'getArticle',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            article_id: { type: 'number', description: 'Article ID' }
+          },
+          required: ['article_id']
+        }
+      },
+      {
+        name: 'happyfox_search_kb_articles',
+        title: 'Search knowledge base articles',
+        description: 'Search external knowledge base articles by keyword. Returns matching article IDs, titles and snippets.',
+        handler: 'searchArticles',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: { ...searchProperties },
+          required: ['query']
+        }
+      },
+      {
+        name: 'happyfox_list_kb_sections',
+        title: 'List knowledge base sections',
+        description: 'List knowledge base sections',
+        handler: 'listSections',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {}
+        }
+      },
+      {
+        name: 'happyfox_list_kb_internal_articles',
+        title: 'List internal knowledge base articles',
+        description: 'List internal (staff-only) knowledge base articles',
+        handler: 'listInternalArticles',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            section_id: { type: 'number', description: 'Only list articles in this section' }
+          }
+        }
+      },
+      {
+        name: 'happyfox_get_kb_internal_article',
+        title: 'Get internal knowledge base article',
+        description: 'Get an internal (staff-only) knowledge base article including its contents',
+        handler: 'getInternalArticle',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            article_id: { type: 'number', description: 'Internal article ID' }
+          },
+          required: ['article_id']
+        }
+      },
+      {
+        name: 'happyfox_search_kb_internal_articles',
+        title: 'Search internal knowledge base articles',
+        description: 'Search internal (staff-only) knowledge base articles by keyword. Returns matching article IDs, titles and snippets.',
+        handler: 'searchInternalArticles',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: { ...searchProperties },
+          required: ['query']
+        }
+      }
+    ];
+  }
+
+  async listArticles(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new KnowledgeBaseEndpoints(client);
+    return await endpoints.listArticles(args.section_id);
+  }
+
+  async getArticle(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new KnowledgeBaseEndpoints(client);
+    return await endpoints.getArticle(args.article_id);
+  }
+
+  async searchArticles(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new KnowledgeBaseEndpoints(client);
+    return await endpoints.searchArticles(args);
+  }
+
+  async listSections(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new KnowledgeBaseEndpoints(client);
+    return await endpoints.listSections();
+  }
+
+  async listInternalArticles(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new KnowledgeBaseEndpoints(client);
+    return await endpoints.listInternalArticles(args.section_id);
+  }
+
+  async getInternalArticle(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new KnowledgeBaseEndpoints(client);
+    return await endpoints.getInternalArticle(args.article_id);
+  }
+
+  async searchInternalArticles(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new KnowledgeBaseEndpoints(client);
+    return await endpoints.searchInternalArticles(args);
+  }
+}
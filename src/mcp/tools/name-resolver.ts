@@ -0,0 +1,117 @@
+import { ToolExecutionError } from '../../types';
+import { HappyFoxClient } from '../../happyfox/client';
+
+/**
+ * Resolves human-readable names (and staff emails) in tool arguments to HappyFox IDs
+ * Lookups use the cached reference data behind the happyfox:// resources
+ */
+
+export type ReferenceKind = 'category' | 'status' | 'priority' | 'staff' | 'asset_type' | 'contact_group';
+
+// Reference data backing each kind, keyed by ReferenceCache resource name
+const REFERENCE_SOURCES: Record<ReferenceKind, { resource: string; path: string; label: string }> = {
+  category: { resource: 'categories', path: '/categories/', label: 'category' },
+  status: { resource: 'statuses', path: '/statuses/', label: 'status' },
+  // Not listed in DOCUMENTATION.md, but served alongside /statuses/ by the same API
+  priority: { resource: 'priorities', path: '/priorities/', label: 'priority' },
+  staff: { resource: 'staff', path: '/staff/', label: 'staff member' },
+  asset_type: { resource: 'asset-types', path: '/asset_types/', label: 'asset type' },
+  contact_group: { resource: 'contact-groups', path: '/contact_groups/', label: 'contact group' }
+};
+
+// Maximum candidates listed in not-found errors
+const MAX_LISTED_OPTIONS = 25;
+
+export class NameResolver {
+  constructor(private client: HappyFoxClient) {}
+
+  /**
+   * Resolve a single value. IDs (numbers or numeric strings) and empty values pass through unchanged;
+   * other strings are matched case-insensitively against names (and emails for staff).
+   */
+  async resolve(kind: ReferenceKind, value: any): Promise<any> {
+    if (value === undefined || value === null || value === '') return value;
+    if (typeof value === 'number' || (typeof value === 'string' && /^\d+$/.test(value.trim()))) {
+      return value;
+    }
+    if (typeof value !== 'string') return value;
+
+    const { label } = REFERENCE_SOURCES[kind];
+    const items = await this.load(kind);
+    const needle = value.trim().toLowerCase();
+    const names = (item: any): string[] =>
+      [item.name, kind === 'staff' ? item.email : undefined]
+        .filter((text): text is string => typeof text === 'string')
+        .map(text => text.trim().toLowerCase());
+
+    // Only exact matches resolve: a partial match could pick the wrong record (e.g. "Sales" for
+    // "Presales") for parameters that move or assign tickets, so partial matches are only suggested
+    const matches = items.filter(item => names(item).includes(needle));
+
+    if (matches.length === 1) {
+      return matches[0].id;
+    }
+
+    if (matches.length > 1) {
+      throw new ToolExecutionError(
+        `"${value}" matches more than one ${label}: ${matches.map(describeItem).join(', ')}. Use the ID instead.`,
+        400,
+        'AMBIGUOUS_NAME'
+      );
+    }
+
+    const partialMatches = items.filter(item => names(item).some(name => name.includes(needle)));
+    if (partialMatches.length > 0) {
+      const suggestions = partialMatches.slice(0, MAX_LISTED_OPTIONS).map(describeItem).join(', ');
+      throw new ToolExecutionError(
+        `No ${label} named exactly "${value}". Did you mean: ${suggestions}? Use the full name or the ID.`,
+        400,
+        'NAME_NOT_FOUND'
+      );
+    }
+
+    const options = items.slice(0, MAX_LISTED_OPTIONS).map(describeItem).join(', ');
+    const more = items.length > MAX_LISTED_OPTIONS ? `, and ${items.length - MAX_LISTED_OPTIONS} more` : '';
+    throw new ToolExecutionError(
+      `No ${label} named "${value}". Valid options: ${options || 'none'}${more}`,
+      400,
+      'NAME_NOT_FOUND'
+    );
+  }
+
+  /**
+   * Resolve the given argument names, returning a copy of args with IDs substituted
+   */
+  async resolveArgs<T extends Record<string, any>>(args: T, params: Partial<Record<keyof T, ReferenceKind>>): Promise<T> {
+    const resolved: Record<string, any> = { ...args };
+    for (const [param, kind] of Object.entries(params) as Array<[string, ReferenceKind]>) {
+      if (param in resolved) {
+        resolved[param] = await this.resolve(kind, resolved[param]);
+      }
+    }
+    return resolved as T;
+  }
+
+  /**
+   * Find the reference record an ID or name refers to, e.g. to show its name to the user
+   * Names resolve as in resolve(); IDs that match no record return undefined
+   */
+  async find(kind: ReferenceKind, value: any): Promise<any | undefined> {
+    const id = await this.resolve(kind, value);
+    const items = await this.load(kind);
+    return items.find(item => String(item.id) === String(id).trim());
+  }
+
+  private async load(kind: ReferenceKind): Promise<any[]> {
+    const { resource, path } = REFERENCE_SOURCES[kind];
+    const data = await this.client.getCached<any>(resource, path);
+    // Asset types are paginated ({ data, page_info }); the rest are plain arrays
+    if (Array.isArray(data)) return data;
+    if (data && Array.isArray(data.data)) return data.data;
+    return [];
+  }
+}
+
+function describeItem(item: any): string {
+  return item.email ? `"${item.name}" <${item.email}> (id ${item.id})` : `"${item.name}" (id ${item.id})`;
+}
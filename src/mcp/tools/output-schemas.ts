@@ -0,0 +1,161 @@
+/**
+ * Output schemas for tools returning tickets, contacts, assets and paginated lists
+ * Shapes follow the HappyFox responses in DOCUMENTATION.md; fields not listed here are allowed,
+ * since responses vary with account configuration (custom fields, minify_response, fields)
+ */
+
+type OutputSchema = { type: 'object'; properties: Record<string, any>; required?: string[] };
+
+// { id, name } objects such as category, priority and asset_type
+function reference(description: string) {
+  return {
+    type: ['object', 'null'],
+    properties: {
+      id: { type: 'number' },
+      name: { type: 'string' }
+    },
+    description
+  };
+}
+
+const customFieldsSchema = {
+  type: ['array', 'object'],
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'number' },
+      name: { type: 'string' },
+      type: { type: 'string' },
+      value: { description: 'Field value; choice fields hold the choice text' }
+    }
+  },
+  description: 'List of { id, name, type, value }, or an object keyed by field label when custom_fields_by_label is set'
+};
+
+const pageInfoSchema = {
+  type: 'object',
+  properties: {
+    count: { type: 'number', description: 'Items on this page' },
+    last_index: { type: 'number', description: 'Total number of items' },
+    page_count: { type: 'number', description: 'Total number of pages' },
+    start_index: { type: 'number' },
+    end_index: { type: 'number' }
+  }
+};
+
+export const contactSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    email: { type: 'string' },
+    phones: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number' },
+          number: { type: 'string' },
+          type: { type: 'string', description: 'm (main), mo (mobile), w (work), h (home) or o (other)' }
+        }
+      }
+    },
+    primary_phone: { type: ['object', 'null'] },
+    contact_groups: { type: 'array', items: reference('Contact group') },
+    tickets_count: { type: 'number' },
+    pending_tickets_count: { type: 'number' },
+    created_at: { type: ['string', 'null'] },
+    updated_at: { type: ['string', 'null'] },
+    custom_fields: customFieldsSchema
+  },
+  required: ['id']
+};
+
+export const ticketSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    display_id: { type: 'string', description: 'Display ID shown in the HappyFox UI (e.g. #NCC00003439)' },
+    subject: { type: 'string' },
+    status: {
+      type: 'object',
+      properties: {
+        id: { type: 'number' },
+        name: { type: 'string' },
+        behavior: { type: 'string', description: 'pending or completed' },
+        color: { type: 'string' }
+      }
+    },
+    priority: reference('Priority'),
+    category: reference('Category'),
+    assigned_to: {
+      type: ['object', 'null'],
+      properties: {
+        id: { type: 'number' },
+        name: { type: 'string' },
+        email: { type: 'string' }
+      },
+      description: 'Assigned staff member, or null when unassigned'
+    },
+    user: { ...contactSchema, description: 'Contact who raised the ticket' },
+    tags: { type: ['string', 'null'], description: 'Comma-separated tags' },
+    unresponded: { type: 'boolean' },
+    due_date: { type: ['string', 'null'] },
+    created_at: { type: 'string', description: 'yyyy-mm-dd hh:mm:ss' },
+    last_updated_at: { type: 'string', description: 'yyyy-mm-dd hh:mm:ss' },
+    custom_fields: customFieldsSchema,
+    updates: {
+      type: 'array',
+      items: { type: 'object' },
+      description: 'Conversation and change history, oldest first'
+    }
+  },
+  required: ['id']
+};
+
+export const assetSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    display_id: { type: 'string' },
+    asset_type: reference('Asset type'),
+    contacts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number' },
+          name: { type: 'string' },
+          email: { type: 'string' }
+        }
+      }
+    },
+    created_by: { type: ['number', 'null'] },
+    created_at: { type: ['string', 'null'] },
+    updated_by: { type: ['number', 'null'] },
+    updated_at: { type: ['string', 'null'] },
+    custom_fields: customFieldsSchema
+  },
+  required: ['id']
+};
+
+/**
+ * Schema for paginated list results (see pagination.ts): the items, HappyFox page_info,
+ * total and the cursor for the next call
+ */
+export function listSchema(item: OutputSchema, extra: Record<string, any> = {}): OutputSchema {
+  // List items may be trimmed by minify_response or fields, so none of their fields are required
+  const { required, ...itemSchema } = item;
+  return {
+    type: 'object',
+    properties: {
+      data: { type: 'array', items: itemSchema },
+      page_info: pageInfoSchema,
+      total: { type: 'number', description: 'Total number of matching items' },
+      nextCursor: { type: 'string', description: 'Pass as cursor to continue; absent on the last page' },
+      ...extra
+    },
+    required: ['data']
+  };
+}
@@ -0,0 +1,109 @@
+import { ToolExecutionError, ProgressReporter } from '../../types';
+
+/**
+ * Cursor-based pagination for list tools
+ * Wraps HappyFox page/size pagination ({ data, page_info }) with opaque cursors, and optionally
+ * walks several pages server-side when max_items is given
+ */
+
+export interface PaginationArgs {
+  page?: number;
+  size?: number;
+  cursor?: string;
+  max_items?: number;
+}
+
+// Fetches one HappyFox page; the response must carry the items in data
+export type PageFetcher = (page: number, size: number) => Promise<any>;
+
+// HappyFox caps page size at 50
+const MAX_PAGE_SIZE = 50;
+
+// Budget for a single call when walking pages with max_items
+export const MAX_ITEMS_LIMIT = 500;
+const MAX_PAGES_PER_CALL = 10;
+
+// Position of the next item: page number, offset within that page and page size
+interface CursorPosition {
+  page: number;
+  offset: number;
+  size: number;
+}
+
+// Schema properties shared by paginated list tools
+export const paginationProperties = {
+  page: { type: 'number', description: 'Page number (default: 1). Ignored when cursor is given.' },
+  size: { type: 'number', description: 'Page size (default: 50, max: 50). Ignored when cursor is given.' },
+  cursor: { type: 'string', description: 'nextCursor from a previous call to continue where it stopped' },
+  max_items: {
+    type: 'number',
+    description: `Collect up to this many items across pages in one call (max: ${MAX_ITEMS_LIMIT}). Omit to return a single page.`
+  }
+};
+
+/**
+ * Fetch one page, or walk pages until max_items items are collected
+ * Returns the last HappyFox response with data replaced by the collected items,
+ * plus total (from page_info) and nextCursor when more items remain
+ * When walking pages, progress is reported as items collected out of max_items
+ */
+export async function paginate(args: PaginationArgs, fetchPage: PageFetcher, progress?: ProgressReporter): Promise<any> {
+  let position = args.cursor
+    ? decodeCursor(args.cursor)
+    : { page: args.page || 1, offset: 0, size: Math.min(args.size || MAX_PAGE_SIZE, MAX_PAGE_SIZE) };
+
+  const limit = args.max_items !== undefined ? Math.min(Math.max(Math.floor(args.max_items), 1), MAX_ITEMS_LIMIT) : Infinity;
+  const maxPages = args.max_items !== undefined ? MAX_PAGES_PER_CALL : 1;
+
+  const items: any[] = [];
+  let response: any;
+  let next: CursorPosition | undefined;
+
+  for (let fetched = 0; fetched < maxPages; fetched++) {
+    response = await fetchPage(position.page, position.size);
+    const pageItems: any[] = Array.isArray(response?.data) ? response.data : [];
+    const available = pageItems.slice(position.offset);
+    const taken = available.slice(0, limit - items.length);
+    items.push(...taken);
+
+    const pageCount = response?.page_info?.page_count;
+    if (taken.length < available.length) {
+      next = { ...position, offset: position.offset + taken.length };
+    } else if (pageItems.length > 0 && (pageCount === undefined ? pageItems.length === position.size : position.page < pageCount)) {
+      next = { page: position.page + 1, offset: 0, size: position.size };
+    } else {
+      next = undefined;
+    }
+
+    if (!next || items.length >= limit) break;
+    if (progress && maxPages > 1) await progress(items.length, limit, `Fetched page ${position.page}`);
+    position = next;
+  }
+
+  const total = response?.page_info?.last_index;
+  return {
+    ...response,
+    data: items,
+    ...(total !== undefined && { total }),
+    ...(next && { nextCursor: encodeCursor(next) })
+  };
+}
+
+function encodeCursor(position: CursorPosition): string {
+  return btoa(JSON.stringify([position.page, position.offset, position.size]))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [page, offset, size] = JSON.parse(atob(cursor.replace(/-/g, '+').replace(/_/g, '/')));
+    if ([page, offset, size].every(Number.isInteger) && page >= 1 && offset >= 0 && size >= 1 && size <= MAX_PAGE_SIZE) {
+      return { page, offset, size };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ToolExecutionError('Invalid cursor. Use the nextCursor value from a previous response.', 400, 'INVALID_CURSOR');
+}
@@ -1,18 +1,26 @@
-import { MCPTool, HappyFoxAuth, AuthContext, ToolNotFoundError, ToolExecutionError } from '../../types';
+import { MCPTool, HappyFoxAuth, AuthContext, ClientChannel, ToolContext, ToolNotFoundError, ToolExecutionError } from '../../types';
 import { HappyFoxAPIError } from '../../happyfox/client';
 import { TicketTools } from './tickets';
 import { ContactTools } from './contacts';
 import { AssetTools } from './assets';
+import { ReportTools } from './reports';
+import { KnowledgeBaseTools } from './knowledge-base';
+import { validateArguments } from './argument-validator';
+import { requiresConfirmation, confirmToolCall } from './confirmation';
 import {
   hasRequiredScopes,
   filterToolsByScopes,
   injectStaffId,
   getRequiredScopes,
 } from '../../oauth/services/scope-enforcer';
+import { HappyFoxScope } from '../../oauth/types';
+
+// Scopes that only grant read access; tools requiring nothing else must be annotated read-only
+const READ_ONLY_SCOPES: HappyFoxScope[] = ['happyfox:read', 'happyfox:kb-internal'];
 
 export class ToolRegistry {
   private tools: Map<string, MCPTool>;
-  private toolHandlers: Map<string, (args: any, auth: HappyFoxAuth) => Promise<any>>;
+  private toolHandlers: Map<string, (args: any, auth: HappyFoxAuth, context?: ToolContext) => Promise<any>>;
 
   constructor() {
     this.tools = new Map();
@@ -22,21 +30,56 @@ export class ToolRegistry {
     const ticketTools = new TicketTools();
     const contactTools = new ContactTools();
     const assetTools = new AssetTools();
+    const reportTools = new ReportTools();
+    const knowledgeBaseTools = new KnowledgeBaseTools();
 
     // Register all tools
     this.registerToolModule(ticketTools);
     this.registerToolModule(contactTools);
     this.registerToolModule(assetTools);
+    this.registerToolModule(reportTools);
+    this.registerToolModule(knowledgeBaseTools);
   }
 
   private registerToolModule(module: any) {
     const tools = module.getTools();
     for (const tool of tools) {
+      this.checkAnnotations(tool);
       this.tools.set(tool.name, tool);
       this.toolHandlers.set(tool.name, module[tool.handler].bind(module));
     }
   }
 
+  /**
+   * Ensure every tool has a title and annotations, and that the annotations agree with the
+   * scopes it requires in TOOL_SCOPE_MAP
+   * Throws at startup so an unlabelled or mislabelled tool never reaches clients
+   */
+  private checkAnnotations(tool: MCPTool) {
+    if (!tool.title || !tool.annotations) {
+      throw new Error(`Tool '${tool.name}' must declare a title and annotations`);
+    }
+    const annotations = tool.annotations;
+
+    const scopes = getRequiredScopes(tool.name) || [];
+    const readScoped = scopes.length > 0 && scopes.every(scope => READ_ONLY_SCOPES.includes(scope));
+    const problems: string[] = [];
+
+    if (readScoped && annotations.readOnlyHint !== true) {
+      problems.push(`requires only ${scopes.join(', ')} but is not marked readOnlyHint`);
+    }
+    if (!readScoped && annotations.readOnlyHint === true) {
+      problems.push(`is marked readOnlyHint but requires ${scopes.join(', ') || 'no scope'}`);
+    }
+    if (annotations.readOnlyHint === true && (annotations.destructiveHint || annotations.idempotentHint !== undefined)) {
+      problems.push('is marked readOnlyHint but declares destructiveHint or idempotentHint');
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Tool '${tool.name}' has inconsistent annotations: it ${problems.join('; ')}`);
+    }
+  }
+
   /**
    * List all tools, optionally filtered by granted scopes
    */
@@ -50,10 +93,26 @@ export class ToolRegistry {
     return allTools;
   }
 
+  /**
+   * Get a tool definition by name
+   */
+  getTool(name: string): MCPTool | undefined {
+    return this.tools.get(name);
+  }
+
   /**
    * Call a tool with OAuth context (scope enforcement and staff_id injection)
+   * With a client channel, destructive tools ask the user to confirm first and
+   * long-running tools report progress
+   * Aborting signal (a cancelled request) stops the tool's outstanding HappyFox calls and retries
    */
-  async callToolWithAuth(name: string, args: any, authContext: AuthContext): Promise<any> {
+  async callToolWithAuth(
+    name: string,
+    args: any,
+    authContext: AuthContext,
+    channel?: ClientChannel,
+    signal?: AbortSignal
+  ): Promise<any> {
     const handler = this.toolHandlers.get(name);
     if (!handler) {
       throw new ToolNotFoundError(name);
@@ -72,9 +131,25 @@ export class ToolRegistry {
     // Auto-inject staff_id if not provided
     const enrichedArgs = injectStaffId(name, args, authContext.staffId);
 
+    // Reject malformed arguments before they reach HappyFox, naming every bad field
+    const errors = validateArguments(this.tools.get(name)!.inputSchema, enrichedArgs);
+    if (errors.length > 0) {
+      throw new ToolExecutionError(
+        `Invalid arguments for '${name}':\n${errors.map(error => `- ${error}`).join('\n')}`,
+        400,
+        'INVALID_ARGUMENTS'
+      );
+    }
+
     try {
-      return await handler(enrichedArgs, authContext.credentials);
+      if (channel?.elicit && requiresConfirmation(name)) {
+        await confirmToolCall(name, enrichedArgs, authContext.credentials, { elicit: channel.elicit.bind(channel) }, signal);
+      }
+      return await handler(enrichedArgs, authContext.credentials, { progress: channel?.progress, signal });
     } catch (error) {
+      if (error instanceof ToolExecutionError) {
+        throw error;
+      }
       if (error instanceof HappyFoxAPIError) {
         throw new ToolExecutionError(error.message, error.statusCode, error.code);
       }
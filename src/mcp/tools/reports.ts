@@ -0,0 +1,200 @@
+import { MCPTool, HappyFoxAuth, ToolContext } from '../../types';
+import { HappyFoxClient } from '../../happyfox/client';
+import { ReportEndpoints } from '../../happyfox/endpoints/reports';
+
+// Date range filters shared by every report view
+const reportFilterProperties = {
+  report_id: { type: 'number', description: 'Report ID (use happyfox_list_reports to find valid IDs)' },
+  period: {
+    type: 'string',
+    enum: ['created', 'assigned', 'staff_reply', 'contact_reply', 'private_note', 'staff_reply_or_note', 'closed'],
+    description: 'Ticket event the date range applies to (default: created)'
+  },
+  date_range: {
+    type: 'string',
+    enum: ['today', 'last_7_days', 'month_to_date', 'year_to_date', 'previous_month', 'custom'],
+    description: 'Preset date range. Omit to use the range saved with the report. Use "custom" (or just start_date/end_date) for a selected range.'
+  },
+  start_date: { type: 'string', description: 'Start of a custom date range (yyyy-mm-dd, requires end_date)' },
+  end_date: { type: 'string', description: 'End of a custom date range (yyyy-mm-dd, requires start_date)' }
+};
+
+const paginationProperties = {
+  page: { type: 'number', description: 'Page number (default: 1)' },
+  size: { type: 'number', description: 'Page size (default: 50, max: 50)' },
+  sort_dir: { type: 'string', enum: ['asc', 'desc'], description: 'Sort direction' }
+};
+
+// Staff and contact views only sort by name
+const nameSortProperties = {
+  ...paginationProperties,
+  sort_key: { type: 'string', enum: ['name'], description: 'Sort key' }
+};
+
+export class ReportTools {
+  getTools(): Array<MCPTool & { handler: string }> {
+    return [
+      {
+        name: 'happyfox_list_reports',
+        title: 'List reports',
+        description: 'List saved reports with pagination',
+        handler: 'listReports',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            page: { type: 'number', description: 'Page number (default: 1)' },
+            size: { type: 'number', description: 'Page size (default: 50, max: 50)' }
+          }
+        }
+      },
+      {
+        name: 'happyfox_get_report_summary',
+        title: 'Get report summary',
+        description: 'Get report summary counts (tickets, completed, assigned, pending, unassigned)',
+        handler: 'getReportSummary',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: { ...reportFilterProperties },
+          required: ['report_id']
+        }
+      },
+      {
+        name: 'happyfox_get_report_tabular_data',
+        title: 'Get report tabular data',
+        description: 'Get the tabular (ticket-level) view of a report',
+        handler: 'getReportTabularData',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...reportFilterProperties,
+            ...paginationProperties,
+            sort_key: {
+              type: 'string',
+              enum: ['ticket', 'status', 'created', 'duedate', 'assigned'],
+              description: 'Sort key (default: duedate)'
+            }
+          },
+          required: ['report_id']
+        }
+      },
+      {
+        name: 'happyfox_get_report_response_stats',
+        title: 'Get report response stats',
+        description: 'Get first response and resolution time statistics for a report',
+        handler: 'getReportResponseStats',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: { ...reportFilterProperties },
+          required: ['report_id']
+        }
+      },
+      {
+        name: 'happyfox_get_report_staff_performance',
+        title: 'Get report staff performance',
+        description: 'Get per-staff performance (tickets handled, response and resolution times) for a report',
+        handler: 'getReportStaffPerformance',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: { ...reportFilterProperties, ...nameSortProperties },
+          required: ['report_id']
+        }
+      },
+      {
+        name: 'happyfox_get_report_staff_activity',
+        title: 'Get report staff activity',
+        description: 'Get per-staff activity (replies, notes, status changes) for a report',
+        handler: 'getReportStaffActivity',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: { ...reportFilterProperties, ...nameSortProperties },
+          required: ['report_id']
+        }
+      },
+      {
+        name: 'happyfox_get_report_contact_activity',
+        title: 'Get report contact activity',
+        description: 'Get per-contact activity for a report',
+        handler: 'getReportContactActivity',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: { ...reportFilterProperties, ...nameSortProperties },
+          required: ['report_id']
+        }
+      },
+      {
+        name: 'happyfox_get_report_sla_performance',
+        title: 'Get report SLA performance',
+        description: 'Get SLA performance entries (achieved and breached SLAs) for a report',
+        handler: 'getReportSlaPerformance',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: { ...reportFilterProperties },
+          required: ['report_id']
+        }
+      }
+    ];
+  }
+
+  async listReports(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new ReportEndpoints(client);
+    return await endpoints.listReports(args);
+  }
+
+  async getReportSummary(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { report_id, ...filters } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new ReportEndpoints(client);
+    return await endpoints.getReportSummary(report_id, filters);
+  }
+
+  async getReportTabularData(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { report_id, ...options } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new ReportEndpoints(client);
+    return await endpoints.getTabularData(report_id, options);
+  }
+
+  async getReportResponseStats(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { report_id, ...filters } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new ReportEndpoints(client);
+    return await endpoints.getResponseStats(report_id, filters);
+  }
+
+  async getReportStaffPerformance(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { report_id, ...options } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new ReportEndpoints(client);
+    return await endpoints.getStaffPerformance(report_id, options);
+  }
+
+  async getReportStaffActivity(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { report_id, ...options } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new ReportEndpoints(client);
+    return await endpoints.getStaffActivity(report_id, options);
+  }
+
+  async getReportContactActivity(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { report_id, ...options } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new ReportEndpoints(client);
+    return await endpoints.getContactActivity(report_id, options);
+  }
+
+  async getReportSlaPerformance(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { report_id, ...filters } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new ReportEndpoints(client);
+    return await endpoints.getSlaEntries(report_id, filters);
+  }
+}
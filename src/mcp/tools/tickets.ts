@@ -1,73 +1,186 @@
-import { MCPTool, HappyFoxAuth } from '../../types';
+import { MCPTool, HappyFoxAuth, ToolContext, ToolContentResult } from '../../types';
 import { HappyFoxClient } from '../../happyfox/client';
 import { TicketEndpoints } from '../../happyfox/endpoints/tickets';
+import { toResourceContent } from '../../happyfox/attachments';
+import { referenceCache } from '../../cache/reference-cache';
+import { customFieldsByLabel } from '../../happyfox/custom-fields';
+import { NameResolver, ReferenceKind } from './name-resolver';
+import { paginate, paginationProperties } from './pagination';
+import { ticketSchema, listSchema } from './output-schemas';
+
+// Ticket tool parameters that accept a name (or staff email) in place of an ID
+const REFERENCE_PARAMS: Record<string, ReferenceKind> = {
+  category: 'category',
+  target_category_id: 'category',
+  status: 'status',
+  priority: 'priority',
+  assignee: 'staff',
+  staff_id: 'staff',
+  staff: 'staff'
+};
+
+// Shared schema for file attachments (sent to HappyFox as multipart/form-data)
+const attachmentsSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      filename: { type: 'string', description: 'File name (required for base64 content)' },
+      mime_type: { type: 'string', description: 'MIME type (default: application/octet-stream)' },
+      content: { type: 'string', description: 'Base64-encoded file content' },
+      type: { type: 'string', enum: ['resource'], description: 'Set to "resource" to pass an MCP embedded resource' },
+      resource: {
+        type: 'object',
+        properties: {
+          uri: { type: 'string' },
+          mimeType: { type: 'string' },
+          blob: { type: 'string', description: 'Base64-encoded binary content' },
+          text: { type: 'string', description: 'Plain text content' }
+        },
+        description: 'MCP embedded resource (blob or text)'
+      }
+    }
+  },
+  description: 'Files to attach, as base64 content or MCP embedded resources (max 25 MB combined)'
+};
+
+// Search results add the compiled query and, for date filters, which filters ran client-side
+const searchResultSchema = listSchema(ticketSchema, {
+  query: { type: 'string', description: 'Compiled HappyFox q string' },
+  client_side_filters: {
+    type: 'object',
+    properties: {
+      applied: { type: 'array', items: { type: 'string' } },
+      note: { type: 'string' }
+    }
+  }
+});
 
 export class TicketTools {
   getTools(): Array<MCPTool & { handler: string }> {
     return [
       {
         name: 'happyfox_create_ticket',
+        title: 'Create ticket',
         description: 'Create a new ticket in HappyFox',
         handler: 'createTicket',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            category: { type: 'string', description: 'Category ID' },
+            category: { type: ['number', 'string'], description: 'Category ID or name' },
             subject: { type: 'string', description: 'Ticket subject' },
             text: { type: 'string', description: 'Ticket message text' },
             email: { type: 'string', description: 'Contact email address' },
             name: { type: 'string', description: 'Contact name' },
             phone: { type: 'string', description: 'Contact phone number' },
-            priority: { type: 'string', description: 'Priority ID' },
-            assignee: { type: 'string', description: 'Staff ID to assign to' },
+            priority: { type: ['number', 'string'], description: 'Priority ID or name' },
+            assignee: { type: ['number', 'string'], description: 'Staff ID, name or email to assign to' },
             tags: { type: 'array', items: { type: 'string' }, description: 'Tags to add' },
             cc: { type: 'array', items: { type: 'string' }, description: 'CC email addresses' },
             bcc: { type: 'array', items: { type: 'string' }, description: 'BCC email addresses' },
-            custom_fields: { type: 'object', description: 'Custom field values (t-cf-{id}: value)' }
+            custom_fields: { type: 'object', description: 'Custom field values keyed by field label (e.g. "Product Version") or t-cf-{id} or c-cf-{id}. Dropdown fields take a choice ID or label, multiple-option fields a list of them, dates use yyyy-mm-dd' },
+            attachments: attachmentsSchema
           },
           required: ['category', 'subject', 'text', 'email', 'name']
-        }
+        },
+        outputSchema: ticketSchema
       },
       {
         name: 'happyfox_list_tickets',
-        description: 'List tickets with filters',
+        title: 'List tickets',
+        description: 'List tickets with filters. Returns nextCursor when more tickets remain; use max_items to collect several pages in one call.',
         handler: 'listTickets',
+        annotations: { readOnlyHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            page: { type: 'number', description: 'Page number (default: 1)' },
-            size: { type: 'number', description: 'Page size (default: 50, max: 50)' },
-            category: { type: 'string', description: 'Filter by category ID' },
-            status: { type: 'string', description: 'Filter by status ID' },
+            ...paginationProperties,
+            category: { type: ['number', 'string'], description: 'Filter by category ID or name' },
+            status: { type: ['number', 'string'], description: 'Filter by status ID or name' },
             query: { type: 'string', description: 'Search query (use key:value syntax for advanced filters like assignee:email@example.com, assignee:--none, priority:"High", tag:"urgent")' },
             sort_by: { type: 'string', description: 'Sort field' },
             minify_response: { type: 'boolean', description: 'Return minimal ticket data for faster response' },
             fields: { type: 'array', items: { type: 'string' }, description: 'Specific fields to return (e.g., ["id", "subject", "status"])' }
           }
-        }
+        },
+        outputSchema: listSchema(ticketSchema)
+      },
+      {
+        name: 'happyfox_search_tickets',
+        title: 'Search tickets',
+        description: 'Search tickets with structured filters (assignee, priority, status, tags, contact, due date, SLA, custom fields). Builds the HappyFox query syntax for you. Status, contact group, custom field and date range filters are not part of that syntax: they are applied to the returned page only and are flagged in the result. Returns nextCursor when more tickets remain.',
+        handler: 'searchTickets',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            assignee: { type: 'array', items: { type: 'string' }, description: 'Assigned staff emails or usernames (exact, case-sensitive). Use "none" for unassigned or "any" for assigned tickets.' },
+            priority: { type: 'array', items: { type: 'string' }, description: 'Priority names (e.g. ["High", "Critical"])' },
+            status: { type: 'array', items: { type: 'string' }, description: 'Status names (e.g. ["New", "In Progress"], applied client-side)' },
+            tag: { type: 'array', items: { type: 'string' }, description: 'Tags (case-sensitive)' },
+            contact: { type: 'array', items: { type: 'string' }, description: 'Contact names, emails or phone numbers' },
+            contact_group: { type: 'array', items: { type: 'string' }, description: 'Contact group names of the contact who raised the ticket. Use "none" or "any" to match contacts without or with a group (applied client-side).' },
+            duedate: { type: 'string', enum: ['today', 'yesterday', 'tomorrow', 'overdue', 'next_7_days'], description: 'Due date filter' },
+            unresponded: { type: 'boolean', description: 'Only tickets without a staff response (true) or with one (false)' },
+            breached: { type: 'boolean', description: 'Only tickets that have (true) or have not (false) breached an SLA' },
+            has_attachments: { type: 'boolean', description: 'Only tickets with (true) or without (false) attachments' },
+            custom_fields: { type: 'object', description: 'Custom field filters keyed by field label. Dropdown and multiple-option fields take option labels (a list matches any of them). Applied client-side.' },
+            created_from: { type: 'string', description: 'Created on or after this date (yyyy-mm-dd, applied client-side)' },
+            created_to: { type: 'string', description: 'Created on or before this date (yyyy-mm-dd, applied client-side)' },
+            updated_from: { type: 'string', description: 'Last updated on or after this date (yyyy-mm-dd, applied client-side)' },
+            updated_to: { type: 'string', description: 'Last updated on or before this date (yyyy-mm-dd, applied client-side)' },
+            category: { type: ['number', 'string'], description: 'Category ID or name' },
+            pending_only: { type: 'boolean', description: 'Only tickets with a pending status behavior (default: all tickets)' },
+            sort_by: { type: 'string', description: 'Sort field' },
+            ...paginationProperties
+          }
+        },
+        outputSchema: searchResultSchema
       },
       {
         name: 'happyfox_get_ticket',
+        title: 'Get ticket',
         description: 'Get ticket details by ID',
         handler: 'getTicket',
+        annotations: { readOnlyHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            show_cf_changes: { type: 'boolean', description: 'Include custom field change history in response' }
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            show_cf_changes: { type: 'boolean', description: 'Include custom field change history in response' },
+            custom_fields_by_label: { type: 'boolean', description: 'Return ticket and contact custom_fields as an object keyed by field label instead of a list' }
           },
           required: ['ticket_id']
+        },
+        outputSchema: ticketSchema
+      },
+      {
+        name: 'happyfox_get_ticket_attachment',
+        title: 'Get ticket attachment',
+        description: 'Download a ticket attachment as an embedded resource (text files are decoded to text, max 5 MB)',
+        handler: 'getTicketAttachment',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            attachment_id: { type: ['number', 'string'], description: 'Attachment ID (from updates[].message.attachments in happyfox_get_ticket)' }
+          },
+          required: ['ticket_id', 'attachment_id']
         }
       },
       {
         name: 'happyfox_update_ticket_tags',
+        title: 'Update ticket tags',
         description: 'Add or remove tags from a ticket',
         handler: 'updateTicketTags',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            staff_id: { type: 'number', description: 'Staff ID performing the update' },
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            staff_id: { type: ['number', 'string'], description: 'Staff ID, name or email performing the update' },
             add: { type: 'array', items: { type: 'string' }, description: 'Tags to add' },
             remove: { type: 'array', items: { type: 'string' }, description: 'Tags to remove' }
           },
@@ -76,76 +189,88 @@ export class TicketTools {
       },
       {
         name: 'happyfox_update_ticket_custom_fields',
+        title: 'Update ticket custom fields',
         description: 'Update custom field values on a ticket',
         handler: 'updateTicketCustomFields',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            staff: { type: 'number', description: 'Staff ID performing the update' },
-            custom_fields: { type: 'object', description: 'Custom field values (t-cf-{id}: value)' }
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            staff: { type: ['number', 'string'], description: 'Staff ID, name or email performing the update' },
+            custom_fields: { type: 'object', description: 'Custom field values keyed by field label (e.g. "Product Version") or t-cf-{id}. Dropdown fields take a choice ID or label, multiple-option fields a list of them, dates use yyyy-mm-dd' }
           },
           required: ['ticket_id', 'custom_fields']
         }
       },
       {
         name: 'happyfox_move_ticket_category',
+        title: 'Move ticket to category',
         description: 'Move a ticket to a different category',
         handler: 'moveTicketCategory',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            staff_id: { type: 'number', description: 'Staff ID performing the move. Optional - defaults to authenticated user.' },
-            target_category_id: { type: 'string', description: 'Target category ID' }
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            staff_id: { type: ['number', 'string'], description: 'Staff ID, name or email performing the move. Optional - defaults to authenticated user.' },
+            target_category_id: { type: ['number', 'string'], description: 'Target category ID or name' }
           },
           required: ['ticket_id', 'target_category_id']
         }
       },
       {
         name: 'happyfox_add_staff_reply',
+        title: 'Add staff reply',
         description: 'Add a staff reply to a ticket (visible to contact)',
         handler: 'addStaffReply',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            staff_id: { type: 'number', description: 'Staff/Agent ID making the reply. Optional - defaults to authenticated user.' },
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            staff_id: { type: ['number', 'string'], description: 'Staff/Agent ID, name or email making the reply. Optional - defaults to authenticated user.' },
             text: { type: 'string', description: 'Reply text (HTML supported)' },
             cc: { type: 'array', items: { type: 'string' }, description: 'CC email addresses' },
             bcc: { type: 'array', items: { type: 'string' }, description: 'BCC email addresses' },
-            status: { type: 'string', description: 'Update ticket status ID' },
-            priority: { type: 'string', description: 'Update ticket priority ID' },
-            assignee: { type: 'number', description: 'Reassign ticket to this Staff/Agent ID' }
+            status: { type: ['number', 'string'], description: 'Update ticket status (ID or name)' },
+            priority: { type: ['number', 'string'], description: 'Update ticket priority (ID or name)' },
+            assignee: { type: ['number', 'string'], description: 'Reassign ticket to this Staff/Agent (ID, name or email)' },
+            attachments: attachmentsSchema
           },
           required: ['ticket_id', 'text']
         }
       },
       {
         name: 'happyfox_add_private_note',
+        title: 'Add private note',
         description: 'Add a private note to a ticket (visible only to staff)',
         handler: 'addPrivateNote',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            staff_id: { type: 'number', description: 'Staff/Agent ID making the note. Optional - defaults to authenticated user.' },
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            staff_id: { type: ['number', 'string'], description: 'Staff/Agent ID, name or email making the note. Optional - defaults to authenticated user.' },
             text: { type: 'string', description: 'Note text (HTML supported)' },
-            status: { type: 'string', description: 'Update ticket status ID' },
-            priority: { type: 'string', description: 'Update ticket priority ID' }
+            status: { type: ['number', 'string'], description: 'Update ticket status (ID or name)' },
+            priority: { type: ['number', 'string'], description: 'Update ticket priority (ID or name)' },
+            attachments: attachmentsSchema
           },
           required: ['ticket_id', 'text']
         }
       },
       {
         name: 'happyfox_forward_ticket',
+        title: 'Forward ticket',
         description: 'Forward ticket to external email',
         handler: 'forwardTicket',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            staff_id: { type: 'number', description: 'Staff/Agent ID forwarding the ticket. Optional - defaults to authenticated user.' },
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            staff_id: { type: ['number', 'string'], description: 'Staff/Agent ID, name or email forwarding the ticket. Optional - defaults to authenticated user.' },
             to: { type: 'array', items: { type: 'string' }, description: 'Forward to email addresses' },
             subject: { type: 'string', description: 'Email subject (required)' },
             message: { type: 'string', description: 'Email body (HTML supported)' }
@@ -155,63 +280,74 @@ export class TicketTools {
       },
       {
         name: 'happyfox_delete_ticket',
+        title: 'Delete ticket',
         description: 'Delete a ticket (permanent)',
         handler: 'deleteTicket',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            staff_id: { type: 'number', description: 'Staff/Agent ID performing the deletion. Optional - defaults to authenticated user.' }
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            staff_id: { type: ['number', 'string'], description: 'Staff/Agent ID, name or email performing the deletion. Optional - defaults to authenticated user.' }
           },
           required: ['ticket_id']
         }
       },
       {
         name: 'happyfox_add_contact_reply',
+        title: 'Add contact reply',
         description: 'Add a contact/user reply to a ticket (simulates customer response)',
         handler: 'addContactReply',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
             user: { type: 'number', description: 'Contact/user ID making the reply' },
             text: { type: 'string', description: 'Reply text (HTML supported)' },
             cc: { type: 'array', items: { type: 'string' }, description: 'CC email addresses' },
-            bcc: { type: 'array', items: { type: 'string' }, description: 'BCC email addresses' }
+            bcc: { type: 'array', items: { type: 'string' }, description: 'BCC email addresses' },
+            attachments: attachmentsSchema
           },
           required: ['ticket_id', 'user', 'text']
         }
       },
       {
         name: 'happyfox_subscribe_to_ticket',
+        title: 'Subscribe to ticket',
         description: 'Subscribe an agent to receive notifications for a ticket',
         handler: 'subscribeToTicket',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            staff_id: { type: 'number', description: 'Staff/Agent ID to subscribe. Optional - defaults to authenticated user.' }
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            staff_id: { type: ['number', 'string'], description: 'Staff/Agent ID, name or email to subscribe. Optional - defaults to authenticated user.' }
           },
           required: ['ticket_id']
         }
       },
       {
         name: 'happyfox_unsubscribe_from_ticket',
+        title: 'Unsubscribe from ticket',
         description: 'Unsubscribe an agent from ticket notifications',
         handler: 'unsubscribeFromTicket',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
-            ticket_id: { type: 'string', description: 'Ticket ID' },
-            staff_id: { type: 'number', description: 'Staff/Agent ID to unsubscribe. Optional - defaults to authenticated user.' }
+            ticket_id: { type: ['number', 'string'], description: 'Ticket ID' },
+            staff_id: { type: ['number', 'string'], description: 'Staff/Agent ID, name or email to unsubscribe. Optional - defaults to authenticated user.' }
           },
           required: ['ticket_id']
         }
       },
       {
         name: 'happyfox_create_tickets_bulk',
-        description: 'Create multiple tickets in a single request (max 100 tickets)',
+        title: 'Create tickets in bulk',
+        description: 'Create multiple tickets in a single request (max 100 tickets). Sends no intermediate progress notifications.',
         handler: 'createTicketsBulk',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
         inputSchema: {
           type: 'object',
           properties: {
@@ -221,18 +357,18 @@ export class TicketTools {
               items: {
                 type: 'object',
                 properties: {
-                  category: { type: 'string', description: 'Category ID' },
+                  category: { type: ['number', 'string'], description: 'Category ID or name' },
                   subject: { type: 'string', description: 'Ticket subject' },
                   text: { type: 'string', description: 'Ticket message text' },
                   email: { type: 'string', description: 'Contact email address' },
                   name: { type: 'string', description: 'Contact name' },
                   phone: { type: 'string', description: 'Contact phone number' },
-                  priority: { type: 'string', description: 'Priority ID' },
-                  assignee: { type: 'string', description: 'Staff ID to assign to' },
+                  priority: { type: ['number', 'string'], description: 'Priority ID or name' },
+                  assignee: { type: ['number', 'string'], description: 'Staff ID, name or email to assign to' },
                   tags: { type: 'array', items: { type: 'string' }, description: 'Tags to add' },
                   cc: { type: 'array', items: { type: 'string' }, description: 'CC email addresses' },
                   bcc: { type: 'array', items: { type: 'string' }, description: 'BCC email addresses' },
-                  custom_fields: { type: 'object', description: 'Custom field values (t-cf-{id}: value)' }
+                  custom_fields: { type: 'object', description: 'Custom field values keyed by field label (e.g. "Product Version") or t-cf-{id} or c-cf-{id}. Dropdown fields take a choice ID or label, multiple-option fields a list of them, dates use yyyy-mm-dd' }
                 },
                 required: ['category', 'subject', 'text', 'email', 'name']
               },
@@ -241,54 +377,141 @@ export class TicketTools {
           },
           required: ['tickets']
         }
+      },
+      {
+        name: 'happyfox_list_ticket_custom_field_choices',
+        title: 'List ticket custom field choices',
+        description: 'List the choices of a dropdown or multiple-choice ticket custom field',
+        handler: 'listTicketCustomFieldChoices',
+        annotations: { readOnlyHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            field_id: { type: 'number', description: 'Ticket custom field ID (use happyfox://ticket-custom-fields resource to find valid IDs)' }
+          },
+          required: ['field_id']
+        }
+      },
+      {
+        name: 'happyfox_add_ticket_custom_field_choices',
+        title: 'Add ticket custom field choices',
+        description: 'Add choices to a dropdown or multiple-choice ticket custom field. Choices that already exist (case-insensitive) are skipped.',
+        handler: 'addTicketCustomFieldChoices',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            field_id: { type: 'number', description: 'Ticket custom field ID' },
+            choices: { type: 'array', items: { type: 'string' }, description: 'Choice labels to add' }
+          },
+          required: ['field_id', 'choices']
+        }
+      },
+      {
+        name: 'happyfox_rename_ticket_custom_field_choice',
+        title: 'Rename ticket custom field choice',
+        description: 'Rename a choice of a ticket custom field. Tickets using the choice keep it.',
+        handler: 'renameTicketCustomFieldChoice',
+        annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            field_id: { type: 'number', description: 'Ticket custom field ID' },
+            choice_id: { type: 'number', description: 'Choice ID to rename' },
+            text: { type: 'string', description: 'New choice label' }
+          },
+          required: ['field_id', 'choice_id', 'text']
+        }
+      },
+      {
+        name: 'happyfox_retire_ticket_custom_field_choices',
+        title: 'Retire ticket custom field choices',
+        description: 'Permanently remove choices from a ticket custom field',
+        handler: 'retireTicketCustomFieldChoices',
+        annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+        inputSchema: {
+          type: 'object',
+          properties: {
+            field_id: { type: 'number', description: 'Ticket custom field ID' },
+            choice_ids: { type: 'array', items: { type: 'number' }, description: 'Choice IDs to remove' }
+          },
+          required: ['field_id', 'choice_ids']
+        }
       }
     ];
   }
 
-  async createTicket(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async createTicket(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new TicketEndpoints(client);
+    const resolvedArgs = await this.resolveNames(client, args);
+    return await endpoints.createTicket(resolvedArgs);
+  }
+
+  async listTickets(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new TicketEndpoints(client);
+    const resolvedArgs = await this.resolveNames(client, args);
+    return await paginate(resolvedArgs, (page, size) => endpoints.listTickets({ ...resolvedArgs, page, size }), context.progress);
+  }
+
+  async searchTickets(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
-    return await endpoints.createTicket(args);
+    const { category } = await this.resolveNames(client, { category: args.category });
+    return await paginate(args, (page, size) => endpoints.searchTickets({ ...args, category, page, size }), context.progress);
   }
 
-  async listTickets(args: any, auth: HappyFoxAuth): Promise<any> {
-    const client = new HappyFoxClient(auth);
+  async getTicket(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { ticket_id, show_cf_changes, custom_fields_by_label } = args;
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
-    return await endpoints.listTickets(args);
+    const ticket = await endpoints.getTicket(ticket_id, { show_cf_changes });
+    if (!custom_fields_by_label) return ticket;
+
+    return {
+      ...ticket,
+      custom_fields: customFieldsByLabel(ticket.custom_fields),
+      ...(ticket.user && { user: { ...ticket.user, custom_fields: customFieldsByLabel(ticket.user.custom_fields) } })
+    };
   }
 
-  async getTicket(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, show_cf_changes } = args;
-    const client = new HappyFoxClient(auth);
+  async getTicketAttachment(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<ToolContentResult> {
+    const { ticket_id, attachment_id } = args;
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
-    return await endpoints.getTicket(ticket_id, { show_cf_changes });
+    const attachment = await endpoints.getTicketAttachment(ticket_id, attachment_id);
+    const uri = `happyfox://ticket/${ticket_id}/attachments/${attachment_id}`;
+    return new ToolContentResult([
+      { type: 'resource', resource: toResourceContent(uri, attachment) }
+    ]);
   }
 
-  async updateTicketTags(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, staff_id, add, remove } = args;
-    const client = new HappyFoxClient(auth);
+  async updateTicketTags(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const { ticket_id, staff_id, add, remove } = await this.resolveNames(client, args);
     return await endpoints.updateTags(ticket_id, { add, remove, staff_id });
   }
 
-  async updateTicketCustomFields(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, staff, custom_fields } = args;
-    const client = new HappyFoxClient(auth);
+  async updateTicketCustomFields(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const { ticket_id, staff, custom_fields } = await this.resolveNames(client, args);
     return await endpoints.updateCustomFields(ticket_id, custom_fields, staff);
   }
 
-  async moveTicketCategory(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, staff_id, target_category_id } = args;
-    const client = new HappyFoxClient(auth);
+  async moveTicketCategory(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const { ticket_id, staff_id, target_category_id } = await this.resolveNames(client, args);
     return await endpoints.moveCategory(ticket_id, staff_id, target_category_id);
   }
 
-  async addStaffReply(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, staff_id, text, cc, bcc, status, priority, assignee } = args;
-    const client = new HappyFoxClient(auth);
+  async addStaffReply(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const { ticket_id, staff_id, text, cc, bcc, status, priority, assignee, attachments } = await this.resolveNames(client, args);
     return await endpoints.addStaffReply(ticket_id, {
       text,
       staff_id,
@@ -296,26 +519,28 @@ export class TicketTools {
       bcc,
       status,
       priority,
-      assignee
+      assignee,
+      attachments
     });
   }
 
-  async addPrivateNote(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, staff_id, text, status, priority } = args;
-    const client = new HappyFoxClient(auth);
+  async addPrivateNote(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const { ticket_id, staff_id, text, status, priority, attachments } = await this.resolveNames(client, args);
     return await endpoints.addPrivateNote(ticket_id, {
       text,
       staff_id,
       status,
-      priority
+      priority,
+      attachments
     });
   }
 
-  async forwardTicket(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, staff_id, to, subject, message } = args;
-    const client = new HappyFoxClient(auth);
+  async forwardTicket(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const { ticket_id, staff_id, to, subject, message } = await this.resolveNames(client, args);
     return await endpoints.forwardTicket(ticket_id, {
       to,
       subject,
@@ -324,38 +549,87 @@ export class TicketTools {
     });
   }
 
-  async deleteTicket(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, staff_id } = args;
-    const client = new HappyFoxClient(auth);
+  async deleteTicket(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const { ticket_id, staff_id } = await this.resolveNames(client, args);
     return await endpoints.deleteTicket(ticket_id, staff_id);
   }
 
-  async addContactReply(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, user, text, cc, bcc } = args;
-    const client = new HappyFoxClient(auth);
+  async addContactReply(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { ticket_id, user, text, cc, bcc, attachments } = args;
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
-    return await endpoints.addContactReply(ticket_id, { text, user, cc, bcc });
+    return await endpoints.addContactReply(ticket_id, { text, user, cc, bcc, attachments });
   }
 
-  async subscribeToTicket(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, staff_id } = args;
-    const client = new HappyFoxClient(auth);
+  async subscribeToTicket(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const { ticket_id, staff_id } = await this.resolveNames(client, args);
     return await endpoints.subscribeToTicket(ticket_id, staff_id);
   }
 
-  async unsubscribeFromTicket(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { ticket_id, staff_id } = args;
-    const client = new HappyFoxClient(auth);
+  async unsubscribeFromTicket(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const { ticket_id, staff_id } = await this.resolveNames(client, args);
     return await endpoints.unsubscribeFromTicket(ticket_id, staff_id);
   }
 
-  async createTicketsBulk(args: any, auth: HappyFoxAuth): Promise<any> {
-    const { tickets } = args;
-    const client = new HappyFoxClient(auth);
+  // No progress is reported: HappyFox creates the whole list in one request, and splitting it into
+  // batches would leave some tickets created when a later batch fails
+  async createTicketsBulk(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
     const endpoints = new TicketEndpoints(client);
+    const tickets = await Promise.all(
+      (args.tickets || []).map((ticket: any) => this.resolveNames(client, ticket))
+    );
     return await endpoints.createTicketsBulk(tickets);
   }
+
+  async listTicketCustomFieldChoices(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new TicketEndpoints(client);
+    return await endpoints.listCustomFieldChoices(args.field_id);
+  }
+
+  async addTicketCustomFieldChoices(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { field_id, choices } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new TicketEndpoints(client);
+    const result = await endpoints.addCustomFieldChoices(field_id, choices);
+    if (result.updated) {
+      await this.invalidateCustomFieldCache(auth);
+    }
+    return result;
+  }
+
+  async renameTicketCustomFieldChoice(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { field_id, choice_id, text } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new TicketEndpoints(client);
+    const result = await endpoints.renameCustomFieldChoice(field_id, choice_id, text);
+    await this.invalidateCustomFieldCache(auth);
+    return result;
+  }
+
+  async retireTicketCustomFieldChoices(args: any, auth: HappyFoxAuth, context: ToolContext = {}): Promise<any> {
+    const { field_id, choice_ids } = args;
+    const client = new HappyFoxClient(auth, context.signal);
+    const endpoints = new TicketEndpoints(client);
+    const result = await endpoints.retireCustomFieldChoices(field_id, choice_ids);
+    await this.invalidateCustomFieldCache(auth);
+    return result;
+  }
+
+  // Accept names (and staff emails) wherever a category, status, priority or staff ID is expected
+  private resolveNames(client: HappyFoxClient, args: any): Promise<any> {
+    return new NameResolver(client).resolveArgs(args, REFERENCE_PARAMS);
+  }
+
+  // Choice changes make the cached happyfox://ticket-custom-fields resource stale
+  private async invalidateCustomFieldCache(auth: HappyFoxAuth): Promise<void> {
+    await referenceCache.invalidate(auth.accountName, auth.region, 'ticket-custom-fields');
+  }
 }
@@ -14,7 +14,10 @@ import { HappyFoxScope } from '../types';
 export const TOOL_SCOPE_MAP: Record<string, HappyFoxScope[]> = {
   // Read operations (happyfox:read)
   'happyfox_list_tickets': ['happyfox:read'],
+  'happyfox_search_tickets': ['happyfox:read'],
   'happyfox_get_ticket': ['happyfox:read'],
+  'happyfox_get_ticket_attachment': ['happyfox:read'],
+  'happyfox_list_ticket_custom_field_choices': ['happyfox:read'],
   'happyfox_list_contacts': ['happyfox:read'],
   'happyfox_get_contact': ['happyfox:read'],
   'happyfox_get_contact_group': ['happyfox:read'],
@@ -22,6 +25,23 @@ export const TOOL_SCOPE_MAP: Record<string, HappyFoxScope[]> = {
   'happyfox_get_asset': ['happyfox:read'],
   'happyfox_list_asset_custom_fields': ['happyfox:read'],
   'happyfox_get_asset_custom_field': ['happyfox:read'],
+  'happyfox_list_reports': ['happyfox:read'],
+  'happyfox_get_report_summary': ['happyfox:read'],
+  'happyfox_get_report_tabular_data': ['happyfox:read'],
+  'happyfox_get_report_response_stats': ['happyfox:read'],
+  'happyfox_get_report_staff_performance': ['happyfox:read'],
+  'happyfox_get_report_staff_activity': ['happyfox:read'],
+  'happyfox_get_report_contact_activity': ['happyfox:read'],
+  'happyfox_get_report_sla_performance': ['happyfox:read'],
+  'happyfox_list_kb_articles': ['happyfox:read'],
+  'happyfox_get_kb_article': ['happyfox:read'],
+  'happyfox_search_kb_articles': ['happyfox:read'],
+  'happyfox_list_kb_sections': ['happyfox:read'],
+
+  // Internal knowledge base (happyfox:kb-internal)
+  'happyfox_list_kb_internal_articles': ['happyfox:kb-internal'],
+  'happyfox_get_kb_internal_article': ['happyfox:kb-internal'],
+  'happyfox_search_kb_internal_articles': ['happyfox:kb-internal'],
 
   // Write operations (happyfox:write)
   'happyfox_create_ticket': ['happyfox:write'],
@@ -47,6 +67,9 @@ export const TOOL_SCOPE_MAP: Record<string, HappyFoxScope[]> = {
   'happyfox_delete_ticket': ['happyfox:admin'],
   'happyfox_move_ticket_category': ['happyfox:admin'],
   'happyfox_delete_asset': ['happyfox:admin'],
+  'happyfox_add_ticket_custom_field_choices': ['happyfox:admin'],
+  'happyfox_rename_ticket_custom_field_choice': ['happyfox:admin'],
+  'happyfox_retire_ticket_custom_field_choices': ['happyfox:admin'],
 };
 
 /**
@@ -92,6 +115,19 @@ export function hasRequiredScopes(
   return requiredScopes.some(scope => grantedScopes.includes(scope));
 }
 
+/**
+ * Get the additional scope required to read a resource, beyond happyfox:read
+ *
+ * @param uri - Resource URI
+ * @returns Required scope, or undefined if happyfox:read is sufficient
+ */
+export function getResourceScope(uri: string): HappyFoxScope | undefined {
+  if (uri.startsWith('happyfox://kb/internal-articles/')) {
+    return 'happyfox:kb-internal';
+  }
+  return undefined;
+}
+
 /**
  * Get the required scopes for a tool
  *
@@ -53,13 +53,14 @@ export interface StaffValidationResult {
 }
 
 // OAuth scope type
-export type HappyFoxScope = 'happyfox:read' | 'happyfox:write' | 'happyfox:admin';
+export type HappyFoxScope = 'happyfox:read' | 'happyfox:write' | 'happyfox:admin' | 'happyfox:kb-internal';
 
 // Scope descriptions for consent page
 export const SCOPE_DESCRIPTIONS: Record<HappyFoxScope, string> = {
   'happyfox:read': 'Read tickets, contacts, and assets',
   'happyfox:write': 'Create and update tickets, add replies',
-  'happyfox:admin': 'Delete tickets, manage categories',
+  'happyfox:admin': 'Delete tickets, manage categories and custom field choices',
+  'happyfox:kb-internal': 'Read internal (staff-only) knowledge base articles',
 };
 
 // All available scopes
@@ -67,6 +68,7 @@ export const AVAILABLE_SCOPES: HappyFoxScope[] = [
   'happyfox:read',
   'happyfox:write',
   'happyfox:admin',
+  'happyfox:kb-internal',
 ];
 
 // Default scope when none specified
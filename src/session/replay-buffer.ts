@@ -0,0 +1,28 @@
+/**
+ * Replay of resumable SSE streams (Last-Event-ID)
+ *
+ * Every event of a streamed POST response is recorded in the session's hub (see SessionHub),
+ * keyed by stream and sequence. A client that lost the connection reconnects with GET and
+ * Last-Event-ID, and gets the events it missed, then the rest of the stream as the request
+ * keeps running: the hub pushes newly recorded events to it instead of being polled.
+ */
+
+// Stored event: the start marker (sequence 0), a JSON-RPC message, or the end marker
+export type ReplayEntry = { start: true } | { message: unknown } | { end: true };
+
+// Where a resumable stream records its events (the session hub stub)
+export interface ReplayRecorder {
+  record(streamId: string, sequence: number, entry: ReplayEntry): Promise<void>;
+}
+
+/**
+ * Event IDs are "{streamId}-{sequence}", identifying the stream to resume and the position in it
+ */
+export function formatEventId(streamId: string, sequence: number): string {
+  return `${streamId}-${sequence}`;
+}
+
+export function parseEventId(eventId: string | null): { streamId: string; sequence: number } | null {
+  const match = eventId?.match(/^([0-9a-f-]{36})-(\d{1,9})$/);
+  return match ? { streamId: match[1], sequence: Number(match[2]) } : null;
+}
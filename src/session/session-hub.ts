@@ -0,0 +1,471 @@
+/**
+ * Session hub: a Durable Object per MCP session holding the state its requests share across
+ * isolates: resource subscriptions, the GET SSE stream(s) that carry notifications/resources/updated,
+ * the client's answers to server-initiated requests (elicitation/create), the running requests
+ * the client may cancel (notifications/cancelled) and the recorded events of streamed responses
+ *
+ * Changes arrive from HappyFox webhooks (through the account's SubscriptionDirectory) when
+ * configured; as a fallback, while a stream is open subscribed resources are re-read on an
+ * alarm and compared with the content last seen. Reference resources are read through the
+ * reference cache, so polling notices their changes once the cached copy expires.
+ * Only the OAuth token ID is stored; credentials come from the credential store on each poll.
+ *
+ * The server asks the client on the SSE stream of one POST and the answer arrives in another,
+ * possibly on another isolate; both reach this object, which hands the answer over in memory.
+ * Cancellation works the same way: a running request watches for its cancel here.
+ *
+ * Streamed responses record each event here (see SSEStream) for a few minutes. A client resuming
+ * with Last-Event-ID gets the events it missed from storage, then follows the stream: new events
+ * are pushed to it as they are recorded.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { Env, HappyFoxAuth, MCPResourceContent, ClientResponse } from '../types';
+import { ResourceRegistry } from '../mcp/resources/registry';
+import { SSEStream } from '../mcp/sse-stream';
+import { ReplayEntry, formatEventId, parseEventId } from './replay-buffer';
+import { createCredentialStore } from '../oauth/services/credential-store';
+import type { SubscriptionDirectory } from './subscription-directory';
+
+// How often subscribed resources are re-read while a client is listening
+const POLL_INTERVAL_MS = 60_000;
+
+// How long an answer that arrived before its waiter is kept
+const EARLY_RESPONSE_TTL_MS = 60_000;
+
+// How long the events of a streamed response are kept after the last one was recorded
+const REPLAY_TTL_MS = 5 * 60_000;
+
+// Storage keys
+const TOKEN_ID_KEY = 'tokenId';
+const ACCOUNT_KEY = 'account';
+const SUBSCRIPTIONS_KEY = 'subscriptions';
+const REPLAY_EXPIRY_KEY = 'replayExpiry';
+const REPLAY_KEY_PREFIX = 'replay:';
+const EXPIRES_AT_KEY = 'expiresAt';
+
+// Storage deletes take at most 128 keys
+const MAX_DELETE_KEYS = 128;
+
+// How a running request ended, as reported to its watcher
+export interface RequestOutcome {
+  cancelled: boolean;
+  reason?: string;
+}
+
+// Subscribed URI -> fingerprint of its content when last read; empty when a webhook already
+// announced a change and the next poll should only record the new content
+type Subscriptions = Record<string, string>;
+
+// Stream ID -> time its recorded events expire
+type ReplayExpiries = Record<string, number>;
+
+export class SessionHub extends DurableObject<Env> {
+  private streams = new Set<SSEStream>();
+  private waiters = new Map<string, (response: ClientResponse | null) => void>();
+  private earlyResponses = new Map<string, { response: ClientResponse; receivedAt: number }>();
+  private running = new Map<string, (outcome: RequestOutcome) => void>();
+  // Resumed streams by the stream ID they follow
+  private followers = new Map<string, Set<SSEStream>>();
+
+  /**
+   * Subscribe to a resource; content is its current state, read by the subscribing request,
+   * and account the directory key of the session's HappyFox account (see getAccountKey)
+   */
+  async subscribe(tokenId: string, account: string, content: MCPResourceContent, expiresAt: number): Promise<void> {
+    const subscriptions = await this.getSubscriptions();
+    subscriptions[content.uri] = await fingerprint(content);
+    await this.ctx.storage.put<unknown>({
+      [TOKEN_ID_KEY]: tokenId,
+      [ACCOUNT_KEY]: account,
+      [SUBSCRIPTIONS_KEY]: subscriptions,
+      [EXPIRES_AT_KEY]: expiresAt
+    });
+    await this.getDirectory(account)?.add(content.uri, this.ctx.id.toString(), expiresAt);
+    await this.scheduleAlarm();
+  }
+
+  async unsubscribe(uri: string): Promise<void> {
+    const subscriptions = await this.getSubscriptions();
+    delete subscriptions[uri];
+    await this.ctx.storage.put(SUBSCRIPTIONS_KEY, subscriptions);
+    const account = await this.ctx.storage.get<string>(ACCOUNT_KEY);
+    await this.getDirectory(account)?.remove(uri, this.ctx.id.toString());
+  }
+
+  /**
+   * A webhook reported a change to a resource: notify listening clients right away
+   * With no stream open the stored fingerprint is kept, so the next poll still notices the change.
+   * Returns whether the session is still subscribed to the resource
+   */
+  async resourceUpdated(uri: string): Promise<boolean> {
+    const subscriptions = await this.getSubscriptions();
+    if (!(uri in subscriptions)) {
+      return false;
+    }
+    if (this.streams.size === 0) {
+      return true;
+    }
+
+    await this.broadcast(stream => stream.send({
+      jsonrpc: '2.0',
+      method: 'notifications/resources/updated',
+      params: { uri }
+    }));
+    subscriptions[uri] = '';
+    await this.ctx.storage.put(SUBSCRIPTIONS_KEY, subscriptions);
+    return true;
+  }
+
+  /**
+   * Record an event of a resumable stream and pass it on to the clients following that stream
+   */
+  async record(streamId: string, sequence: number, entry: ReplayEntry): Promise<void> {
+    const expiries = await this.getReplayExpiries();
+    expiries[streamId] = Date.now() + REPLAY_TTL_MS;
+    await this.ctx.storage.put<unknown>({
+      [replayKey(streamId, sequence)]: entry,
+      [REPLAY_EXPIRY_KEY]: expiries
+    });
+
+    const followers = this.followers.get(streamId);
+    if (followers && 'message' in entry) {
+      await this.writeAll(followers, stream => stream.sendEvent(entry.message, formatEventId(streamId, sequence)));
+    } else if (followers && 'end' in entry) {
+      this.followers.delete(streamId);
+      await this.writeAll(followers, stream => stream.close());
+    }
+    await this.scheduleAlarm();
+  }
+
+  /**
+   * Wait for the client's answer to a server-initiated request, or null after timeoutMs
+   * The request is sent by the caller; answers that arrive first are picked up here
+   */
+  async waitForResponse(requestId: string | number, timeoutMs: number): Promise<ClientResponse | null> {
+    const key = requestKey(requestId);
+    const early = this.earlyResponses.get(key);
+    if (early) {
+      this.earlyResponses.delete(key);
+      return early.response;
+    }
+
+    return await new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.waiters.delete(key);
+        resolve(null);
+      }, timeoutMs);
+      this.waiters.set(key, response => {
+        clearTimeout(timer);
+        this.waiters.delete(key);
+        resolve(response);
+      });
+    });
+  }
+
+  /**
+   * Hand a client's answer to the request waiting for it
+   */
+  async resolveResponse(response: ClientResponse): Promise<void> {
+    const key = requestKey(response.id);
+    const waiter = this.waiters.get(key);
+    if (waiter) {
+      waiter(response);
+      return;
+    }
+
+    // The answer overtook its waiter (or answers nothing); keep it briefly
+    const now = Date.now();
+    for (const [pendingKey, { receivedAt }] of this.earlyResponses) {
+      if (now - receivedAt > EARLY_RESPONSE_TTL_MS) this.earlyResponses.delete(pendingKey);
+    }
+    this.earlyResponses.set(key, { response, receivedAt: now });
+  }
+
+  /**
+   * Watch a running request: resolves with cancelled true when the client cancels it,
+   * or false once finishRequest reports it done. The caller aborts its work on cancellation
+   */
+  async watchCancellation(requestId: string | number): Promise<RequestOutcome> {
+    const key = requestKey(requestId);
+    // A reused request ID replaces the earlier watch
+    this.running.get(key)?.({ cancelled: false });
+    return await new Promise(resolve => {
+      this.running.set(key, outcome => {
+        this.running.delete(key);
+        resolve(outcome);
+      });
+    });
+  }
+
+  async finishRequest(requestId: string | number): Promise<void> {
+    this.running.get(requestKey(requestId))?.({ cancelled: false });
+  }
+
+  /**
+   * Cancel a running request; returns false when it is unknown or already finished
+   */
+  async cancel(requestId: string | number, reason?: string): Promise<boolean> {
+    const end = this.running.get(requestKey(requestId));
+    end?.({ cancelled: true, ...(reason !== undefined && { reason }) });
+    return end !== undefined;
+  }
+
+  /**
+   * End the session: drop its subscriptions, close its streams, stop waiting for answers
+   * and cancel its running requests
+   */
+  async terminate(): Promise<void> {
+    const account = await this.ctx.storage.get<string>(ACCOUNT_KEY);
+    await this.getDirectory(account)?.removeHub(this.ctx.id.toString());
+    await this.ctx.storage.deleteAll();
+    for (const waiter of [...this.waiters.values()]) {
+      waiter(null);
+    }
+    for (const end of [...this.running.values()]) {
+      end({ cancelled: true, reason: 'Session terminated' });
+    }
+    this.earlyResponses.clear();
+    await this.broadcast(stream => stream.close());
+    this.streams.clear();
+    for (const followers of this.followers.values()) {
+      await this.writeAll(followers, stream => stream.close());
+    }
+    this.followers.clear();
+  }
+
+  /**
+   * Open the session's GET stream, or with Last-Event-ID resume a streamed response: the events
+   * after that ID are replayed, then the stream is followed until it ends (404 for unknown IDs).
+   * Request headers and session are validated by the Worker
+   */
+  async fetch(request: Request): Promise<Response> {
+    const stream = new SSEStream();
+    const lastEventId = request.headers.get('Last-Event-ID');
+    if (lastEventId === null) {
+      this.streams.add(stream);
+    } else if (!(await this.resume(stream, lastEventId))) {
+      return new Response(null, { status: 404 });
+    }
+    await this.scheduleAlarm();
+
+    return new Response(stream.readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
+      }
+    });
+  }
+
+  /**
+   * Keep open streams alive, drop expired recorded events and poll subscribed resources,
+   * announcing the ones whose content changed; the alarm repeats for as long as a stream is open,
+   * with or without subscriptions. The session ends when its token expires
+   */
+  async alarm(): Promise<void> {
+    const expiresAt = await this.ctx.storage.get<number>(EXPIRES_AT_KEY);
+    if (expiresAt !== undefined && expiresAt * 1000 <= Date.now()) {
+      await this.terminate();
+      return;
+    }
+
+    await this.broadcast(stream => stream.keepAlive());
+    for (const [streamId, followers] of this.followers) {
+      await this.writeAll(followers, stream => stream.keepAlive());
+      if (followers.size === 0) this.followers.delete(streamId);
+    }
+    try {
+      await this.pruneReplays();
+      await this.pollSubscriptions();
+    } finally {
+      await this.scheduleAlarm();
+    }
+  }
+
+  // Queue the events recorded after lastEventId on the stream and follow the rest; false when unknown
+  private async resume(stream: SSEStream, lastEventId: string): Promise<boolean> {
+    const position = parseEventId(lastEventId);
+    if (!position || (await this.ctx.storage.get(replayKey(position.streamId, position.sequence))) === undefined) {
+      return false;
+    }
+
+    const { streamId } = position;
+    const recorded = await this.ctx.storage.list<ReplayEntry>({
+      prefix: replayPrefix(streamId),
+      start: replayKey(streamId, position.sequence + 1)
+    });
+    // Writes are queued in call order, so replayed events go out before the ones recorded later;
+    // a failed write means the client left again, and the next event drops the follower
+    for (const [key, entry] of recorded) {
+      if ('end' in entry) {
+        stream.close().catch(() => {});
+        return true;
+      }
+      if ('message' in entry) {
+        stream.sendEvent(entry.message, formatEventId(streamId, Number(key.slice(replayPrefix(streamId).length)))).catch(() => {});
+      }
+    }
+
+    const followers = this.followers.get(streamId) ?? new Set<SSEStream>();
+    followers.add(stream);
+    this.followers.set(streamId, followers);
+    return true;
+  }
+
+  // Drop the events of expired streams, ending their followers
+  private async pruneReplays(): Promise<void> {
+    const expiries = await this.getReplayExpiries();
+    const now = Date.now();
+    const expired = Object.keys(expiries).filter(streamId => expiries[streamId] <= now);
+    if (expired.length === 0) {
+      return;
+    }
+
+    for (const streamId of expired) {
+      const keys = [...(await this.ctx.storage.list({ prefix: replayPrefix(streamId) })).keys()];
+      for (let start = 0; start < keys.length; start += MAX_DELETE_KEYS) {
+        await this.ctx.storage.delete(keys.slice(start, start + MAX_DELETE_KEYS));
+      }
+      delete expiries[streamId];
+
+      const followers = this.followers.get(streamId);
+      this.followers.delete(streamId);
+      if (followers) await this.writeAll(followers, stream => stream.close());
+    }
+    await this.ctx.storage.put(REPLAY_EXPIRY_KEY, expiries);
+  }
+
+  private async pollSubscriptions(): Promise<void> {
+    if (this.streams.size === 0) {
+      return;
+    }
+
+    const tokenId = await this.ctx.storage.get<string>(TOKEN_ID_KEY);
+    const subscriptions = await this.getSubscriptions();
+    if (!tokenId || Object.keys(subscriptions).length === 0) {
+      return;
+    }
+
+    const auth = await this.getAuth(tokenId);
+    if (!auth) {
+      // Authorization expired or revoked: nothing can be read for this session any more
+      await this.terminate();
+      return;
+    }
+
+    const registry = new ResourceRegistry();
+    const changed: Subscriptions = {};
+    for (const [uri, previous] of Object.entries(subscriptions)) {
+      try {
+        const current = await fingerprint(await registry.readResource(uri, auth));
+        if (current !== previous) {
+          changed[uri] = current;
+        }
+      } catch (error) {
+        // Keep the subscription; the resource may be readable again on the next poll
+        console.error(`Subscription poll failed for ${uri}:`, error);
+      }
+    }
+
+    // Re-read so unsubscribes made while polling are kept
+    const latest = await this.getSubscriptions();
+    for (const [uri, current] of Object.entries(changed)) {
+      if (!(uri in latest)) continue;
+      latest[uri] = current;
+      // An empty fingerprint means a webhook already announced this change
+      if (subscriptions[uri] === '') continue;
+      await this.broadcast(stream => stream.send({
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri }
+      }));
+    }
+    await this.ctx.storage.put(SUBSCRIPTIONS_KEY, latest);
+  }
+
+  private async getReplayExpiries(): Promise<ReplayExpiries> {
+    return (await this.ctx.storage.get<ReplayExpiries>(REPLAY_EXPIRY_KEY)) || {};
+  }
+
+  private async getSubscriptions(): Promise<Subscriptions> {
+    return (await this.ctx.storage.get<Subscriptions>(SUBSCRIPTIONS_KEY)) || {};
+  }
+
+  private getDirectory(account: string | undefined): DurableObjectStub<SubscriptionDirectory> | undefined {
+    const directory = this.env.SUBSCRIPTION_DIRECTORY;
+    return directory && account ? directory.get(directory.idFromName(account)) : undefined;
+  }
+
+  private async getAuth(tokenId: string): Promise<HappyFoxAuth | null> {
+    const credentialStore = createCredentialStore(this.env.OAUTH_KV, this.env.CREDENTIAL_ENCRYPTION_KEY);
+    const stored = await credentialStore.retrieve(tokenId);
+    if (!stored) {
+      return null;
+    }
+    return {
+      apiKey: stored.apiKey,
+      authCode: stored.authCode,
+      accountName: stored.accountName,
+      region: stored.region
+    };
+  }
+
+  // The alarm runs every POLL_INTERVAL_MS while a stream is open, and otherwise only when recorded
+  // events or the session expire; polling only runs while someone is listening, changes made
+  // meanwhile are caught on the next poll
+  private async scheduleAlarm(): Promise<void> {
+    const times = Object.values(await this.getReplayExpiries());
+    const expiresAt = await this.ctx.storage.get<number>(EXPIRES_AT_KEY);
+    if (expiresAt !== undefined) {
+      times.push(expiresAt * 1000);
+    }
+    if (this.streams.size > 0 || this.followers.size > 0) {
+      times.push(Date.now() + POLL_INTERVAL_MS);
+    }
+    if (times.length === 0) {
+      return;
+    }
+
+    const next = Math.min(...times);
+    const current = await this.ctx.storage.getAlarm();
+    if (current === null || next < current) {
+      await this.ctx.storage.setAlarm(next);
+    }
+  }
+
+  // Write to every open GET stream
+  private async broadcast(write: (stream: SSEStream) => Promise<void>): Promise<void> {
+    await this.writeAll(this.streams, write);
+  }
+
+  // Write to each stream of the set, dropping the ones the client has closed
+  private async writeAll(streams: Set<SSEStream>, write: (stream: SSEStream) => Promise<void>): Promise<void> {
+    for (const stream of [...streams]) {
+      try {
+        await write(stream);
+      } catch {
+        streams.delete(stream);
+      }
+    }
+  }
+}
+
+// Sequences are zero-padded so storage lists a stream's events in order
+function replayKey(streamId: string, sequence: number): string {
+  return `${replayPrefix(streamId)}${String(sequence).padStart(9, '0')}`;
+}
+
+function replayPrefix(streamId: string): string {
+  return `${REPLAY_KEY_PREFIX}${streamId}:`;
+}
+
+// Type-prefixed so request IDs 1 and "1" stay distinct
+function requestKey(requestId: string | number): string {
+  return `${typeof requestId}:${requestId}`;
+}
+
+// SHA-256 of the resource content, so stored state stays small
+async function fingerprint(content: MCPResourceContent): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content.text ?? content.blob ?? ''));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
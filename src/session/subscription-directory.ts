@@ -0,0 +1,95 @@
+/**
+ * Subscription directory: a Durable Object per HappyFox account mapping resource URIs to the
+ * session hubs subscribed to them, so webhook events can reach every interested session
+ * Each hub is listed until its session expires; hubs that expired or no longer hold the
+ * subscription are dropped when an event is published
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { Env } from '../types';
+
+// Storage key prefix: one entry per subscribed URI holding the subscribed hubs
+const URI_KEY_PREFIX = 'uri:';
+
+// Hub ID -> expiry of its session (seconds since epoch)
+type Hubs = Record<string, number>;
+
+/**
+ * Directory name for an account; region is included since account names are per region,
+ * and the name is lowercased since it is a (case-insensitive) subdomain
+ */
+export function getAccountKey(region: string, accountName: string): string {
+  return `${region}/${accountName.toLowerCase()}`;
+}
+
+export class SubscriptionDirectory extends DurableObject<Env> {
+  async add(uri: string, hubId: string, expiresAt: number): Promise<void> {
+    const hubs = await this.getHubs(uri);
+    if (hubs[hubId] !== expiresAt) {
+      await this.ctx.storage.put(URI_KEY_PREFIX + uri, { ...hubs, [hubId]: expiresAt });
+    }
+  }
+
+  async remove(uri: string, hubId: string): Promise<void> {
+    const hubs = await this.getHubs(uri);
+    delete hubs[hubId];
+    await this.setHubs(uri, hubs);
+  }
+
+  /**
+   * Forget a hub entirely (its session ended or lost its authorization)
+   */
+  async removeHub(hubId: string): Promise<void> {
+    const entries = await this.ctx.storage.list<Hubs>({ prefix: URI_KEY_PREFIX });
+    for (const [key, hubs] of entries) {
+      if (hubId in hubs) {
+        delete hubs[hubId];
+        await this.setHubs(key.slice(URI_KEY_PREFIX.length), hubs);
+      }
+    }
+  }
+
+  /**
+   * Tell every hub subscribed to one of the URIs that it changed; returns the number of hubs told
+   */
+  async publish(uris: string[]): Promise<number> {
+    const hub = this.env.SESSION_HUB;
+    const now = Math.floor(Date.now() / 1000);
+    let notified = 0;
+    for (const uri of uris) {
+      const hubs = await this.getHubs(uri);
+      const listed = Object.keys(hubs).length;
+      for (const [hubId, expiresAt] of Object.entries(hubs)) {
+        if (expiresAt <= now) {
+          delete hubs[hubId];
+          continue;
+        }
+        try {
+          if (await hub.get(hub.idFromString(hubId)).resourceUpdated(uri)) {
+            notified++;
+          } else {
+            delete hubs[hubId];
+          }
+        } catch (error) {
+          console.error(`Failed to notify session hub ${hubId} about ${uri}:`, error);
+        }
+      }
+      if (Object.keys(hubs).length < listed) {
+        await this.setHubs(uri, hubs);
+      }
+    }
+    return notified;
+  }
+
+  private async getHubs(uri: string): Promise<Hubs> {
+    return (await this.ctx.storage.get<Hubs>(URI_KEY_PREFIX + uri)) || {};
+  }
+
+  private async setHubs(uri: string, hubs: Hubs): Promise<void> {
+    if (Object.keys(hubs).length === 0) {
+      await this.ctx.storage.delete(URI_KEY_PREFIX + uri);
+    } else {
+      await this.ctx.storage.put(URI_KEY_PREFIX + uri, hubs);
+    }
+  }
+}
@@ -1,19 +1,30 @@
 /**
- * Stateless session token management for MCP 2025-11-25
- * Uses HMAC-SHA256 signed tokens with no server-side storage
+ * Stateless session token management for MCP Streamable HTTP
+ * Uses HMAC-SHA256 signed tokens; the only server-side state is a KV revocation list of
+ * terminated sessions, each kept until the token would have expired anyway
  */
 
-import { MCPSessionPayload, SessionValidationResult, MCP_PROTOCOL_VERSION } from '../types';
+import { MCPSessionPayload, SessionBinding, SessionValidationResult } from '../types';
+import { isSupportedProtocolVersion } from '../mcp/protocol-versions';
 
 const SESSION_TTL_SECONDS = 3600; // 1 hour
 const ALGORITHM = { name: 'HMAC', hash: 'SHA-256' };
 
+// KV key prefix for revoked session token IDs
+const REVOKED_KEY_PREFIX = 'revoked-session:';
+
+// KV requires at least 60 seconds
+const MIN_REVOCATION_TTL_SECONDS = 60;
+
 export class SessionTokenManager {
   private secretKey: CryptoKey | null = null;
   private secret: string;
+  private revocations?: KVNamespace;
 
-  constructor(secret: string) {
+  // Without a revocation KV namespace, tokens are valid until they expire
+  constructor(secret: string, revocations?: KVNamespace) {
     this.secret = secret;
+    this.revocations = revocations;
   }
 
   /**
@@ -36,14 +47,25 @@ export class SessionTokenManager {
   /**
    * Create a signed session token
    * Token format: base64url(payload).base64url(signature)
+   * Client capabilities are recorded so later requests know what the client can answer (e.g. elicitation,
+   * see getClientCapabilities); with a binding, the token only validates for the same OAuth grant
    */
-  async createToken(protocolVersion: string, capabilities: string[]): Promise<string> {
+  async createToken(
+    protocolVersion: string,
+    capabilities: string[],
+    clientCapabilities: string[] = [],
+    binding?: SessionBinding
+  ): Promise<string> {
     const now = Math.floor(Date.now() / 1000);
     const payload: MCPSessionPayload = {
       v: protocolVersion,
       iat: now,
       exp: now + SESSION_TTL_SECONDS,
       caps: capabilities.sort().join(','),
+      ...(clientCapabilities.length > 0 && { ccaps: [...clientCapabilities].sort().join(',') }),
+      jti: crypto.randomUUID(),
+      ...(binding && { sub: await this.grantHash(binding) }),
+      ...(binding?.clientInfo !== undefined && { cli: await this.clientHash(binding.clientInfo) }),
     };
 
     const payloadB64 = this.base64UrlEncode(JSON.stringify(payload));
@@ -55,8 +77,11 @@ export class SessionTokenManager {
   /**
    * Validate a session token
    * Returns validation result with payload or error
+   * With a binding, the token must have been created for the same OAuth grant ('mismatch' otherwise,
+   * also for tokens created without one; the payload is returned so the caller can log the session).
+   * clientInfo is only sent at initialize, so it is not compared
    */
-  async validateToken(token: string): Promise<SessionValidationResult> {
+  async validateToken(token: string, binding?: SessionBinding): Promise<SessionValidationResult> {
     if (!token) {
       return { valid: false, error: 'missing' };
     }
@@ -90,17 +115,60 @@ export class SessionTokenManager {
         return { valid: false, error: 'malformed' };
       }
 
-      // Validate protocol version matches current supported version
-      if (payload.v !== MCP_PROTOCOL_VERSION) {
+      // Validate the negotiated protocol version is still supported
+      if (!isSupportedProtocolVersion(payload.v)) {
         return { valid: false, error: 'invalid' };
       }
 
+      // Tokens without an ID cannot be revoked; their clients must start a new session
+      if (typeof payload.jti !== 'string' || !payload.jti) {
+        return { valid: false, error: 'invalid' };
+      }
+
+      if (binding && payload.sub !== await this.grantHash(binding)) {
+        return { valid: false, error: 'mismatch', payload };
+      }
+
+      if (this.revocations && await this.revocations.get(this.getRevokedKey(payload.jti)) !== null) {
+        return { valid: false, error: 'revoked' };
+      }
+
       return { valid: true, payload };
     } catch {
       return { valid: false, error: 'malformed' };
     }
   }
 
+  /**
+   * Terminate a session: its token is rejected from now on
+   * The entry expires with the token, so the list only holds sessions that would still be valid
+   */
+  async revokeToken(payload: MCPSessionPayload): Promise<void> {
+    if (!this.revocations) {
+      throw new Error('Session revocation requires a KV namespace');
+    }
+    const remaining = payload.exp - Math.floor(Date.now() / 1000);
+    await this.revocations.put(this.getRevokedKey(payload.jti), String(payload.exp), {
+      expirationTtl: Math.max(remaining, MIN_REVOCATION_TTL_SECONDS)
+    });
+  }
+
+  private getRevokedKey(tokenId: string): string {
+    return `${REVOKED_KEY_PREFIX}${tokenId}`;
+  }
+
+  /**
+   * Binding hashes are HMACs with the session secret, so the payload (readable by the client)
+   * reveals nothing about the grant and cannot be recomputed without the secret
+   */
+  private async grantHash(binding: SessionBinding): Promise<string> {
+    return this.sign(`grant:${binding.tokenId}:${binding.staffId}`);
+  }
+
+  private async clientHash(clientInfo: unknown): Promise<string> {
+    return this.sign(`client:${JSON.stringify(clientInfo)}`);
+  }
+
   /**
    * Sign data using HMAC-SHA256
    */
@@ -197,3 +265,10 @@ export class SessionTokenManager {
     return new TextDecoder().decode(bytes);
   }
 }
+
+/**
+ * Client capabilities negotiated at initialize (see createToken)
+ */
+export function getClientCapabilities(session: MCPSessionPayload): string[] {
+  return session.ccaps ? session.ccaps.split(',') : [];
+}
@@ -2,6 +2,9 @@
  * Type definitions for HappyFox MCP Adapter
  */
 
+import type { SessionHub } from '../session/session-hub';
+import type { SubscriptionDirectory } from '../session/subscription-directory';
+
 // Cloudflare Worker environment variables
 export interface Env {
   ALLOWED_ORIGINS?: string;
@@ -9,9 +12,12 @@ export interface Env {
   OAUTH_KV: KVNamespace;  // KV namespace for OAuth credential storage
   CREDENTIAL_ENCRYPTION_KEY: string;  // 32-byte base64 key for AES-256-GCM
   RESOURCE_IDENTIFIER?: string;  // OAuth resource identifier for audience validation
+  SESSION_HUB: DurableObjectNamespace<SessionHub>;  // Per-session state: subscriptions, GET streams, client answers
+  SUBSCRIPTION_DIRECTORY?: DurableObjectNamespace<SubscriptionDirectory>;  // Per-account subscribers for webhooks (optional)
+  HAPPYFOX_WEBHOOK_SECRETS?: string;  // JSON object of webhook shared secrets keyed by "region/account"
 }
 
-// MCP Protocol version (2025-11-25 Streamable HTTP - no backwards compat)
+// Latest MCP protocol version (older versions are negotiated in mcp/protocol-versions.ts)
 export const MCP_PROTOCOL_VERSION = '2025-11-25';
 
 // Session token payload structure (stateless signed token)
@@ -20,13 +26,25 @@ export interface MCPSessionPayload {
   iat: number;  // Issued at timestamp (seconds since epoch)
   exp: number;  // Expiration timestamp (seconds since epoch)
   caps: string; // Capability hash (e.g., "resources,tools")
+  ccaps?: string; // Client capabilities declared at initialize (e.g., "elicitation,roots")
+  jti: string;  // Token ID, recorded in the revocation list when the session is terminated
+  sub?: string; // Keyed hash of the OAuth grant (tokenId and staffId) the session was created with
+  cli?: string; // Keyed hash of the clientInfo sent at initialize; clients do not resend clientInfo, so it is
+                // not compared, but it is logged to tell which client opened a session used with another grant
+}
+
+// OAuth grant and client a session token is bound to
+export interface SessionBinding {
+  tokenId: string;
+  staffId: number;
+  clientInfo?: unknown; // initialize params.clientInfo; only known when the token is created
 }
 
 // Session validation result
 export interface SessionValidationResult {
   valid: boolean;
   payload?: MCPSessionPayload;
-  error?: 'missing' | 'invalid' | 'expired' | 'malformed';
+  error?: 'missing' | 'invalid' | 'expired' | 'malformed' | 'revoked' | 'mismatch';
 }
 
 // HappyFox authentication credentials (from URL params)
@@ -72,6 +90,14 @@ export interface MCPResponse {
   id: string | number | null;
 }
 
+// JSON-RPC response sent by the client to a server-initiated request (e.g. elicitation/create)
+export interface ClientResponse {
+  jsonrpc: '2.0';
+  id: string | number;
+  result?: any;
+  error?: MCPError;
+}
+
 // JSON-RPC error format
 export interface MCPError {
   code: number;
@@ -80,14 +106,72 @@ export interface MCPError {
 }
 
 // MCP Tool definition
+// Behaviour hints for clients deciding when to ask for confirmation (hints only, not enforced)
+export interface MCPToolAnnotations {
+  readOnlyHint?: boolean;
+  // The remaining hints only apply when readOnlyHint is false
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  // Whether the tool reaches outside the HappyFox account (e.g. emails external recipients)
+  openWorldHint?: boolean;
+}
+
 export interface MCPTool {
   name: string;
+  title?: string;
   description: string;
+  annotations?: MCPToolAnnotations;
   inputSchema: {
     type: 'object';
     properties: Record<string, any>;
     required?: string[];
   };
+  // Shape of structuredContent in tool results
+  outputSchema?: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+// Client answer to elicitation/create
+export interface ElicitationResult {
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, unknown>;
+}
+
+// Reports progress on the current request (progress must increase; total when known)
+export type ProgressReporter = (progress: number, total?: number, message?: string) => Promise<void>;
+
+// Resource subscriptions of the current session (resources/subscribe)
+export interface ResourceSubscriptions {
+  // content is the resource as read when subscribing, the baseline for change detection
+  subscribe(content: MCPResourceContent): Promise<void>;
+  unsubscribe(uri: string): Promise<void>;
+}
+
+// Requests of the current session the client can cancel (notifications/cancelled); the cancel
+// may arrive on another isolate, so tracking lives with the session (see SessionHub)
+export interface RequestCancellation {
+  // The signal aborts when the client cancels the request; call finish once it is done.
+  // Absent when the transport does not track the request (see McpApiHandler.cancellationFor)
+  track?(requestId: string | number): { signal: AbortSignal; finish(): Promise<void> };
+  cancel(requestId: string | number, reason?: string): Promise<void>;
+}
+
+// Per-call context passed to tool handlers
+export interface ToolContext {
+  progress?: ProgressReporter;
+  // Aborted when the client cancels the request (notifications/cancelled)
+  signal?: AbortSignal;
+}
+
+// Server-to-client messaging while a request is handled (only available on SSE responses)
+export interface ClientChannel {
+  // Ask the user for input with elicitation/create (form mode); set when the client supports it
+  elicit?(message: string, requestedSchema: Record<string, any>): Promise<ElicitationResult>;
+  // Send notifications/progress; set when the request carries a progressToken
+  progress?: ProgressReporter;
 }
 
 // Custom error class for tool-not-found (protocol error)
@@ -119,6 +203,14 @@ export class ResourceNotFoundError extends Error {
   }
 }
 
+// Custom error class for prompt-not-found (protocol error)
+export class PromptNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Prompt not found: ${name}`);
+    this.name = 'PromptNotFoundError';
+  }
+}
+
 // MCP Resource definition
 export interface MCPResource {
   uri: string;
@@ -127,10 +219,43 @@ export interface MCPResource {
   mimeType: string;
 }
 
-// MCP Resource content
+// MCP Resource template definition (RFC 6570 URI template)
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+// MCP Resource content (text for readable data, base64 blob for binary files)
 export interface MCPResourceContent {
   uri: string;
   mimeType: string;
-  text: string;
+  text?: string;
+  blob?: string;
+}
+
+// MCP content item returned in a tool result
+export type MCPContent =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: MCPResourceContent };
+
+// MCP Prompt definition
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description: string;
+  arguments?: Array<{ name: string; description: string; required?: boolean }>;
+}
+
+// MCP Prompt message returned by prompts/get
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPContent;
+}
+
+// Tool result carrying MCP content items as-is (instead of JSON-stringified data)
+export class ToolContentResult {
+  constructor(public content: MCPContent[]) {}
 }
 
@@ -0,0 +1,158 @@
+/**
+ * HappyFox Webhook Handler
+ *
+ * Smart rules post ticket events to /webhooks/happyfox/{region}/{account}/{event}, where event is
+ * ticket-created or ticket-updated and the body is the ticket JSON (bare or as { ticket }).
+ * Each account has its own shared secret, configured in HAPPYFOX_WEBHOOK_SECRETS keyed by
+ * "region/account". HappyFox webhooks cannot sign the body, so the smart rule sends the secret
+ * as a static X-Webhook-Secret header (HTTPS keeps it off the wire).
+ *
+ * Events clear cache entries derived from ticket data and notify sessions subscribed to the ticket.
+ */
+
+import { Env } from '../types';
+import { referenceCache } from '../cache/reference-cache';
+import { getAccountKey } from '../session/subscription-directory';
+
+const WEBHOOK_PATH_PREFIX = '/webhooks/happyfox/';
+const WEBHOOK_PATH = /^\/webhooks\/happyfox\/(us|eu)\/([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)\/(ticket-created|ticket-updated)\/?$/i;
+
+const SECRET_HEADER = 'X-Webhook-Secret';
+
+// Ticket payloads are a few KB; anything far larger is not from a smart rule
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Cached resources built from ticket data (see completions/provider.ts)
+const TICKET_DERIVED_CACHE_ENTRIES = ['recent-tags'];
+
+/**
+ * Handle a request under /webhooks/happyfox/, or return null for other paths
+ */
+export async function handleWebhook(request: Request, env: Env, ctx: ExecutionContext): Promise<Response | null> {
+  const url = new URL(request.url);
+  if (!url.pathname.startsWith(WEBHOOK_PATH_PREFIX)) {
+    return null;
+  }
+
+  const match = url.pathname.match(WEBHOOK_PATH);
+  if (!match) {
+    return new Response('Not Found', { status: 404 });
+  }
+  if (request.method !== 'POST') {
+    return new Response('Method Not Allowed', { status: 405, headers: { 'Allow': 'POST' } });
+  }
+
+  const region = match[1].toLowerCase() as 'us' | 'eu';
+  const accountName = match[2];
+  const account = getAccountKey(region, accountName);
+
+  // Unknown accounts and wrong secrets get the same answer
+  const secret = getWebhookSecret(env, account);
+  if (!secret || !(await verifySecret(secret, request.headers.get(SECRET_HEADER)))) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const body = await readBody(request, MAX_BODY_BYTES);
+  if (body === null) {
+    return new Response('Payload Too Large', { status: 413 });
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return new Response('Bad Request: invalid JSON', { status: 400 });
+  }
+
+  const uris = getTicketUris(payload?.ticket ?? payload);
+  if (uris.length === 0) {
+    return new Response('Bad Request: payload has no ticket id', { status: 400 });
+  }
+
+  // Only this location's cache is cleared; other locations catch up when their entries expire
+  for (const resource of TICKET_DERIVED_CACHE_ENTRIES) {
+    await referenceCache.invalidate(accountName.toLowerCase(), region, resource);
+  }
+
+  // Notify after answering so slow sessions do not hold up HappyFox
+  const directory = env.SUBSCRIPTION_DIRECTORY;
+  if (directory) {
+    ctx.waitUntil(directory.get(directory.idFromName(account)).publish(uris));
+  }
+
+  return new Response(null, { status: 204 });
+}
+
+// Secrets are a JSON object keyed by "region/account"; keys are matched case-insensitively
+function getWebhookSecret(env: Env, account: string): string | null {
+  if (!env.HAPPYFOX_WEBHOOK_SECRETS) {
+    return null;
+  }
+  try {
+    const secrets = JSON.parse(env.HAPPYFOX_WEBHOOK_SECRETS) as Record<string, unknown>;
+    const entry = Object.entries(secrets).find(([key]) => key.toLowerCase() === account);
+    return entry && typeof entry[1] === 'string' && entry[1].length > 0 ? entry[1] : null;
+  } catch {
+    console.error('HAPPYFOX_WEBHOOK_SECRETS is not valid JSON');
+    return null;
+  }
+}
+
+/**
+ * Read the body as text, or return null once it passes maxBytes; chunks are counted as they
+ * arrive so an oversized body without Content-Length is not buffered whole
+ */
+async function readBody(request: Request, maxBytes: number): Promise<string | null> {
+  const declared = Number(request.headers.get('Content-Length'));
+  if (declared > maxBytes) {
+    return null;
+  }
+  if (!request.body) {
+    return '';
+  }
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      return text + decoder.decode();
+    }
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+/**
+ * Compare the header with the secret in constant time; both are hashed first so
+ * timingSafeEqual gets equal lengths and the secret's length is not revealed
+ */
+async function verifySecret(secret: string, header: string | null): Promise<boolean> {
+  if (!header) {
+    return false;
+  }
+  const encoder = new TextEncoder();
+  const [expected, given] = await Promise.all([
+    crypto.subtle.digest('SHA-256', encoder.encode(secret)),
+    crypto.subtle.digest('SHA-256', encoder.encode(header))
+  ]);
+  return crypto.subtle.timingSafeEqual(expected, given);
+}
+
+// Ticket resources the event affects: by ID, and by display ID for clients that subscribed that way
+function getTicketUris(ticket: any): string[] {
+  const uris: string[] = [];
+  if (typeof ticket?.id === 'number' || (typeof ticket?.id === 'string' && ticket.id.length > 0)) {
+    uris.push(`happyfox://ticket/${encodeURIComponent(String(ticket.id))}`);
+  }
+  if (typeof ticket?.display_id === 'string' && ticket.display_id.length > 0) {
+    uris.push(`happyfox://ticket/${encodeURIComponent(ticket.display_id)}`);
+  }
+  return uris;
+}
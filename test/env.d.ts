@@ -4,5 +4,7 @@ declare module "cloudflare:test" {
     OAUTH_KV: KVNamespace;
     CREDENTIAL_ENCRYPTION_KEY: string;
     MCP_SESSION_SECRET: string;
+    SESSION_HUB: DurableObjectNamespace<import("../src/session/session-hub").SessionHub>;
+    SUBSCRIPTION_DIRECTORY: DurableObjectNamespace<import("../src/session/subscription-directory").SubscriptionDirectory>;
   }
 }
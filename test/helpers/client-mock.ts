@@ -7,6 +7,8 @@ export function createMockClient() {
     post: vi.fn(),
     put: vi.fn(),
     delete: vi.fn(),
+    download: vi.fn(),
+    getCached: vi.fn(),
     makeRequest: vi.fn()
   } as unknown as HappyFoxClient;
 }
@@ -0,0 +1,152 @@
+import { env, SELF, createExecutionContext } from "cloudflare:test";
+import { OAuthProvider, type OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { createCredentialStore } from "../../src/oauth/services/credential-store";
+import { CREDENTIAL_TTL_SECONDS } from "../../src/oauth/types";
+import { mockAuth } from "../fixtures/auth";
+import { MCP_PROTOCOL_VERSION } from "./json-rpc";
+
+const REDIRECT_URI = "https://client.test/callback";
+
+export interface TestGrant {
+  accessToken: string;
+  tokenId: string;
+  staffId: number;
+}
+
+/**
+ * The provider's helpers are only handed to the default handler, so a second provider with the
+ * worker's routes is used to reach them; both work on the same OAUTH_KV namespace
+ */
+async function getOAuthHelpers(): Promise<OAuthHelpers> {
+  let helpers: OAuthHelpers | undefined;
+  const provider = new OAuthProvider({
+    apiRoute: "/mcp",
+    apiHandler: { fetch: async () => new Response(null) },
+    defaultHandler: {
+      fetch: async (_request: Request, providerEnv: any) => {
+        helpers = providerEnv.OAUTH_PROVIDER;
+        return new Response(null);
+      }
+    },
+    authorizeEndpoint: "/authorize",
+    tokenEndpoint: "/oauth/token"
+  });
+  await provider.fetch(new Request("https://worker.test/helpers"), env, createExecutionContext());
+  return helpers!;
+}
+
+function base64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Run the authorization code flow the way the consent form completes it (credentials stored under
+ * a new tokenId, props on the grant) and exchange the code at the worker's token endpoint
+ */
+export async function issueAccessToken(
+  options: { staffId?: number; scopes?: string[] } = {}
+): Promise<TestGrant> {
+  const { staffId = 1, scopes = ["happyfox:read", "happyfox:write"] } = options;
+  const helpers = await getOAuthHelpers();
+  const client = await helpers.createClient({
+    redirectUris: [REDIRECT_URI],
+    tokenEndpointAuthMethod: "none",
+    clientName: "Test client"
+  });
+
+  const verifier = base64Url(crypto.getRandomValues(new Uint8Array(32)).buffer);
+  const challenge = base64Url(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier)));
+  const authorizeUrl = new URL("https://worker.test/authorize");
+  authorizeUrl.search = new URLSearchParams({
+    response_type: "code",
+    client_id: client.clientId,
+    redirect_uri: REDIRECT_URI,
+    code_challenge: challenge,
+    code_challenge_method: "S256",
+    scope: scopes.join(" ")
+  }).toString();
+  const authRequest = await helpers.parseAuthRequest(new Request(authorizeUrl));
+
+  const tokenId = crypto.randomUUID();
+  const now = Math.floor(Date.now() / 1000);
+  await createCredentialStore(env.OAUTH_KV, env.CREDENTIAL_ENCRYPTION_KEY).store(tokenId, {
+    ...mockAuth,
+    staffId,
+    staffName: "Test Agent",
+    staffEmail: "agent@example.com",
+    createdAt: now,
+    expiresAt: now + CREDENTIAL_TTL_SECONDS
+  });
+
+  const { redirectTo } = await helpers.completeAuthorization({
+    request: authRequest,
+    userId: tokenId,
+    metadata: {},
+    scope: scopes,
+    props: {
+      tokenId,
+      staffId,
+      staffEmail: "agent@example.com",
+      accountName: mockAuth.accountName,
+      region: mockAuth.region,
+      scopes
+    }
+  });
+
+  const response = await SELF.fetch("https://worker.test/oauth/token", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: new URL(redirectTo).searchParams.get("code")!,
+      redirect_uri: REDIRECT_URI,
+      client_id: client.clientId,
+      code_verifier: verifier,
+      // MCP clients name the server as the token's resource (RFC 8707); the provider matches its origin
+      resource: "https://worker.test"
+    })
+  });
+  const { access_token } = await response.json() as { access_token: string };
+  return { accessToken: access_token, tokenId, staffId };
+}
+
+/**
+ * Headers for /mcp requests made with an access token, optionally within a session
+ */
+export function bearerHeaders(
+  accessToken: string,
+  sessionId?: string,
+  protocolVersion = MCP_PROTOCOL_VERSION
+): Record<string, string> {
+  return {
+    "Authorization": `Bearer ${accessToken}`,
+    "Content-Type": "application/json",
+    "Accept": "application/json, text/event-stream",
+    "MCP-Protocol-Version": protocolVersion,
+    ...(sessionId && { "MCP-Session-Id": sessionId })
+  };
+}
+
+/**
+ * Initialize a session through the worker and return its MCP-Session-Id
+ */
+export async function initializeSession(
+  accessToken: string,
+  capabilities: Record<string, unknown> = {},
+  protocolVersion = MCP_PROTOCOL_VERSION
+): Promise<string> {
+  const response = await SELF.fetch("https://worker.test/mcp", {
+    method: "POST",
+    headers: bearerHeaders(accessToken),
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      method: "initialize",
+      params: { protocolVersion, capabilities, clientInfo: { name: "test-client", version: "1.0.0" } },
+      id: 1
+    })
+  });
+  return response.headers.get("MCP-Session-Id")!;
+}
@@ -0,0 +1,60 @@
+export interface SSEEvent {
+  id?: string;
+  message?: any; // Parsed JSON-RPC message; absent for priming events
+}
+
+function parseEvent(block: string): SSEEvent | null {
+  const event: SSEEvent = {};
+  let data: string | undefined;
+  for (const line of block.split("\n")) {
+    if (line.startsWith("id: ")) event.id = line.slice("id: ".length);
+    if (line.startsWith("data: ")) data = line.slice("data: ".length);
+  }
+  // Comments (keep-alives) carry neither
+  if (event.id === undefined && data === undefined) return null;
+  if (data) event.message = JSON.parse(data);
+  return event;
+}
+
+/**
+ * Every event of a complete SSE body, keep-alive comments left out
+ */
+export function parseSSE(body: string): SSEEvent[] {
+  return body
+    .split("\n\n")
+    .map(parseEvent)
+    .filter((event): event is SSEEvent => event !== null);
+}
+
+/**
+ * Reads an open SSE stream message by message, e.g. to answer a request sent on it
+ */
+export class SSEReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private decoder = new TextDecoder();
+  private buffered = "";
+
+  constructor(body: ReadableStream<Uint8Array>) {
+    this.reader = body.getReader();
+  }
+
+  // The next event carrying a JSON-RPC message; null once the stream ends
+  async next(): Promise<SSEEvent | null> {
+    while (true) {
+      const end = this.buffered.indexOf("\n\n");
+      if (end !== -1) {
+        const event = parseEvent(this.buffered.slice(0, end));
+        this.buffered = this.buffered.slice(end + 2);
+        if (event?.message) return event;
+        continue;
+      }
+      const { value, done } = await this.reader.read();
+      if (done) return null;
+      this.buffered += this.decoder.decode(value, { stream: true });
+    }
+  }
+
+  async cancel(): Promise<void> {
+    await this.reader.cancel();
+  }
+}
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeAll, afterEach } from "vitest";
 import { SELF, fetchMock } from "cloudflare:test";
 import { MCP_PROTOCOL_VERSION } from "../helpers/json-rpc";
+import { issueAccessToken, initializeSession, bearerHeaders } from "../helpers/oauth";
+import { mockHappyFoxGet, mockHappyFoxPost } from "../helpers/fetch-mock-helpers";
+import { SSEReader, parseSSE } from "../helpers/sse";
 
 /**
  * Worker Integration Tests for OAuth-Protected MCP Server
@@ -11,8 +14,8 @@ import { MCP_PROTOCOL_VERSION } from "../helpers/json-rpc";
  * - /.well-known/* -> OAuth metadata endpoints
  * - /oauth/token -> Token exchange endpoint (handled by OAuthProvider)
  *
- * MCP functionality tests require OAuth tokens which are complex to mock.
- * These tests focus on non-OAuth endpoints and basic routing.
+ * MCP requests use access tokens issued through the provider (see helpers/oauth.ts);
+ * HappyFox is mocked where a tool call reaches it.
  */
 
 describe("Worker Fetch Handler - OAuth MCP Server", () => {
@@ -120,14 +123,200 @@ describe("Worker Fetch Handler - OAuth MCP Server", () => {
       expect(response.status).toBe(401);
     });
 
-    it("rejects GET requests to /mcp (no SSE support)", async () => {
+    it("requires authentication for GET /mcp", async () => {
       const response = await SELF.fetch("https://worker.test/mcp", {
         method: "GET",
-        headers: { "Authorization": "Bearer invalid-token" }
+        headers: { "Authorization": "Bearer invalid-token", "Accept": "text/event-stream" }
       });
 
-      // May be 401 (auth) or 405 (method) depending on auth check order
-      expect([401, 405]).toContain(response.status);
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("MCP Sessions", () => {
+    const listTools = (accessToken: string, sessionId: string) => SELF.fetch("https://worker.test/mcp", {
+      method: "POST",
+      headers: bearerHeaders(accessToken, sessionId),
+      body: JSON.stringify({ jsonrpc: "2.0", method: "tools/list", id: 2 })
+    });
+
+    it("accepts the session with the access token that created it", async () => {
+      const { accessToken } = await issueAccessToken();
+      const sessionId = await initializeSession(accessToken);
+
+      const response = await listTools(accessToken, sessionId);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ result: { tools: expect.any(Array) }, id: 2 });
+    });
+
+    it("forbids a session used with another authorization", async () => {
+      const owner = await issueAccessToken({ staffId: 1 });
+      const other = await issueAccessToken({ staffId: 2 });
+      const sessionId = await initializeSession(owner.accessToken);
+
+      const response = await listTools(other.accessToken, sessionId);
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ error: { code: -32003 }, id: 2 });
+    });
+
+    it("rejects a terminated session on the next request", async () => {
+      const { accessToken } = await issueAccessToken();
+      const sessionId = await initializeSession(accessToken);
+
+      const terminated = await SELF.fetch("https://worker.test/mcp", {
+        method: "DELETE",
+        headers: bearerHeaders(accessToken, sessionId)
+      });
+      expect(terminated.status).toBe(202);
+
+      const response = await listTools(accessToken, sessionId);
+      expect(response.status).toBe(404);
+      expect(await response.json()).toMatchObject({
+        error: { code: -32001, message: "Session terminated. Please re-initialize." },
+        id: 2
+      });
+    });
+  });
+
+  describe("MCP Transport", () => {
+    const post = (accessToken: string, sessionId: string, body: unknown, protocolVersion?: string) =>
+      SELF.fetch("https://worker.test/mcp", {
+        method: "POST",
+        headers: bearerHeaders(accessToken, sessionId, protocolVersion),
+        body: JSON.stringify(body)
+      });
+
+    const openStream = (accessToken: string, sessionId: string, lastEventId?: string) =>
+      SELF.fetch("https://worker.test/mcp", {
+        method: "GET",
+        headers: { ...bearerHeaders(accessToken, sessionId), ...(lastEventId && { "Last-Event-ID": lastEventId }) }
+      });
+
+    const deleteTicket = {
+      jsonrpc: "2.0",
+      method: "tools/call",
+      params: { name: "happyfox_delete_ticket", arguments: { ticket_id: "42" } },
+      id: 4
+    };
+    const adminScopes = ["happyfox:read", "happyfox:write", "happyfox:admin"];
+
+    it("streams progress and the result when the request carries a progressToken", async () => {
+      const { accessToken } = await issueAccessToken();
+      const sessionId = await initializeSession(accessToken);
+      mockHappyFoxGet("/tickets/", { data: [{ id: 1 }], page_info: { page_count: 2 } });
+      mockHappyFoxGet("/tickets/", { data: [{ id: 2 }], page_info: { page_count: 2 } });
+
+      const response = await post(accessToken, sessionId, {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "happyfox_list_tickets", arguments: { size: 1, max_items: 2 }, _meta: { progressToken: "pages" } },
+        id: 3
+      });
+
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      const messages = parseSSE(await response.text()).flatMap(event => event.message ?? []);
+      expect(messages.map(message => message.params?.progress)).toEqual([1, undefined]);
+      expect(messages[0]).toMatchObject({ method: "notifications/progress", params: { progressToken: "pages", total: 2 } });
+      expect(messages[1]).toMatchObject({ id: 3, result: { content: [{ type: "text", text: expect.stringContaining('"id": 2') }] } });
+    });
+
+    it("asks for confirmation on the response stream and runs the tool once the answer is posted", async () => {
+      const { accessToken } = await issueAccessToken({ scopes: adminScopes });
+      const sessionId = await initializeSession(accessToken, { elicitation: {} });
+      mockHappyFoxGet("/ticket/42/", { id: 42, display_id: "#42", subject: "Printer on fire" });
+      mockHappyFoxPost("/ticket/42/delete/", { id: 42 });
+
+      const stream = new SSEReader((await post(accessToken, sessionId, deleteTicket)).body!);
+      const question = (await stream.next())!.message;
+      expect(question).toMatchObject({ method: "elicitation/create", params: { message: expect.stringContaining("Printer on fire") } });
+
+      const answer = { jsonrpc: "2.0", id: question.id, result: { action: "accept", content: { confirm: true } } };
+      expect((await post(accessToken, sessionId, answer)).status).toBe(202);
+
+      expect((await stream.next())!.message).toMatchObject({ id: 4, result: { content: [{ type: "text", text: expect.stringContaining('"id": 42') }] } });
+      expect(await stream.next()).toBeNull();
+    });
+
+    it("answers in JSON when the client did not declare elicitation", async () => {
+      const { accessToken } = await issueAccessToken({ scopes: adminScopes });
+      const sessionId = await initializeSession(accessToken);
+      mockHappyFoxPost("/ticket/42/delete/", { id: 42 });
+
+      const response = await post(accessToken, sessionId, deleteTicket);
+
+      expect(response.headers.get("Content-Type")).toBe("application/json");
+      expect(await response.json()).toMatchObject({ id: 4, result: { content: [{ type: "text", text: expect.stringContaining('"id": 42') }] } });
+    });
+
+    it("resumes a streamed response after Last-Event-ID", async () => {
+      const { accessToken } = await issueAccessToken();
+      const sessionId = await initializeSession(accessToken);
+      const streamed = await post(accessToken, sessionId, {
+        jsonrpc: "2.0", method: "tools/list", params: { _meta: { progressToken: 1 } }, id: 5
+      });
+      const [priming, ...events] = parseSSE(await streamed.text());
+      expect(priming.message).toBeUndefined();
+
+      const resumed = await openStream(accessToken, sessionId, priming.id);
+
+      expect(resumed.status).toBe(200);
+      expect(parseSSE(await resumed.text())).toEqual(events);
+    });
+
+    it("answers 404 for an unknown Last-Event-ID", async () => {
+      const { accessToken } = await issueAccessToken();
+      const sessionId = await initializeSession(accessToken);
+
+      const response = await openStream(accessToken, sessionId, `${crypto.randomUUID()}-1`);
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toMatchObject({ error: { code: -32600 } });
+    });
+
+    it("opens the session's SSE stream on GET", async () => {
+      const { accessToken } = await issueAccessToken();
+      const sessionId = await initializeSession(accessToken);
+
+      const response = await openStream(accessToken, sessionId);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      await response.body!.cancel();
+    });
+
+    it("answers batches on 2025-03-26 sessions only", async () => {
+      const { accessToken } = await issueAccessToken();
+      const batch = [
+        { jsonrpc: "2.0", method: "tools/list", id: 6 },
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        { jsonrpc: "2.0", method: "tools/list", id: 7 }
+      ];
+
+      const legacySession = await initializeSession(accessToken, {}, "2025-03-26");
+      const answered = await post(accessToken, legacySession, batch, "2025-03-26");
+      expect(await answered.json()).toMatchObject([{ id: 6 }, { id: 7 }]);
+
+      const rejected = await post(accessToken, await initializeSession(accessToken), batch);
+      expect(rejected.status).toBe(400);
+    });
+
+    it("requires the negotiated protocol version header", async () => {
+      const { accessToken } = await issueAccessToken();
+      const sessionId = await initializeSession(accessToken);
+      const { "MCP-Protocol-Version": _, ...headers } = bearerHeaders(accessToken, sessionId);
+
+      const missing = await SELF.fetch("https://worker.test/mcp", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ jsonrpc: "2.0", method: "tools/list", id: 8 })
+      });
+      expect(missing.status).toBe(400);
+
+      const mismatched = await post(accessToken, sessionId, { jsonrpc: "2.0", method: "tools/list", id: 8 }, "2025-06-18");
+      expect(mismatched.status).toBe(400);
+      expect(await mismatched.json()).toMatchObject({ error: { code: -32602 }, id: 8 });
     });
   });
 
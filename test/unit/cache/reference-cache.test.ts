@@ -117,6 +117,29 @@ describe("ReferenceCache", () => {
     });
   });
 
+  describe("getOrFetch", () => {
+    it("fetches and caches data on a miss", async () => {
+      await cache.invalidate("testaccount", defaultRegion, "fetch-test");
+      const fetcher = vi.fn().mockResolvedValue([{ id: 1 }]);
+
+      const result = await cache.getOrFetch("testaccount", defaultRegion, "fetch-test", fetcher);
+
+      expect(result).toEqual([{ id: 1 }]);
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(await cache.get("testaccount", defaultRegion, "fetch-test")).toEqual([{ id: 1 }]);
+    });
+
+    it("returns cached data without fetching", async () => {
+      await cache.set("testaccount", defaultRegion, "fetch-hit", [{ id: 2 }]);
+      const fetcher = vi.fn();
+
+      const result = await cache.getOrFetch("testaccount", defaultRegion, "fetch-hit", fetcher);
+
+      expect(result).toEqual([{ id: 2 }]);
+      expect(fetcher).not.toHaveBeenCalled();
+    });
+  });
+
   describe("invalidate", () => {
     it("removes cached item", async () => {
       const data = { id: 1 };
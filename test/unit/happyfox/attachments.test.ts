@@ -0,0 +1,181 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeAttachments,
+  buildMultipartBody,
+  resolveMimeType,
+  isTextMimeType,
+  toResourceContent,
+  MAX_ATTACHMENT_TOTAL_BYTES
+} from "../../../src/happyfox/attachments";
+
+describe("normalizeAttachments", () => {
+  it("decodes base64 content", () => {
+    const [file] = normalizeAttachments([
+      { filename: "notes.txt", mime_type: "text/plain", content: btoa("hello world") }
+    ]);
+
+    expect(file.filename).toBe("notes.txt");
+    expect(file.mimeType).toBe("text/plain");
+    expect(new TextDecoder().decode(file.data)).toBe("hello world");
+  });
+
+  it("accepts data URLs and whitespace in base64 content", () => {
+    const [file] = normalizeAttachments([
+      { filename: "a.txt", content: `data:text/plain;base64,${btoa("abc")}\n` }
+    ]);
+
+    expect(new TextDecoder().decode(file.data)).toBe("abc");
+  });
+
+  it("defaults mime type to application/octet-stream", () => {
+    const [file] = normalizeAttachments([{ filename: "blob.bin", content: btoa("x") }]);
+    expect(file.mimeType).toBe("application/octet-stream");
+  });
+
+  it("accepts MCP embedded resources with blob content", () => {
+    const [file] = normalizeAttachments([
+      { type: "resource", resource: { uri: "file:///tmp/screen.png", mimeType: "image/png", blob: btoa("png") } }
+    ]);
+
+    expect(file.filename).toBe("screen.png");
+    expect(file.mimeType).toBe("image/png");
+    expect(new TextDecoder().decode(file.data)).toBe("png");
+  });
+
+  it("accepts MCP embedded resources with text content", () => {
+    const [file] = normalizeAttachments([
+      { type: "resource", filename: "app.log", resource: { uri: "file:///var/log/x", mimeType: "text/plain", text: "line 1" } }
+    ]);
+
+    expect(file.filename).toBe("app.log");
+    expect(new TextDecoder().decode(file.data)).toBe("line 1");
+  });
+
+  it("falls back to a generated filename for resources without a usable uri", () => {
+    const [file] = normalizeAttachments([{ type: "resource", resource: { text: "x" } }]);
+    expect(file.filename).toBe("attachment-1");
+  });
+
+  it("rejects resources without blob or text", () => {
+    expect(() => normalizeAttachments([{ type: "resource", resource: { uri: "file:///a" } }]))
+      .toThrow("Attachment 1: embedded resource must include blob or text content");
+  });
+
+  it("rejects base64 attachments without filename", () => {
+    expect(() => normalizeAttachments([{ content: btoa("x") }]))
+      .toThrow("Attachment 1: filename is required");
+  });
+
+  it("rejects base64 attachments without content", () => {
+    expect(() => normalizeAttachments([{ filename: "a.txt" }]))
+      .toThrow("Attachment 1: content (base64) is required");
+  });
+
+  it("rejects invalid base64", () => {
+    expect(() => normalizeAttachments([{ filename: "a.txt", content: "not*base64" }]))
+      .toThrow("Attachment 1: content is not valid base64");
+  });
+
+  it("rejects attachments exceeding the combined size limit", () => {
+    const big = { type: "resource" as const, resource: { text: "x".repeat(MAX_ATTACHMENT_TOTAL_BYTES / 2 + 1) } };
+    expect(() => normalizeAttachments([big, big])).toThrow(/exceeding the HappyFox limit/);
+  });
+});
+
+describe("buildMultipartBody", () => {
+  it("appends scalar fields as strings", () => {
+    const form = buildMultipartBody({ subject: "Test", staff: 5, visible: true }, []);
+
+    expect(form.get("subject")).toBe("Test");
+    expect(form.get("staff")).toBe("5");
+    expect(form.get("visible")).toBe("true");
+  });
+
+  it("repeats the key for array values", () => {
+    const form = buildMultipartBody({ "t-cf-2": [1, 4, 5] }, []);
+    expect(form.getAll("t-cf-2")).toEqual(["1", "4", "5"]);
+  });
+
+  it("skips undefined and null values", () => {
+    const form = buildMultipartBody({ a: undefined, b: null, c: "x" }, []);
+
+    expect(form.has("a")).toBe(false);
+    expect(form.has("b")).toBe(false);
+    expect(form.get("c")).toBe("x");
+  });
+
+  it("appends files under the attachments field", async () => {
+    const form = buildMultipartBody({}, [
+      { filename: "a.txt", mimeType: "text/plain", data: new TextEncoder().encode("A") },
+      { filename: "b.txt", mimeType: "text/plain", data: new TextEncoder().encode("B") }
+    ]);
+
+    const files = form.getAll("attachments") as File[];
+    expect(files.map(f => f.name)).toEqual(["a.txt", "b.txt"]);
+    expect(await files[1].text()).toBe("B");
+  });
+});
+
+describe("resolveMimeType", () => {
+  it("uses a specific Content-Type header without parameters", () => {
+    expect(resolveMimeType("text/csv; charset=utf-8", "data.bin")).toBe("text/csv");
+  });
+
+  it("falls back to the file extension for generic content types", () => {
+    expect(resolveMimeType("binary/octet-stream", "server.LOG")).toBe("text/plain");
+    expect(resolveMimeType(null, "shot.png")).toBe("image/png");
+  });
+
+  it("defaults to application/octet-stream for unknown files", () => {
+    expect(resolveMimeType(null, "archive.xyz")).toBe("application/octet-stream");
+  });
+});
+
+describe("isTextMimeType", () => {
+  it("recognizes text-like types", () => {
+    expect(isTextMimeType("text/plain")).toBe(true);
+    expect(isTextMimeType("application/json")).toBe(true);
+    expect(isTextMimeType("application/vnd.api+json")).toBe(true);
+    expect(isTextMimeType("image/svg+xml")).toBe(true);
+  });
+
+  it("rejects binary types", () => {
+    expect(isTextMimeType("image/png")).toBe(false);
+    expect(isTextMimeType("application/pdf")).toBe(false);
+  });
+});
+
+describe("toResourceContent", () => {
+  const uri = "happyfox://ticket/1/attachments/2";
+
+  it("decodes text files to text", () => {
+    const content = toResourceContent(uri, {
+      filename: "app.log",
+      mimeType: "text/plain",
+      data: new TextEncoder().encode("ERROR boom")
+    });
+
+    expect(content).toEqual({ uri, mimeType: "text/plain", text: "ERROR boom" });
+  });
+
+  it("returns binary files as base64 blobs", () => {
+    const content = toResourceContent(uri, {
+      filename: "shot.png",
+      mimeType: "image/png",
+      data: new Uint8Array([0x89, 0x50, 0x4e, 0x47])
+    });
+
+    expect(content).toEqual({ uri, mimeType: "image/png", blob: btoa("\x89PNG") });
+  });
+
+  it("falls back to a blob for text types that are not valid UTF-8", () => {
+    const content = toResourceContent(uri, {
+      filename: "bad.txt",
+      mimeType: "text/plain",
+      data: new Uint8Array([0xff, 0xfe, 0xfd])
+    });
+
+    expect(content.text).toBeUndefined();
+    expect(content.blob).toBe(btoa("\xff\xfe\xfd"));
+  });
+});
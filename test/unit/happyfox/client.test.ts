@@ -89,6 +89,115 @@ describe("HappyFoxClient", () => {
       const result = await client.delete("/asset/1/", { deleted_by: 1 });
       expect(result).toEqual({});
     });
+
+    it("sends FormData bodies as multipart without JSON Content-Type", async () => {
+      const client = new HappyFoxClient(usAuth);
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        new Response(JSON.stringify({ id: 1 }), { status: 200 })
+      );
+
+      const form = new FormData();
+      form.append("subject", "Test");
+
+      try {
+        const result = await client.post("/tickets/", form);
+        expect(result).toEqual({ id: 1 });
+
+        const init = fetchSpy.mock.calls[0][1] as RequestInit;
+        expect(init.body).toBe(form);
+        expect((init.headers as Record<string, string>)["Content-Type"]).toBeUndefined();
+        expect((init.headers as Record<string, string>)["Authorization"]).toMatch(/^Basic /);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+  });
+
+  describe("download", () => {
+    it("returns bytes and content type without sending credentials to external hosts", async () => {
+      const client = new HappyFoxClient(usAuth);
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        new Response("file body", { status: 200, headers: { "Content-Type": "text/plain" } })
+      );
+
+      try {
+        const result = await client.download("https://files.example.com/a.txt?sig=abc", 1024);
+
+        expect(new TextDecoder().decode(result.data)).toBe("file body");
+        expect(result.contentType).toBe("text/plain");
+        const init = fetchSpy.mock.calls[0][1] as RequestInit;
+        expect((init.headers as Record<string, string>)["Authorization"]).toBeUndefined();
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it("sends credentials to the HappyFox account host", async () => {
+      const client = new HappyFoxClient(usAuth);
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("x", { status: 200 }));
+
+      try {
+        await client.download("https://testaccount.happyfox.com/attachments/1/", 1024);
+
+        const init = fetchSpy.mock.calls[0][1] as RequestInit;
+        expect((init.headers as Record<string, string>)["Authorization"]).toMatch(/^Basic /);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it("rejects files larger than the cap", async () => {
+      const client = new HappyFoxClient(usAuth);
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("0123456789", { status: 200 }));
+
+      try {
+        await expect(client.download("https://files.example.com/big.bin", 5)).rejects.toMatchObject({
+          statusCode: 413,
+          code: "FILE_TOO_LARGE"
+        });
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it("stops reading a body without Content-Length once it passes the cap", async () => {
+      const client = new HappyFoxClient(usAuth);
+      let cancelled = false;
+      // Endless body: reading it whole would never finish
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          controller.enqueue(new Uint8Array(4));
+        },
+        cancel() {
+          cancelled = true;
+        }
+      });
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(body, { status: 200 }));
+
+      try {
+        await expect(client.download("https://files.example.com/stream.bin", 10)).rejects.toMatchObject({
+          statusCode: 413,
+          code: "FILE_TOO_LARGE"
+        });
+        expect(cancelled).toBe(true);
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
+
+    it("throws HappyFoxAPIError for failed downloads", async () => {
+      const client = new HappyFoxClient(usAuth);
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("gone", { status: 403 }));
+
+      try {
+        await expect(client.download("https://files.example.com/expired", 1024)).rejects.toMatchObject({
+          statusCode: 403,
+          code: "API_ERROR"
+        });
+      } finally {
+        fetchSpy.mockRestore();
+      }
+    });
   });
 
   describe("makeRequest - error responses", () => {
@@ -607,6 +716,50 @@ describe("HappyFoxClient", () => {
       expect(result).toEqual({ id: 1 });
     });
   });
+
+  describe("cancellation", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it("rejects without calling HappyFox when the signal is already aborted", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+      const controller = new AbortController();
+      controller.abort();
+      const client = new HappyFoxClient(usAuth, controller.signal);
+
+      await expect(client.get("/test/")).rejects.toMatchObject({ code: "CANCELLED", statusCode: 0 });
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("passes the signal to fetch and does not retry an aborted request", async () => {
+      const controller = new AbortController();
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async (_input, init) => {
+        expect(init?.signal).toBe(controller.signal);
+        controller.abort();
+        throw new DOMException("The operation was aborted", "AbortError");
+      });
+      const client = new HappyFoxClient(usAuth, controller.signal);
+
+      await expect(client.get("/test/")).rejects.toMatchObject({ code: "CANCELLED" });
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops waiting for a rate limit retry when cancelled", async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const client = new HappyFoxClient(usAuth, controller.signal);
+      mockRateLimitResponse("/test/", "GET");
+
+      const requestPromise = client.get("/test/");
+      const assertion = expect(requestPromise).rejects.toMatchObject({ code: "CANCELLED" });
+      await vi.advanceTimersByTimeAsync(100);
+      controller.abort();
+
+      await assertion;
+    });
+  });
 });
 
 describe("HappyFoxAPIError", () => {
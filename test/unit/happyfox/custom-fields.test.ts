@@ -0,0 +1,200 @@
+import { describe, it, expect, vi } from "vitest";
+import { CustomFieldEncoder, CustomFieldDefinition, customFieldsByLabel } from "../../../src/happyfox/custom-fields";
+
+const ticketFields: CustomFieldDefinition[] = [
+  { id: 1, name: "Summary", type: "text" },
+  { id: 2, name: "Product Version", type: "dropdown", choices: [{ id: 11, text: "1.0" }, { id: 12, text: "2.0" }] },
+  {
+    id: 3,
+    name: "Additional Services",
+    type: "multiple_choice",
+    choices: [{ id: 1, text: "Refuel" }, { id: 4, text: "Thruster Cleanup" }, { id: 5, text: "Shield Verification" }]
+  },
+  { id: 4, name: "Go-live", type: "date" },
+  { id: 5, name: "Seats", type: "number" },
+  { id: 6, name: "Survey", type: "choice", choices: [{ id: 1, text: "Yes" }, { id: 2, text: "No" }] }
+];
+
+const contactFields: CustomFieldDefinition[] = [
+  { id: 9, name: "Region", type: "choice", choices: [{ id: 3, text: "APAC" }] }
+];
+
+function createEncoder() {
+  const sources = {
+    "t-cf-": vi.fn().mockResolvedValue(ticketFields),
+    "c-cf-": vi.fn().mockResolvedValue(contactFields)
+  };
+  return { encoder: new CustomFieldEncoder(sources), sources };
+}
+
+describe("CustomFieldEncoder", () => {
+  describe("choice fields", () => {
+    it("accepts choice IDs, numeric strings and labels", async () => {
+      const { encoder } = createEncoder();
+
+      expect(await encoder.encode({ "t-cf-2": 12 })).toEqual({ "t-cf-2": 12 });
+      expect(await encoder.encode({ "t-cf-2": "11" })).toEqual({ "t-cf-2": 11 });
+      expect(await encoder.encode({ "t-cf-2": "2.0" })).toEqual({ "t-cf-2": 12 });
+      expect(await encoder.encode({ "t-cf-6": "yes" })).toEqual({ "t-cf-6": 1 });
+    });
+
+    it("rejects invalid choices listing the valid options", async () => {
+      const { encoder } = createEncoder();
+
+      await expect(encoder.encode({ "t-cf-2": "3.0" })).rejects.toThrow(
+        'Custom field "Product Version" (t-cf-2): "3.0" is not a valid choice. Valid options: "1.0" (id 11), "2.0" (id 12)'
+      );
+    });
+
+    it("rejects lists for single-choice fields", async () => {
+      const { encoder } = createEncoder();
+
+      await expect(encoder.encode({ "t-cf-2": [11, 12] })).rejects.toThrow("accepts a single choice");
+    });
+  });
+
+  describe("multiple-option fields", () => {
+    it("encodes labels and IDs as a de-duplicated list of choice IDs", async () => {
+      const { encoder } = createEncoder();
+
+      const result = await encoder.encode({ "t-cf-3": ["Refuel", 4, "shield verification", "1"] });
+
+      expect(result).toEqual({ "t-cf-3": [1, 4, 5] });
+    });
+
+    it("wraps a single value in a list", async () => {
+      const { encoder } = createEncoder();
+
+      expect(await encoder.encode({ "t-cf-3": "Refuel" })).toEqual({ "t-cf-3": [1] });
+    });
+
+    it("rejects unknown options", async () => {
+      const { encoder } = createEncoder();
+
+      await expect(encoder.encode({ "t-cf-3": ["Refuel", "Hyperdrive"] }))
+        .rejects.toThrow('"Hyperdrive" is not a valid choice. Valid options: "Refuel" (id 1)');
+    });
+  });
+
+  describe("scalar fields", () => {
+    it("validates dates as yyyy-mm-dd", async () => {
+      const { encoder } = createEncoder();
+
+      expect(await encoder.encode({ "t-cf-4": "2024-02-29" })).toEqual({ "t-cf-4": "2024-02-29" });
+      await expect(encoder.encode({ "t-cf-4": "2023-02-29" })).rejects.toThrow("yyyy-mm-dd");
+      await expect(encoder.encode({ "t-cf-4": "02/01/2024" })).rejects.toThrow("yyyy-mm-dd");
+    });
+
+    it("converts numbers and rounds to 2 decimal places", async () => {
+      const { encoder } = createEncoder();
+
+      expect(await encoder.encode({ "t-cf-5": "12.345" })).toEqual({ "t-cf-5": 12.35 });
+      expect(await encoder.encode({ "t-cf-5": 7 })).toEqual({ "t-cf-5": 7 });
+      await expect(encoder.encode({ "t-cf-5": "many" })).rejects.toThrow("must be a number");
+    });
+
+    it("stringifies text values and rejects objects", async () => {
+      const { encoder } = createEncoder();
+
+      expect(await encoder.encode({ "t-cf-1": 42 })).toEqual({ "t-cf-1": "42" });
+      await expect(encoder.encode({ "t-cf-1": { a: 1 } })).rejects.toThrow("must be text");
+    });
+
+    it("passes null and empty strings through to clear fields", async () => {
+      const { encoder } = createEncoder();
+
+      expect(await encoder.encode({ "t-cf-2": null, "t-cf-4": "" })).toEqual({ "t-cf-2": null, "t-cf-4": "" });
+    });
+  });
+
+  describe("keys and metadata", () => {
+    it("rejects unknown field IDs listing the known fields", async () => {
+      const { encoder } = createEncoder();
+
+      await expect(encoder.encode({ "c-cf-99": "x" }))
+        .rejects.toThrow("Unknown custom field c-cf-99. Valid fields: c-cf-9 (Region)");
+    });
+
+    it("rejects keys with unsupported prefixes", async () => {
+      const { encoder } = createEncoder();
+
+      await expect(encoder.encode({ "a-cf-1": "x" }))
+        .rejects.toThrow('Invalid custom field key "a-cf-1". Expected t-cf-{id}, c-cf-{id} or a field label');
+    });
+
+    it("only loads metadata for the prefixes in use, once per encoder", async () => {
+      const { encoder, sources } = createEncoder();
+
+      await encoder.encode({ "t-cf-1": "a", "t-cf-2": "1.0" });
+      await encoder.encode({ "t-cf-2": "2.0", "t-cf-1": "b" });
+
+      expect(sources["t-cf-"]).toHaveBeenCalledTimes(1);
+      expect(sources["t-cf-"]).toHaveBeenCalledWith([1, 2]);
+      expect(sources["c-cf-"]).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("field labels", () => {
+    it("maps labels to keys case-insensitively and encodes their values", async () => {
+      const { encoder, sources } = createEncoder();
+
+      const result = await encoder.encode({ "Product Version": "2.0", "go-live": "2024-02-29", " region ": "APAC" });
+
+      expect(result).toEqual({ "t-cf-2": 12, "t-cf-4": "2024-02-29", "c-cf-9": 3 });
+      expect(sources["t-cf-"]).toHaveBeenCalledWith(null);
+      expect(sources["c-cf-"]).toHaveBeenCalledWith(null);
+    });
+
+    it("accepts labels alongside keys", async () => {
+      const { encoder } = createEncoder();
+
+      expect(await encoder.encode({ "t-cf-1": "Hello", Seats: "3" })).toEqual({ "t-cf-1": "Hello", "t-cf-5": 3 });
+    });
+
+    it("rejects a field given both by key and by label", async () => {
+      const { encoder } = createEncoder();
+
+      await expect(encoder.encode({ "t-cf-5": 2, seats: 3 }))
+        .rejects.toThrow('Custom field "Seats" (t-cf-5) is given more than once');
+    });
+
+    it("rejects unknown labels listing the known fields", async () => {
+      const { encoder } = createEncoder();
+
+      await expect(encoder.encode({ Version: "1.0" }))
+        .rejects.toThrow('Unknown custom field "Version". Valid fields: t-cf-1 (Summary), t-cf-2 (Product Version)');
+    });
+
+    it("rejects labels shared by several fields", async () => {
+      const encoder = new CustomFieldEncoder({
+        "t-cf-": vi.fn().mockResolvedValue([{ id: 7, name: "Region", type: "text" }]),
+        "c-cf-": vi.fn().mockResolvedValue(contactFields)
+      });
+
+      await expect(encoder.encode({ Region: "APAC" }))
+        .rejects.toThrow('Custom field label "Region" matches more than one field: t-cf-7 (Region), c-cf-9 (Region). Use the key instead.');
+    });
+  });
+});
+
+describe("customFieldsByLabel", () => {
+  it("re-keys a custom_fields list by label", () => {
+    const fields = [
+      { id: 45, name: "Serial Number", type: "text", value: "GCJ1353" },
+      { id: 46, name: "Manufacturer", type: "text", value: null },
+      { id: 47, name: "Model", type: "text" }
+    ];
+
+    expect(customFieldsByLabel(fields)).toEqual({ "Serial Number": "GCJ1353", Manufacturer: null, Model: null });
+  });
+
+  it("suffixes repeated labels with the field ID", () => {
+    const fields = [{ id: 1, name: "Region", value: "APAC" }, { id: 2, name: "Region", value: "EMEA" }];
+
+    expect(customFieldsByLabel(fields)).toEqual({ "Region (1)": "APAC", "Region (2)": "EMEA" });
+  });
+
+  it("returns non-list values unchanged", () => {
+    expect(customFieldsByLabel(undefined)).toBeUndefined();
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { AssetEndpoints } from "../../../../src/happyfox/endpoints/assets";
+import { HappyFoxAPIError } from "../../../../src/happyfox/client";
 import { createMockClient } from "../../../helpers/client-mock";
 
 describe("AssetEndpoints", () => {
@@ -86,6 +87,15 @@ describe("AssetEndpoints", () => {
   });
 
   describe("createAsset", () => {
+    beforeEach(() => {
+      // Per-field custom field metadata used to validate custom_fields
+      (mockClient.get as any).mockImplementation(async (path: string) => ({
+        id: Number(path.match(/(\d+)\/$/)?.[1]),
+        name: "Field",
+        type: "text"
+      }));
+    });
+
     it("passes asset_type as query parameter", async () => {
       (mockClient.post as any).mockResolvedValue({ id: 1 });
 
@@ -197,9 +207,29 @@ describe("AssetEndpoints", () => {
         { asset_type: 5 }
       );
     });
+
+    it("matches custom field labels against the fields of the given asset type", async () => {
+      (mockClient.post as any).mockResolvedValue({ id: 1 });
+      (mockClient.get as any).mockResolvedValue({ data: [{ id: 45, name: "Serial Number", type: "text" }], page_info: { page_count: 1 } });
+
+      await endpoints.createAsset(5, { name: "Laptop", custom_fields: { "Serial Number": "GCJ1353" } });
+
+      expect(mockClient.get).toHaveBeenCalledTimes(1);
+      expect(mockClient.get).toHaveBeenCalledWith("/asset_custom_fields/", { asset_type: 5, page: 1, size: 50 });
+      expect(mockClient.post).toHaveBeenCalledWith("/assets/", { name: "Laptop", "a-cf-45": "GCJ1353" }, { asset_type: 5 });
+    });
   });
 
   describe("updateAsset", () => {
+    beforeEach(() => {
+      // Per-field custom field metadata used to validate custom_fields
+      (mockClient.get as any).mockImplementation(async (path: string) => ({
+        id: Number(path.match(/(\d+)\/$/)?.[1]),
+        name: "Field",
+        type: "text"
+      }));
+    });
+
     it("updates asset with PUT method", async () => {
       (mockClient.put as any).mockResolvedValue({ id: 123 });
 
@@ -254,6 +284,45 @@ describe("AssetEndpoints", () => {
       expect(calledWith["a-cf-1"]).toBe("value1");
       expect(calledWith["a-cf-2"]).toBe("value2");
     });
+
+    it("looks up each custom field and encodes multiple options as choice IDs", async () => {
+      (mockClient.put as any).mockResolvedValue({ id: 123 });
+      (mockClient.get as any).mockResolvedValue({
+        id: 6,
+        name: "Accessories",
+        type: "multiple_option",
+        choices: [{ id: 3, text: "Charger" }, { id: 4, text: "Case" }]
+      });
+
+      await endpoints.updateAsset(123, { custom_fields: { "a-cf-6": ["Charger", "Case"] } });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/asset_custom_fields/6/");
+      expect((mockClient.put as any).mock.calls[0][1]["a-cf-6"]).toEqual([3, 4]);
+    });
+
+    it("reports unknown custom fields instead of a 404", async () => {
+      (mockClient.get as any).mockRejectedValue(new HappyFoxAPIError("Not found", 404, "API_ERROR"));
+
+      await expect(endpoints.updateAsset(123, { custom_fields: { "a-cf-99": "x" } }))
+        .rejects.toThrow("Unknown custom field a-cf-99.");
+      expect(mockClient.put).not.toHaveBeenCalled();
+    });
+
+    it("matches custom field labels against the fields of the asset's type", async () => {
+      (mockClient.put as any).mockResolvedValue({ id: 123 });
+      (mockClient.get as any).mockImplementation(async (path: string, params?: any) => {
+        if (path === "/asset/123/") return { id: 123, asset_type: { id: 5, name: "Laptop" } };
+        return params.page === 1
+          ? { data: [{ id: 45, name: "Serial Number", type: "text" }], page_info: { page_count: 2 } }
+          : { data: [{ id: 46, name: "Manufacturer", type: "text" }], page_info: { page_count: 2 } };
+      });
+
+      await endpoints.updateAsset(123, { custom_fields: { manufacturer: "Dell" } });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/asset_custom_fields/", { asset_type: 5, page: 1, size: 50 });
+      expect(mockClient.get).toHaveBeenCalledWith("/asset_custom_fields/", { asset_type: 5, page: 2, size: 50 });
+      expect(mockClient.put).toHaveBeenCalledWith("/asset/123/", { "a-cf-46": "Dell" });
+    });
   });
 
   describe("deleteAsset", () => {
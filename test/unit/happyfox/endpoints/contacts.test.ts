@@ -9,6 +9,11 @@ describe("ContactEndpoints", () => {
   beforeEach(() => {
     mockClient = createMockClient();
     endpoints = new ContactEndpoints(mockClient as any);
+    // Custom field metadata used to validate custom_fields
+    (mockClient.getCached as any).mockResolvedValue([
+      { id: 1, name: "Field 1", type: "text" },
+      { id: 2, name: "Field 2", type: "text" }
+    ]);
   });
 
   describe("phone type mapping (via createContact)", () => {
@@ -227,6 +232,35 @@ describe("ContactEndpoints", () => {
         "c-cf-2": "value2"
       }));
     });
+
+    it("encodes choice labels using contact custom field metadata", async () => {
+      (mockClient.post as any).mockResolvedValue({ id: 1 });
+      (mockClient.getCached as any).mockResolvedValue([
+        { id: 5, name: "Region ID", type: "choice", choices: [{ id: 3, text: "APAC" }, { id: 1, text: "North America" }] }
+      ]);
+
+      await endpoints.createContact({
+        name: "Test",
+        email: "test@example.com",
+        custom_fields: { "c-cf-5": "North America" }
+      });
+
+      expect(mockClient.getCached).toHaveBeenCalledWith("contact-custom-fields", "/user_custom_fields/");
+      expect(mockClient.post).toHaveBeenCalledWith("/users/", expect.objectContaining({ "c-cf-5": 1 }));
+    });
+
+    it("rejects invalid choices before calling the API", async () => {
+      (mockClient.getCached as any).mockResolvedValue([
+        { id: 5, name: "Region ID", type: "choice", choices: [{ id: 3, text: "APAC" }] }
+      ]);
+
+      await expect(endpoints.createContact({
+        name: "Test",
+        email: "test@example.com",
+        custom_fields: { "c-cf-5": "EMEA" }
+      })).rejects.toThrow('Valid options: "APAC" (id 3)');
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
   });
 
   describe("listContacts", () => {
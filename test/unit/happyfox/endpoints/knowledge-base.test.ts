@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { KnowledgeBaseEndpoints } from "../../../../src/happyfox/endpoints/knowledge-base";
+import { HappyFoxAPIError } from "../../../../src/happyfox/client";
+import { createMockClient } from "../../../helpers/client-mock";
+
+describe("KnowledgeBaseEndpoints", () => {
+  let mockClient: ReturnType<typeof createMockClient>;
+  let endpoints: KnowledgeBaseEndpoints;
+
+  const articles = [
+    { id: 1, title: "Resetting your password", section: { id: 10, name: "Accounts" }, contents: "<p>Use the <b>Forgot password</b> link.</p>" },
+    { id: 2, title: "Billing FAQ", section: { id: 20, name: "Billing" }, contents: "<p>Invoices and password-protected PDFs.</p>" },
+    { id: 3, title: "Exporting data", section: 10, contents: "Download a CSV export from settings." }
+  ];
+
+  beforeEach(() => {
+    mockClient = createMockClient();
+    endpoints = new KnowledgeBaseEndpoints(mockClient as any);
+  });
+
+  describe("listArticles", () => {
+    it("fetches external articles", async () => {
+      (mockClient.get as any).mockResolvedValue(articles);
+
+      const result = await endpoints.listArticles();
+
+      expect(mockClient.get).toHaveBeenCalledWith("/kb/articles/");
+      expect(result).toEqual(articles);
+    });
+
+    it("unwraps paginated responses", async () => {
+      (mockClient.get as any).mockResolvedValue({ data: articles, page_info: { count: 3 } });
+
+      const result = await endpoints.listArticles();
+
+      expect(result).toEqual(articles);
+    });
+
+    it("filters by section object or section ID", async () => {
+      (mockClient.get as any).mockResolvedValue(articles);
+
+      const result = await endpoints.listArticles(10);
+
+      expect(result.map(a => a.id)).toEqual([1, 3]);
+    });
+  });
+
+  describe("listInternalArticles", () => {
+    it("fetches internal articles", async () => {
+      (mockClient.get as any).mockResolvedValue([]);
+
+      await endpoints.listInternalArticles();
+
+      expect(mockClient.get).toHaveBeenCalledWith("/kb/internal-articles/");
+    });
+  });
+
+  describe("getArticle", () => {
+    it("fetches a single external article", async () => {
+      (mockClient.get as any).mockResolvedValue(articles[0]);
+
+      await endpoints.getArticle(1);
+
+      expect(mockClient.get).toHaveBeenCalledWith("/kb/article/1/");
+    });
+  });
+
+  describe("getInternalArticle", () => {
+    it("finds the article in the internal list", async () => {
+      (mockClient.get as any).mockResolvedValue(articles);
+
+      const result = await endpoints.getInternalArticle("2");
+
+      expect(mockClient.get).toHaveBeenCalledWith("/kb/internal-articles/");
+      expect(result).toEqual(articles[1]);
+    });
+
+    it("throws a 404 HappyFoxAPIError when missing", async () => {
+      (mockClient.get as any).mockResolvedValue(articles);
+
+      const error = await endpoints.getInternalArticle(99).catch(e => e);
+
+      expect(error).toBeInstanceOf(HappyFoxAPIError);
+      expect(error.statusCode).toBe(404);
+      expect(error.message).toBe("Internal article 99 not found");
+    });
+  });
+
+  describe("sections", () => {
+    it("lists sections", async () => {
+      (mockClient.get as any).mockResolvedValue([]);
+
+      await endpoints.listSections();
+
+      expect(mockClient.get).toHaveBeenCalledWith("/kb/sections/");
+    });
+
+    it("fetches a single section", async () => {
+      (mockClient.get as any).mockResolvedValue({});
+
+      await endpoints.getSection(10);
+
+      expect(mockClient.get).toHaveBeenCalledWith("/kb/section/10/");
+    });
+  });
+
+  describe("searchArticles", () => {
+    beforeEach(() => {
+      (mockClient.get as any).mockResolvedValue(articles);
+    });
+
+    it("matches titles and contents case-insensitively, ranking title matches first", async () => {
+      const result = await endpoints.searchArticles({ query: "PASSWORD" });
+
+      expect(result.total).toBe(2);
+      expect(result.articles.map((a: any) => a.id)).toEqual([1, 2]);
+    });
+
+    it("requires every term to match", async () => {
+      const result = await endpoints.searchArticles({ query: "password invoices" });
+
+      expect(result.articles.map((a: any) => a.id)).toEqual([2]);
+    });
+
+    it("ignores HTML markup and returns plain-text snippets", async () => {
+      const result = await endpoints.searchArticles({ query: "forgot" });
+
+      expect(result.articles[0].snippet).toBe("Use the Forgot password link.");
+    });
+
+    it("respects section_id and limit", async () => {
+      const sectionResult = await endpoints.searchArticles({ query: "password", section_id: 20 });
+      expect(sectionResult.articles.map((a: any) => a.id)).toEqual([2]);
+
+      const limited = await endpoints.searchArticles({ query: "password", limit: 1 });
+      expect(limited.total).toBe(2);
+      expect(limited.articles).toHaveLength(1);
+    });
+
+    it("rejects empty queries", async () => {
+      await expect(endpoints.searchArticles({ query: "   " }))
+        .rejects.toThrow("at least one search term");
+    });
+
+    it("searches internal articles from the internal list", async () => {
+      await endpoints.searchInternalArticles({ query: "export" });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/kb/internal-articles/");
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ReportEndpoints } from "../../../../src/happyfox/endpoints/reports";
+import { createMockClient } from "../../../helpers/client-mock";
+
+describe("ReportEndpoints", () => {
+  let mockClient: ReturnType<typeof createMockClient>;
+  let endpoints: ReportEndpoints;
+
+  beforeEach(() => {
+    mockClient = createMockClient();
+    endpoints = new ReportEndpoints(mockClient as any);
+    (mockClient.get as any).mockResolvedValue({});
+  });
+
+  describe("listReports", () => {
+    it("sets default pagination", async () => {
+      await endpoints.listReports();
+
+      expect(mockClient.get).toHaveBeenCalledWith("/reports/", { page: 1, size: 50 });
+    });
+
+    it("caps size at 50", async () => {
+      await endpoints.listReports({ page: 2, size: 100 });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/reports/", { page: 2, size: 50 });
+    });
+  });
+
+  describe("getReportSummary", () => {
+    it("omits query params when no filters are given", async () => {
+      await endpoints.getReportSummary(3);
+
+      expect(mockClient.get).toHaveBeenCalledWith("/report/3/", undefined);
+    });
+
+    it("maps preset date ranges and defaults period to created", async () => {
+      await endpoints.getReportSummary(3, { date_range: "last_7_days" });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/report/3/", {
+        period_date_range_type: "l7d",
+        period_type: "cr"
+      });
+    });
+
+    it("maps custom date ranges to selected range with start and end", async () => {
+      await endpoints.getReportSummary(3, {
+        period: "closed",
+        start_date: "2024-01-01",
+        end_date: "2024-01-31"
+      });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/report/3/", {
+        period_date_range_type: "sr",
+        period_start: "2024-01-01",
+        period_end: "2024-01-31",
+        period_type: "cl"
+      });
+    });
+
+    it("rejects a custom range missing one end", async () => {
+      await expect(endpoints.getReportSummary(3, { start_date: "2024-01-01" }))
+        .rejects.toThrow("Both start_date and end_date are required");
+    });
+
+    it("rejects dates not in yyyy-mm-dd format", async () => {
+      await expect(endpoints.getReportSummary(3, { start_date: "01/01/2024", end_date: "2024-01-31" }))
+        .rejects.toThrow("yyyy-mm-dd");
+    });
+
+    it("rejects dates combined with a preset range", async () => {
+      await expect(endpoints.getReportSummary(3, {
+        date_range: "today",
+        start_date: "2024-01-01",
+        end_date: "2024-01-31"
+      })).rejects.toThrow('date_range "custom"');
+    });
+
+    it("rejects custom date_range without dates", async () => {
+      await expect(endpoints.getReportSummary(3, { date_range: "custom" }))
+        .rejects.toThrow("requires start_date and end_date");
+    });
+
+    it("rejects unknown periods and date ranges", async () => {
+      await expect(endpoints.getReportSummary(3, { period: "resolved" }))
+        .rejects.toThrow("Invalid period: resolved");
+      await expect(endpoints.getReportSummary(3, { date_range: "last_year" }))
+        .rejects.toThrow("Invalid date_range: last_year");
+    });
+  });
+
+  describe("getTabularData", () => {
+    it("sets default pagination", async () => {
+      await endpoints.getTabularData(1);
+
+      expect(mockClient.get).toHaveBeenCalledWith("/report/1/tabulardata/", { page: 1, size: 50 });
+    });
+
+    it("passes sorting and maps sort direction", async () => {
+      await endpoints.getTabularData(1, { sort_key: "created", sort_dir: "desc", size: 20, page: 3 });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/report/1/tabulardata/", {
+        page: 3,
+        size: 20,
+        sort_key: "created",
+        sort_dir: "d"
+      });
+    });
+
+    it("combines date filters with pagination", async () => {
+      await endpoints.getTabularData(1, { date_range: "month_to_date", period: "assigned", sort_dir: "asc" });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/report/1/tabulardata/", {
+        page: 1,
+        size: 50,
+        period_date_range_type: "mtd",
+        period_type: "as",
+        sort_dir: "a"
+      });
+    });
+  });
+
+  describe("views", () => {
+    it.each([
+      ["getStaffPerformance", "staffperformance"],
+      ["getStaffActivity", "staffactivity"],
+      ["getContactActivity", "customeractivity"]
+    ] as const)("%s requests /%s/ with pagination", async (method, path) => {
+      await endpoints[method](4, { sort_key: "name" });
+
+      expect(mockClient.get).toHaveBeenCalledWith(`/report/4/${path}/`, {
+        page: 1,
+        size: 50,
+        sort_key: "name"
+      });
+    });
+
+    it.each([
+      ["getResponseStats", "responsestats"],
+      ["getSlaEntries", "slaentries"]
+    ] as const)("%s requests /%s/ with date filters", async (method, path) => {
+      await endpoints[method](4, { date_range: "previous_month" });
+
+      expect(mockClient.get).toHaveBeenCalledWith(`/report/4/${path}/`, {
+        period_date_range_type: "pm",
+        period_type: "cr"
+      });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { TicketEndpoints } from "../../../../src/happyfox/endpoints/tickets";
+import { HappyFoxAPIError } from "../../../../src/happyfox/client";
 import { createMockClient } from "../../../helpers/client-mock";
 
 describe("TicketEndpoints", () => {
@@ -9,6 +10,11 @@ describe("TicketEndpoints", () => {
   beforeEach(() => {
     mockClient = createMockClient();
     endpoints = new TicketEndpoints(mockClient as any);
+    // Custom field metadata used to validate custom_fields
+    (mockClient.getCached as any).mockResolvedValue([
+      { id: 1, name: "Field 1", type: "text" },
+      { id: 2, name: "Field 2", type: "text" }
+    ]);
   });
 
   describe("createTicket", () => {
@@ -104,6 +110,40 @@ describe("TicketEndpoints", () => {
       }));
     });
 
+    it("encodes ticket and contact custom fields against their metadata", async () => {
+      (mockClient.post as any).mockResolvedValue({ id: 1 });
+      (mockClient.getCached as any).mockImplementation(async (resource: string) => resource === "ticket-custom-fields"
+        ? [{ id: 3, name: "Services", type: "multiple_choice", choices: [{ id: 1, text: "Refuel" }, { id: 4, text: "Cleanup" }] }]
+        : [{ id: 5, name: "Region", type: "choice", choices: [{ id: 2, text: "Europe" }] }]);
+
+      await endpoints.createTicket({
+        category: "1",
+        subject: "Test",
+        text: "Content",
+        email: "test@example.com",
+        name: "User",
+        custom_fields: { "t-cf-3": ["Refuel", "Cleanup"], "c-cf-5": "Europe" }
+      });
+
+      expect(mockClient.getCached).toHaveBeenCalledWith("contact-custom-fields", "/user_custom_fields/");
+      expect(mockClient.post).toHaveBeenCalledWith("/tickets/", expect.objectContaining({
+        "t-cf-3": [1, 4],
+        "c-cf-5": 2
+      }));
+    });
+
+    it("rejects invalid custom field values before calling the API", async () => {
+      await expect(endpoints.createTicket({
+        category: "1",
+        subject: "Test",
+        text: "Content",
+        email: "test@example.com",
+        name: "User",
+        custom_fields: { "t-cf-7": "x" }
+      })).rejects.toThrow("Unknown custom field t-cf-7. Valid fields: t-cf-1 (Field 1), t-cf-2 (Field 2)");
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+
     it("omits optional fields when not provided", async () => {
       (mockClient.post as any).mockResolvedValue({ id: 1 });
 
@@ -146,6 +186,42 @@ describe("TicketEndpoints", () => {
     });
   });
 
+  describe("searchTickets", () => {
+    it("compiles filters to q and searches all statuses", async () => {
+      (mockClient.get as any).mockResolvedValue({ data: [], page_info: {} });
+
+      const result = await endpoints.searchTickets({ assignee: ["none"], priority: ["High"], category: "3" });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/tickets/", {
+        page: 1,
+        size: 50,
+        status: "_all",
+        q: 'assignee:--none priority:"High"',
+        category: "3"
+      });
+      expect(result).toEqual({ data: [], page_info: {}, query: 'assignee:--none priority:"High"' });
+    });
+
+    it("applies date ranges client-side and flags them", async () => {
+      (mockClient.get as any).mockResolvedValue({
+        data: [{ id: 1, created_at: "2024-01-10 09:00:00" }, { id: 2, created_at: "2024-02-15 17:30:00" }],
+        page_info: { count: 2 }
+      });
+
+      const result = await endpoints.searchTickets({ pending_only: true, created_from: "2024-02-01" });
+
+      expect(mockClient.get).toHaveBeenCalledWith("/tickets/", { page: 1, size: 50, status: "_pending" });
+      expect(result.data).toEqual([{ id: 2, created_at: "2024-02-15 17:30:00" }]);
+      expect(result.client_side_filters.applied).toEqual(["created_from"]);
+      expect(result.client_side_filters.note).toContain("page only");
+    });
+
+    it("rejects invalid dates before calling the API", async () => {
+      await expect(endpoints.searchTickets({ created_to: "yesterday" })).rejects.toThrow("yyyy-mm-dd");
+      expect(mockClient.get).not.toHaveBeenCalled();
+    });
+  });
+
   describe("listTickets", () => {
     it("sets default pagination (page=1, size=50)", async () => {
       (mockClient.get as any).mockResolvedValue({ data: [] });
@@ -255,6 +331,59 @@ describe("TicketEndpoints", () => {
     });
   });
 
+  describe("getTicketAttachment", () => {
+    const ticket = {
+      id: 123,
+      updates: [
+        { message: null },
+        {
+          message: {
+            attachments: [
+              { id: 22, filename: "bicycle.gif", url: "https://files.example.com/bicycle.gif?sig=1" },
+              { id: 23, filename: "app.log", url: "https://files.example.com/app.log?sig=2" }
+            ]
+          }
+        }
+      ]
+    };
+
+    it("downloads the matching attachment from the ticket updates", async () => {
+      (mockClient.get as any).mockResolvedValue(ticket);
+      (mockClient.download as any).mockResolvedValue({
+        data: new TextEncoder().encode("log line"),
+        contentType: "application/octet-stream"
+      });
+
+      const result = await endpoints.getTicketAttachment("123", "23");
+
+      expect(mockClient.get).toHaveBeenCalledWith("/ticket/123/", undefined);
+      expect(mockClient.download).toHaveBeenCalledWith("https://files.example.com/app.log?sig=2", 5 * 1024 * 1024);
+      expect(result.id).toBe(23);
+      expect(result.filename).toBe("app.log");
+      expect(result.mimeType).toBe("text/plain");
+      expect(new TextDecoder().decode(result.data)).toBe("log line");
+    });
+
+    it("uses the download Content-Type when specific", async () => {
+      (mockClient.get as any).mockResolvedValue(ticket);
+      (mockClient.download as any).mockResolvedValue({ data: new Uint8Array([1]), contentType: "image/gif" });
+
+      const result = await endpoints.getTicketAttachment("123", "22");
+
+      expect(result.mimeType).toBe("image/gif");
+    });
+
+    it("throws NOT_FOUND when the attachment is not on the ticket", async () => {
+      (mockClient.get as any).mockResolvedValue(ticket);
+
+      await expect(endpoints.getTicketAttachment("123", "99")).rejects.toMatchObject({
+        statusCode: 404,
+        code: "NOT_FOUND"
+      });
+      expect(mockClient.download).not.toHaveBeenCalled();
+    });
+  });
+
   describe("updateTags", () => {
     it("joins add tags with comma", async () => {
       (mockClient.post as any).mockResolvedValue({ success: true });
@@ -292,14 +421,36 @@ describe("TicketEndpoints", () => {
   });
 
   describe("updateCustomFields", () => {
-    it("passes fields directly", async () => {
+    it("passes encoded fields", async () => {
       (mockClient.post as any).mockResolvedValue({ success: true });
+      (mockClient.getCached as any).mockResolvedValue([
+        { id: 1, name: "Field 1", type: "text" },
+        { id: 2, name: "Field 2", type: "number" }
+      ]);
 
       const fields = { "t-cf-1": "value1", "t-cf-2": 123 };
       await endpoints.updateCustomFields("123", fields);
 
+      expect(mockClient.getCached).toHaveBeenCalledWith("ticket-custom-fields", "/ticket_custom_fields/");
       expect(mockClient.post).toHaveBeenCalledWith("/ticket/123/update_custom_fields/", fields);
     });
+
+    it("rejects contact custom fields", async () => {
+      await expect(endpoints.updateCustomFields("123", { "c-cf-1": "x" }))
+        .rejects.toThrow('Invalid custom field key "c-cf-1". Expected t-cf-{id}');
+      expect(mockClient.post).not.toHaveBeenCalled();
+    });
+
+    it("maps field labels to t-cf- keys", async () => {
+      (mockClient.post as any).mockResolvedValue({ success: true });
+      (mockClient.getCached as any).mockResolvedValue([
+        { id: 2, name: "Product Version", type: "dropdown", choices: [{ id: 11, text: "3.2" }] }
+      ]);
+
+      await endpoints.updateCustomFields("123", { "Product Version": "3.2" });
+
+      expect(mockClient.post).toHaveBeenCalledWith("/ticket/123/update_custom_fields/", { "t-cf-2": 11 });
+    });
   });
 
   describe("moveCategory", () => {
@@ -379,6 +530,77 @@ describe("TicketEndpoints", () => {
     });
   });
 
+  describe("attachments", () => {
+    const attachment = { filename: "log.txt", mime_type: "text/plain", content: btoa("hello") };
+
+    it("sends createTicket as multipart when attachments are present", async () => {
+      (mockClient.post as any).mockResolvedValue({ id: 1 });
+
+      await endpoints.createTicket({
+        category: "1",
+        subject: "Test",
+        text: "Content",
+        email: "test@example.com",
+        name: "User",
+        tags: ["a", "b"],
+        attachments: [attachment]
+      });
+
+      const [path, body] = (mockClient.post as any).mock.calls[0];
+      expect(path).toBe("/tickets/");
+      expect(body).toBeInstanceOf(FormData);
+      expect(body.get("subject")).toBe("Test");
+      expect(body.get("tags")).toBe("a,b");
+
+      const file = body.get("attachments") as File;
+      expect(file.name).toBe("log.txt");
+      expect(file.type).toBe("text/plain");
+      expect(await file.text()).toBe("hello");
+    });
+
+    it("sends staff reply attachments as multipart", async () => {
+      (mockClient.post as any).mockResolvedValue({ id: 1 });
+
+      await endpoints.addStaffReply("123", { text: "Reply", staff_id: 5, attachments: [attachment] });
+
+      const [path, body] = (mockClient.post as any).mock.calls[0];
+      expect(path).toBe("/ticket/123/staff_update/");
+      expect(body.get("staff")).toBe("5");
+      expect(body.getAll("attachments")).toHaveLength(1);
+    });
+
+    it("sends private note attachments as multipart", async () => {
+      (mockClient.post as any).mockResolvedValue({ id: 1 });
+
+      await endpoints.addPrivateNote("123", { text: "Note", staff_id: 5, attachments: [attachment, attachment] });
+
+      const [path, body] = (mockClient.post as any).mock.calls[0];
+      expect(path).toBe("/ticket/123/staff_pvtnote/");
+      expect(body.getAll("attachments")).toHaveLength(2);
+    });
+
+    it("sends contact reply attachments as multipart", async () => {
+      (mockClient.post as any).mockResolvedValue({ id: 1 });
+
+      await endpoints.addContactReply("123", { text: "Reply", user: 9, attachments: [attachment] });
+
+      const [path, body] = (mockClient.post as any).mock.calls[0];
+      expect(path).toBe("/ticket/123/user_reply/");
+      expect(body.get("user")).toBe("9");
+    });
+
+    it("sends JSON when attachments array is empty", async () => {
+      (mockClient.post as any).mockResolvedValue({ id: 1 });
+
+      await endpoints.addStaffReply("123", { text: "Reply", staff_id: 5, attachments: [] });
+
+      expect(mockClient.post).toHaveBeenCalledWith("/ticket/123/staff_update/", {
+        staff: 5,
+        html: "Reply"
+      });
+    });
+  });
+
   describe("forwardTicket", () => {
     it("joins 'to' array with comma", async () => {
       (mockClient.post as any).mockResolvedValue({ success: true });
@@ -573,4 +795,97 @@ describe("TicketEndpoints", () => {
       await expect(endpoints.createTicketsBulk(tickets)).resolves.toEqual({ created: 100 });
     });
   });
+
+  describe("custom field choices", () => {
+    const fields = [
+      { id: 1, name: "Priority Notes", type: "text", choices: undefined },
+      {
+        id: 7,
+        name: "Product Version",
+        type: "choice",
+        choices: [
+          { id: 11, text: "1.0", dependant_fields: [3] },
+          { id: 12, text: "2.0" }
+        ]
+      }
+    ];
+
+    beforeEach(() => {
+      (mockClient.get as any).mockResolvedValue(fields);
+      (mockClient.put as any).mockResolvedValue({ id: 7 });
+    });
+
+    it("lists choices from the custom field metadata", async () => {
+      const result = await endpoints.listCustomFieldChoices(7);
+
+      expect(mockClient.get).toHaveBeenCalledWith("/ticket_custom_fields/");
+      expect(result).toEqual({
+        id: 7,
+        name: "Product Version",
+        type: "choice",
+        choices: [{ id: 11, text: "1.0" }, { id: 12, text: "2.0" }]
+      });
+    });
+
+    it("throws a 404 HappyFoxAPIError for unknown fields", async () => {
+      const error = await endpoints.listCustomFieldChoices(99).catch(e => e);
+
+      expect(error).toBeInstanceOf(HappyFoxAPIError);
+      expect(error.statusCode).toBe(404);
+    });
+
+    it("rejects fields without choices", async () => {
+      await expect(endpoints.listCustomFieldChoices(1)).rejects.toThrow("does not have choices");
+    });
+
+    it("adds new choices with null IDs, keeping existing choices and dependencies", async () => {
+      const result = await endpoints.addCustomFieldChoices(7, ["3.0", " 2.0 ", "3.0"]);
+
+      expect(mockClient.put).toHaveBeenCalledWith("/ticket_custom_field/7/", {
+        choices: [
+          { id: 11, text: "1.0", dependant_fields: [3] },
+          { id: 12, text: "2.0" },
+          { id: null, text: "3.0", dependant_fields: [] }
+        ]
+      });
+      expect(result).toEqual({ updated: true, added: ["3.0"], field: { id: 7 } });
+    });
+
+    it("skips the update when every choice already exists", async () => {
+      const result = await endpoints.addCustomFieldChoices(7, ["1.0"]);
+
+      expect(mockClient.put).not.toHaveBeenCalled();
+      expect(result.updated).toBe(false);
+    });
+
+    it("renames a choice keeping its ID", async () => {
+      await endpoints.renameCustomFieldChoice(7, 12, "2.0 LTS");
+
+      expect(mockClient.put).toHaveBeenCalledWith("/ticket_custom_field/7/", {
+        choices: [
+          { id: 11, text: "1.0", dependant_fields: [3] },
+          { id: 12, text: "2.0 LTS" }
+        ]
+      });
+    });
+
+    it("rejects renaming unknown choices", async () => {
+      await expect(endpoints.renameCustomFieldChoice(7, 99, "x")).rejects.toThrow("Choice 99 not found");
+      expect(mockClient.put).not.toHaveBeenCalled();
+    });
+
+    it("retires choices by omitting them", async () => {
+      await endpoints.retireCustomFieldChoices(7, [11]);
+
+      expect(mockClient.put).toHaveBeenCalledWith("/ticket_custom_field/7/", {
+        choices: [{ id: 12, text: "2.0" }]
+      });
+    });
+
+    it("rejects retiring unknown or all choices", async () => {
+      await expect(endpoints.retireCustomFieldChoices(7, [11, 99])).rejects.toThrow("Choice(s) 99 not found");
+      await expect(endpoints.retireCustomFieldChoices(7, [11, 12])).rejects.toThrow("Cannot retire every choice");
+      expect(mockClient.put).not.toHaveBeenCalled();
+    });
+  });
 });
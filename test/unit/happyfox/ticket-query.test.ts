@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { buildTicketQuery, clientSideFilters, matchesClientSideFilters } from "../../../src/happyfox/ticket-query";
+
+describe("buildTicketQuery", () => {
+  it("returns an empty query without filters", () => {
+    expect(buildTicketQuery({})).toBe("");
+  });
+
+  it("quotes priority, tag and contact values", () => {
+    expect(buildTicketQuery({
+      priority: ["High", "Critical"],
+      tag: ["routine_checks"],
+      contact: ["james@example.com"]
+    })).toBe('priority:"High","Critical" tag:"routine_checks" contact:"james@example.com"');
+  });
+
+  it("maps assignee keywords", () => {
+    expect(buildTicketQuery({ assignee: ["none"] })).toBe("assignee:--none");
+    expect(buildTicketQuery({ assignee: ["ANY", "jane@example.com"] })).toBe("assignee:--any,jane@example.com");
+  });
+
+  it("compiles due date and boolean filters", () => {
+    expect(buildTicketQuery({ duedate: "next_7_days", unresponded: true, breached: false, has_attachments: true }))
+      .toBe('duedate:"next 7 days" unresponded:true breached:false has_attachments:true');
+  });
+
+  it("leaves filters outside the documented syntax out of the query", () => {
+    expect(buildTicketQuery({
+      status: ["New"],
+      contact_group: ["VIP Customers"],
+      custom_fields: { Country: "finland" },
+      created_from: "2024-01-01"
+    })).toBe("");
+  });
+
+  it("rejects values that cannot be quoted", () => {
+    expect(() => buildTicketQuery({ tag: ['say "hi"'] })).toThrow("cannot contain double quotes");
+    expect(() => buildTicketQuery({ priority: [" "] })).toThrow("values must be non-empty");
+    expect(() => buildTicketQuery({ duedate: "someday" as any })).toThrow("Invalid duedate: someday");
+  });
+});
+
+describe("client-side filters", () => {
+  const tickets = [
+    { id: 1, created_at: "2024-01-10 09:00:00", last_updated_at: "2024-03-01 12:00:00" },
+    { id: 2, created_at: "2024-02-15 17:30:00", last_updated_at: "2024-02-20 08:00:00" },
+    { id: 3 }
+  ];
+
+  it("lists the active filters and validates them", () => {
+    expect(clientSideFilters({ created_from: "2024-01-01", tag: ["x"], status: [] })).toEqual(["created_from"]);
+    expect(clientSideFilters({ status: ["New"], custom_fields: { Country: "finland" } })).toEqual(["status", "custom_fields"]);
+    expect(() => clientSideFilters({ updated_to: "01/02/2024" })).toThrow("updated_to must be a date in yyyy-mm-dd format");
+    expect(() => clientSideFilters({ status: [" "] })).toThrow("values must be non-empty");
+  });
+
+  it("matches status names case-insensitively", () => {
+    const page = [{ id: 1, status: { name: "In Progress" } }, { id: 2, status: { name: "New" } }];
+    const filters = { status: ["in progress", "Closed"] };
+
+    expect(page.filter(ticket => matchesClientSideFilters(ticket, filters, clientSideFilters(filters))).map(t => t.id)).toEqual([1]);
+  });
+
+  it("matches contact groups of the ticket's contact, with none and any", () => {
+    const page = [
+      { id: 1, user: { contact_groups: [{ id: 5, name: "VIP Customers" }] } },
+      { id: 2, user: { contact_groups: [] } }
+    ];
+    const ids = (contact_group: string[]) =>
+      page.filter(ticket => matchesClientSideFilters(ticket, { contact_group }, ["contact_group"])).map(t => t.id);
+
+    expect(ids(["vip customers"])).toEqual([1]);
+    expect(ids(["none"])).toEqual([2]);
+    expect(ids(["any"])).toEqual([1]);
+  });
+
+  it("matches custom field values by label, any of a list", () => {
+    const page = [
+      { id: 1, custom_fields: [{ id: 7, name: "Country", value: "Finland" }, { id: 8, name: "Seats", value: 300 }] },
+      { id: 2, custom_fields: [{ id: 7, name: "Country", value: ["Germany", "France"] }] },
+      { id: 3 }
+    ];
+    const ids = (custom_fields: Record<string, any>) =>
+      page.filter(ticket => matchesClientSideFilters(ticket, { custom_fields }, ["custom_fields"])).map(t => t.id);
+
+    expect(ids({ country: ["finland", "france"] })).toEqual([1, 2]);
+    expect(ids({ Country: "finland", Seats: 300 })).toEqual([1]);
+  });
+
+  it("matches inclusive date ranges on the date part", () => {
+    const filters = { created_from: "2024-01-10", updated_to: "2024-02-20" };
+    const active = clientSideFilters(filters);
+
+    expect(tickets.filter(ticket => matchesClientSideFilters(ticket, filters, active)).map(t => t.id)).toEqual([2]);
+    expect(tickets.filter(ticket => matchesClientSideFilters(ticket, { created_to: "2024-01-10" }, ["created_to"])).map(t => t.id))
+      .toEqual([1]);
+    expect(tickets.filter(ticket => matchesClientSideFilters(ticket, { updated_to: "2024-02-20" }, ["updated_to"])).map(t => t.id))
+      .toEqual([2]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CompletionProvider, MAX_COMPLETION_VALUES } from "../../../../src/mcp/completions/provider";
+import { HappyFoxAuth } from "../../../../src/types";
+import { HappyFoxClient } from "../../../../src/happyfox/client";
+import { referenceCache } from "../../../../src/cache/reference-cache";
+
+describe("CompletionProvider", () => {
+  const testAuth: HappyFoxAuth = {
+    apiKey: "test-api-key",
+    authCode: "test-auth-code",
+    accountName: "testaccount",
+    region: "us"
+  };
+
+  const references: Record<string, any> = {
+    categories: [{ id: 1, name: "Support" }, { id: 2, name: "Sales" }, { id: 3, name: "Billing" }],
+    statuses: [{ id: 1, name: "New" }, { id: 2, name: "Closed" }],
+    staff: [
+      { id: 1, name: "Jane", email: "jane@example.com", active: true },
+      { id: 2, name: "Jim", email: "jim@example.com", active: false }
+    ],
+    "contact-groups": [{ id: 3, name: "VIP" }],
+    "asset-types": { data: [{ id: 1, name: "Laptop" }], page_info: {} }
+  };
+
+  const provider = new CompletionProvider();
+  const prompt = { type: "ref/prompt" as const, name: "triage" };
+
+  beforeEach(() => {
+    vi.spyOn(referenceCache, "getOrFetch").mockImplementation(async (_account, _region, resource, fetcher) =>
+      resource in references ? references[resource] : fetcher()
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("prefix-filters names case-insensitively", async () => {
+    const result = await provider.complete(prompt, "category", "s", testAuth);
+
+    expect(result).toEqual({ values: ["Sales", "Support"], total: 2, hasMore: false });
+  });
+
+  it("completes active staff emails", async () => {
+    const result = await provider.complete(prompt, "assignee", "j", testAuth);
+
+    expect(result.values).toEqual(["jane@example.com"]);
+  });
+
+  it("reads paginated asset types", async () => {
+    expect((await provider.complete(prompt, "asset_type", "", testAuth)).values).toEqual(["Laptop"]);
+  });
+
+  it("collects distinct tags from recent tickets", async () => {
+    const get = vi.spyOn(HappyFoxClient.prototype, "get").mockResolvedValue({
+      data: [{ tags: "billing, urgent" }, { tags: "urgent,backlog" }, { tags: "" }],
+      page_info: {}
+    });
+
+    const result = await provider.complete(prompt, "tag", "", testAuth);
+
+    expect(get).toHaveBeenCalledWith("/tickets/", { page: 1, size: 50, status: "_all" });
+    expect(result.values).toEqual(["backlog", "billing", "urgent"]);
+  });
+
+  it("caps results at 100 values", async () => {
+    references.categories = Array.from({ length: 150 }, (_, i) => ({ id: i, name: `Queue ${String(i).padStart(3, "0")}` }));
+
+    const result = await provider.complete(prompt, "category", "queue", testAuth);
+
+    expect(result.values).toHaveLength(MAX_COMPLETION_VALUES);
+    expect(result.total).toBe(150);
+    expect(result.hasMore).toBe(true);
+  });
+
+  it("completes contact group names for the contact group resource template", async () => {
+    const result = await provider.complete({ type: "ref/resource", uri: "happyfox://contact-group/{id}" }, "id", "v", testAuth);
+
+    expect(result.values).toEqual(["VIP"]);
+  });
+
+  it("returns no values for unknown arguments or failing lookups", async () => {
+    expect((await provider.complete(prompt, "subject", "", testAuth)).values).toEqual([]);
+    expect((await provider.complete({ type: "ref/resource", uri: "happyfox://ticket/{id}" }, "id", "", testAuth)).values).toEqual([]);
+
+    vi.spyOn(HappyFoxClient.prototype, "get").mockRejectedValue(new Error("API down"));
+    expect(await provider.complete(prompt, "tag", "", testAuth)).toEqual({ values: [], total: 0, hasMore: false });
+  });
+});
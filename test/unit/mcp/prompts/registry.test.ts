@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { PromptRegistry } from "../../../../src/mcp/prompts/registry";
+import { HappyFoxAuth, PromptNotFoundError } from "../../../../src/types";
+import { TicketEndpoints } from "../../../../src/happyfox/endpoints/tickets";
+import { ContactEndpoints } from "../../../../src/happyfox/endpoints/contacts";
+import { ReportEndpoints } from "../../../../src/happyfox/endpoints/reports";
+import { referenceCache } from "../../../../src/cache/reference-cache";
+
+describe("PromptRegistry", () => {
+  const testAuth: HappyFoxAuth = {
+    apiKey: "test-api-key",
+    authCode: "test-auth-code",
+    accountName: "testaccount",
+    region: "us"
+  };
+
+  const references: Record<string, any> = {
+    categories: [{ id: 1, name: "Support" }, { id: 2, name: "Billing" }],
+    statuses: [{ id: 1, name: "New" }],
+    staff: [{ id: 1, name: "Jane", email: "jane@example.com" }]
+  };
+
+  const registry = new PromptRegistry();
+
+  beforeEach(() => {
+    vi.spyOn(referenceCache, "getOrFetch").mockImplementation(async (_account, _region, resource) => references[resource]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lists prompts with their arguments", async () => {
+    const prompts = await registry.listPrompts();
+
+    const triage = prompts.find(prompt => prompt.name === "triage_ticket");
+    expect(triage?.arguments).toEqual([{ name: "ticket_id", description: "Ticket ID or display ID", required: true }]);
+    expect(prompts.every(prompt => !("build" in prompt))).toBe(true);
+  });
+
+  it("embeds the ticket and reference data for triage", async () => {
+    vi.spyOn(TicketEndpoints.prototype, "getTicket").mockResolvedValue({ id: 123, subject: "Printer on fire" });
+
+    const result = await registry.getPrompt("triage_ticket", { ticket_id: "123" }, testAuth);
+
+    const uris = result.messages
+      .map(message => message.content)
+      .filter(content => content.type === "resource")
+      .map((content: any) => content.resource.uri);
+    expect(uris).toEqual(["happyfox://ticket/123", "happyfox://categories", "happyfox://statuses", "happyfox://staff"]);
+    expect((result.messages[0].content as any).resource.text).toContain("Printer on fire");
+    expect(result.messages[result.messages.length - 1].content).toMatchObject({ type: "text" });
+  });
+
+  it("passes the tone into the draft reply instructions", async () => {
+    vi.spyOn(TicketEndpoints.prototype, "getTicket").mockResolvedValue({ id: 123 });
+
+    const result = await registry.getPrompt("draft_reply", { ticket_id: "123", tone: "apologetic" }, testAuth);
+
+    expect((result.messages[1].content as any).text).toContain("Tone: apologetic.");
+  });
+
+  it("searches the contact's tickets for the history summary", async () => {
+    vi.spyOn(ContactEndpoints.prototype, "getContact").mockResolvedValue({ id: 7, email: "ann@example.com" });
+    const search = vi.spyOn(TicketEndpoints.prototype, "searchTickets").mockResolvedValue({ data: [] });
+
+    await registry.getPrompt("summarize_contact_history", { email: "ann@example.com" }, testAuth);
+
+    expect(search).toHaveBeenCalledWith({ contact: ["ann@example.com"], size: 50 });
+  });
+
+  it("resolves the category name and includes SLA entries for the weekly review", async () => {
+    const search = vi.spyOn(TicketEndpoints.prototype, "searchTickets").mockResolvedValue({ data: [] });
+    const sla = vi.spyOn(ReportEndpoints.prototype, "getSlaEntries").mockResolvedValue({ rows: [] });
+
+    const result = await registry.getPrompt("weekly_sla_review", { report_id: "5", category: "billing" }, testAuth);
+
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ breached: true, category: 2, page: 1, size: 50 }));
+    expect(sla).toHaveBeenCalledWith(5, { date_range: "last_7_days" });
+    expect(result.messages).toHaveLength(3);
+  });
+
+  it("walks every page of breaches for the weekly review", async () => {
+    const search = vi.spyOn(TicketEndpoints.prototype, "searchTickets").mockImplementation(async ({ page }: any) => ({
+      data: page === 1 ? [{ id: 1 }] : [{ id: 2 }],
+      page_info: { page_count: 2 }
+    }));
+
+    const result = await registry.getPrompt("weekly_sla_review", {}, testAuth);
+
+    expect(search).toHaveBeenCalledTimes(2);
+    const listing = (result.messages[0].content as any).text;
+    expect(listing).toContain('"id": 2');
+    expect(listing).not.toContain("may be incomplete");
+  });
+
+  it("flags the review as incomplete when the page budget runs out", async () => {
+    vi.spyOn(TicketEndpoints.prototype, "searchTickets").mockImplementation(async ({ page }: any) => ({
+      data: [{ id: page }],
+      page_info: { page_count: 100 }
+    }));
+
+    const result = await registry.getPrompt("weekly_sla_review", {}, testAuth);
+
+    expect((result.messages[0].content as any).text).toContain("may be incomplete");
+  });
+
+  it("lists at most 50 breaches with only their SLA fields", async () => {
+    const tickets = Array.from({ length: 50 }, (_, i) => ({
+      id: i + 1,
+      subject: `Ticket ${i + 1}`,
+      status: { id: 1, name: "Open", behavior: "pending" },
+      assigned_to: { id: 7, name: "Ana", email: "ana@example.com" },
+      updates: [{ message: { text: "Long conversation" } }]
+    }));
+    const search = vi.spyOn(TicketEndpoints.prototype, "searchTickets").mockResolvedValue({ data: tickets, page_info: { page_count: 3 } });
+
+    const result = await registry.getPrompt("weekly_sla_review", {}, testAuth);
+
+    expect(search).toHaveBeenCalledTimes(1);
+    const listing = (result.messages[0].content as any).text;
+    const listed = JSON.parse(listing.slice(listing.indexOf("["), listing.lastIndexOf("]") + 1));
+    expect(listed).toHaveLength(50);
+    expect(listed[0]).toMatchObject({ id: 1, subject: "Ticket 1", status: "Open", assignee: "Ana" });
+    expect(listing).not.toContain("Long conversation");
+    expect(listing).toContain("truncated");
+  });
+
+  it("skips SLA entries when no report is given", async () => {
+    vi.spyOn(TicketEndpoints.prototype, "searchTickets").mockResolvedValue({ data: [] });
+    const sla = vi.spyOn(ReportEndpoints.prototype, "getSlaEntries");
+
+    const result = await registry.getPrompt("weekly_sla_review", {}, testAuth);
+
+    expect(sla).not.toHaveBeenCalled();
+    expect(result.messages).toHaveLength(2);
+  });
+
+  it("throws PromptNotFoundError for unknown prompts", async () => {
+    await expect(registry.getPrompt("nonexistent", {}, testAuth)).rejects.toThrow(PromptNotFoundError);
+  });
+});
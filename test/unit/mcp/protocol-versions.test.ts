@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  negotiateProtocolVersion,
+  isSupportedProtocolVersion,
+  getProtocolFeatures,
+  SUPPORTED_PROTOCOL_VERSIONS
+} from "../../../src/mcp/protocol-versions";
+import { MCP_PROTOCOL_VERSION } from "../../../src/types";
+
+describe("protocol versions", () => {
+  it("lists the latest version first", () => {
+    expect(SUPPORTED_PROTOCOL_VERSIONS).toEqual([MCP_PROTOCOL_VERSION, "2025-06-18", "2025-03-26"]);
+  });
+
+  describe("negotiateProtocolVersion", () => {
+    it("keeps a supported version", () => {
+      expect(negotiateProtocolVersion("2025-06-18")).toBe("2025-06-18");
+      expect(negotiateProtocolVersion("2025-03-26")).toBe("2025-03-26");
+    });
+
+    it("picks the newest supported version not newer than the request", () => {
+      expect(negotiateProtocolVersion("2026-06-30")).toBe(MCP_PROTOCOL_VERSION);
+      expect(negotiateProtocolVersion("2025-09-01")).toBe("2025-06-18");
+    });
+
+    it("returns null for versions older than any supported one", () => {
+      expect(negotiateProtocolVersion("2024-11-05")).toBeNull();
+    });
+
+    it("returns null for missing or malformed versions", () => {
+      expect(negotiateProtocolVersion(undefined)).toBeNull();
+      expect(negotiateProtocolVersion("latest")).toBeNull();
+      expect(negotiateProtocolVersion(20250618)).toBeNull();
+    });
+  });
+
+  it("recognises supported versions only", () => {
+    expect(isSupportedProtocolVersion("2025-06-18")).toBe(true);
+    expect(isSupportedProtocolVersion("2025-09-01")).toBe(false);
+    expect(isSupportedProtocolVersion("toString")).toBe(false);
+  });
+
+  it("allows batches only for 2025-03-26", () => {
+    expect(getProtocolFeatures("2025-03-26").batchRequests).toBe(true);
+    expect(getProtocolFeatures("2025-06-18").batchRequests).toBe(false);
+    expect(getProtocolFeatures(MCP_PROTOCOL_VERSION).batchRequests).toBe(false);
+  });
+
+  it("supports structured output from 2025-06-18", () => {
+    expect(getProtocolFeatures("2025-03-26").structuredOutput).toBe(false);
+    expect(getProtocolFeatures("2025-06-18").structuredOutput).toBe(true);
+    expect(getProtocolFeatures(MCP_PROTOCOL_VERSION).structuredOutput).toBe(true);
+  });
+
+  it("sends a priming event on streams only from 2025-11-25", () => {
+    expect(getProtocolFeatures("2025-06-18").streamPriming).toBe(false);
+    expect(getProtocolFeatures(MCP_PROTOCOL_VERSION).streamPriming).toBe(true);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import { fetchMock } from 'cloudflare:test';
 import { ResourceRegistry } from '../../../../src/mcp/resources/registry';
 import { ResourceNotFoundError, HappyFoxAuth } from '../../../../src/types';
 import { resetFetchMock, mockHappyFoxGet } from '../../../helpers/fetch-mock-helpers';
@@ -21,9 +22,33 @@ describe('ResourceRegistry', () => {
   });
 
   describe('constructor', () => {
-    it('initializes all 7 resources', async () => {
+    it('initializes all 8 resources', async () => {
       const resources = await registry.listResources();
-      expect(resources).toHaveLength(7);
+      expect(resources).toHaveLength(8);
+    });
+  });
+
+  describe('listResourceTemplates', () => {
+    it('lists templates without their internal matchers', async () => {
+      const templates = await registry.listResourceTemplates();
+
+      expect(templates.length).toBeGreaterThan(0);
+      templates.forEach(template => {
+        expect(Object.keys(template).sort()).toEqual(['description', 'mimeType', 'name', 'uriTemplate']);
+      });
+    });
+  });
+
+  describe('isSubscribable', () => {
+    it('allows tickets and reference data', () => {
+      expect(registry.isSubscribable('happyfox://ticket/42')).toBe(true);
+      expect(registry.isSubscribable('happyfox://statuses')).toBe(true);
+    });
+
+    it('rejects other resources', () => {
+      expect(registry.isSubscribable('happyfox://ticket/42/attachments/7')).toBe(false);
+      expect(registry.isSubscribable('happyfox://contact/1')).toBe(false);
+      expect(registry.isSubscribable('happyfox://unknown')).toBe(false);
     });
   });
 
@@ -54,6 +79,7 @@ describe('ResourceRegistry', () => {
       expect(uris).toContain('happyfox://staff');
       expect(uris).toContain('happyfox://contact-groups');
       expect(uris).toContain('happyfox://asset-types');
+      expect(uris).toContain('happyfox://kb/sections');
     });
 
     it('all resources have application/json mimeType', async () => {
@@ -162,6 +188,98 @@ describe('ResourceRegistry', () => {
       });
     });
 
+    describe('kb/sections resource', () => {
+      it('fetches knowledge base sections from API', async () => {
+        const mockData = [{ id: 1, name: 'Getting Started' }];
+        mockHappyFoxGet('/kb/sections/', mockData);
+
+        const result = await registry.readResource('happyfox://kb/sections', testAuth);
+
+        expect(result.uri).toBe('happyfox://kb/sections');
+        expect(JSON.parse(result.text)).toEqual(mockData);
+      });
+    });
+
+    describe('record templates', () => {
+      it('fetches a ticket by ID', async () => {
+        const ticket = { id: 42, subject: 'Printer on fire' };
+        mockHappyFoxGet('/ticket/42/', ticket);
+
+        const result = await registry.readResource('happyfox://ticket/42', testAuth);
+
+        expect(result.uri).toBe('happyfox://ticket/42');
+        expect(result.mimeType).toBe('application/json');
+        expect(JSON.parse(result.text)).toEqual(ticket);
+      });
+
+      it('fetches a contact by percent-encoded email', async () => {
+        const contact = { id: 7, email: 'jane+vip@example.com' };
+        mockHappyFoxGet('/user/jane+vip@example.com/', contact);
+
+        const result = await registry.readResource('happyfox://contact/jane%2Bvip%40example.com', testAuth);
+
+        expect(JSON.parse(result.text)).toEqual(contact);
+      });
+
+      it('fetches assets and contact groups by ID', async () => {
+        mockHappyFoxGet('/asset/659/', { id: 659, name: 'Laptop' });
+        mockHappyFoxGet('/contact_group/3/', { id: 3, name: 'VIP' });
+
+        expect(JSON.parse((await registry.readResource('happyfox://asset/659', testAuth)).text).name).toBe('Laptop');
+        expect(JSON.parse((await registry.readResource('happyfox://contact-group/3', testAuth)).text).name).toBe('VIP');
+      });
+
+      it('resolves contact group names to IDs', async () => {
+        mockHappyFoxGet('/contact_groups/', [{ id: 3, name: 'VIP' }, { id: 4, name: 'Partners' }]);
+        mockHappyFoxGet('/contact_group/4/', { id: 4, name: 'Partners' });
+
+        const result = await registry.readResource('happyfox://contact-group/partners', testAuth);
+
+        expect(JSON.parse(result.text).id).toBe(4);
+      });
+
+      it('reports unknown contact group names as missing resources', async () => {
+        mockHappyFoxGet('/contact_groups/', [{ id: 3, name: 'VIP' }]);
+
+        await expect(registry.readResource('happyfox://contact-group/partners', testAuth)).rejects.toThrow(ResourceNotFoundError);
+      });
+
+      it('rejects template values that would change the API path', async () => {
+        await expect(registry.readResource('happyfox://ticket/..%2Fusers', testAuth)).rejects.toThrow(ResourceNotFoundError);
+        await expect(registry.readResource('happyfox://contact/%E0%A4%A', testAuth)).rejects.toThrow(ResourceNotFoundError);
+        await expect(registry.readResource('happyfox://asset/abc', testAuth)).rejects.toThrow(ResourceNotFoundError);
+      });
+    });
+
+    describe('knowledge base article resources', () => {
+      it('fetches external articles by ID', async () => {
+        const article = { id: 12, title: 'Resetting your password', contents: '<p>Click reset</p>' };
+        mockHappyFoxGet('/kb/article/12/', article);
+
+        const result = await registry.readResource('happyfox://kb/articles/12', testAuth);
+
+        expect(result.uri).toBe('happyfox://kb/articles/12');
+        expect(result.mimeType).toBe('application/json');
+        expect(JSON.parse(result.text)).toEqual(article);
+      });
+
+      it('looks up internal articles from the internal list', async () => {
+        const article = { id: 5, title: 'Escalation runbook', contents: 'Page on-call' };
+        mockHappyFoxGet('/kb/internal-articles/', [{ id: 4, title: 'Other' }, article]);
+
+        const result = await registry.readResource('happyfox://kb/internal-articles/5', testAuth);
+
+        expect(JSON.parse(result.text)).toEqual(article);
+      });
+
+      it('propagates not-found errors for unknown internal articles', async () => {
+        mockHappyFoxGet('/kb/internal-articles/', []);
+
+        await expect(registry.readResource('happyfox://kb/internal-articles/99', testAuth))
+          .rejects.toThrow('Internal article 99 not found');
+      });
+    });
+
     describe('response format', () => {
       it('returns content with correct structure', async () => {
         const mockData = [{ id: 1, name: 'Test' }];
@@ -202,6 +320,48 @@ describe('ResourceRegistry', () => {
       });
     });
 
+    describe('ticket attachment resource', () => {
+      const ticket = {
+        id: 42,
+        updates: [{ message: { attachments: [{ id: 7, filename: 'app.log', url: 'https://files.example.com/app.log?sig=x' }] } }]
+      };
+
+      it('returns text attachments decoded as text', async () => {
+        mockHappyFoxGet('/ticket/42/', ticket);
+        fetchMock.get('https://files.example.com')
+          .intercept({ path: (p: string) => p.startsWith('/app.log'), method: 'GET' })
+          .reply(200, 'ERROR something failed', { headers: { 'Content-Type': 'binary/octet-stream' } });
+
+        const result = await registry.readResource('happyfox://ticket/42/attachments/7', testAuth);
+
+        expect(result.uri).toBe('happyfox://ticket/42/attachments/7');
+        expect(result.mimeType).toBe('text/plain');
+        expect(result.text).toBe('ERROR something failed');
+        expect(result.blob).toBeUndefined();
+      });
+
+      it('returns binary attachments as blobs', async () => {
+        mockHappyFoxGet('/ticket/42/', {
+          updates: [{ message: { attachments: [{ id: 8, filename: 'shot.png', url: 'https://files.example.com/shot.png' }] } }]
+        });
+        fetchMock.get('https://files.example.com')
+          .intercept({ path: '/shot.png', method: 'GET' })
+          .reply(200, 'PNG', { headers: { 'Content-Type': 'image/png' } });
+
+        const result = await registry.readResource('happyfox://ticket/42/attachments/8', testAuth);
+
+        expect(result.mimeType).toBe('image/png');
+        expect(result.blob).toBe(btoa('PNG'));
+      });
+
+      it('propagates not-found errors for unknown attachments', async () => {
+        mockHappyFoxGet('/ticket/42/', ticket);
+
+        await expect(registry.readResource('happyfox://ticket/42/attachments/999', testAuth))
+          .rejects.toThrow('Attachment 999 not found on ticket 42');
+      });
+    });
+
     describe('caching', () => {
       it('caches data after fetch', async () => {
         const mockData = [{ id: 1, name: 'Cached' }];
@@ -1,8 +1,11 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { MCPServer } from "../../../src/mcp/server";
-import { MCPRequest, MCPNotification, AuthContext, MCP_PROTOCOL_VERSION } from "../../../src/types";
+import { MCPRequest, MCPNotification, AuthContext, ToolContentResult, ToolExecutionError, RequestCancellation, MCP_PROTOCOL_VERSION } from "../../../src/types";
 import { ToolRegistry } from "../../../src/mcp/tools/registry";
 import { ResourceRegistry } from "../../../src/mcp/resources/registry";
+import { HappyFoxAPIError } from "../../../src/happyfox/client";
+import { referenceCache } from "../../../src/cache/reference-cache";
+import { resetFetchMock, mockHappyFoxGet } from "../../helpers/fetch-mock-helpers";
 import packageJson from "../../../package.json";
 
 describe("MCPServer", () => {
@@ -47,6 +50,105 @@ describe("MCPServer", () => {
       expect(result).toBeNull();
     });
 
+    describe("cancellation", () => {
+      // In-memory stand-in for the session hub's request tracking
+      function createCancellation() {
+        const controllers = new Map<string | number, AbortController>();
+        const cancellation: RequestCancellation = {
+          track: requestId => {
+            const controller = new AbortController();
+            controllers.set(requestId, controller);
+            return { signal: controller.signal, finish: async () => { controllers.delete(requestId); } };
+          },
+          cancel: vi.fn(async (requestId, reason) => { controllers.get(requestId)?.abort(reason); })
+        };
+        return { cancellation, controllers };
+      }
+
+      it("aborts the matching tool call on 'notifications/cancelled' and sends no response", async () => {
+        const { cancellation, controllers } = createCancellation();
+        const spy = vi.spyOn(ToolRegistry.prototype, "callToolWithAuth").mockImplementation(
+          (_name, _args, _auth, _channel, signal) => new Promise((_resolve, reject) => {
+            signal?.addEventListener("abort", () => reject(new ToolExecutionError("Request cancelled", 0, "CANCELLED")));
+          })
+        );
+        const sessionServer = new MCPServer(testAuthContext, undefined, undefined, undefined, cancellation);
+
+        const pending = sessionServer.handleMessage({
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { name: "happyfox_list_tickets", arguments: {} },
+          id: "call-1"
+        });
+        await vi.waitFor(() => expect(spy).toHaveBeenCalled());
+
+        // Another server instance of the same session (e.g. on another isolate) handles the cancel
+        const result = await new MCPServer(testAuthContext, undefined, undefined, undefined, cancellation).handleMessage({
+          jsonrpc: "2.0",
+          method: "notifications/cancelled",
+          params: { requestId: "call-1", reason: "User aborted" }
+        });
+
+        expect(result).toBeNull();
+        const signal = spy.mock.calls[0][4];
+        expect(signal?.aborted).toBe(true);
+        expect(signal?.reason).toBe("User aborted");
+        expect(await pending).toBeNull();
+        expect(controllers.size).toBe(0);
+        spy.mockRestore();
+      });
+
+      it("answers tool calls that finish without being cancelled", async () => {
+        const { cancellation, controllers } = createCancellation();
+        const spy = vi.spyOn(ToolRegistry.prototype, "callToolWithAuth").mockResolvedValue({ id: 1 });
+        const sessionServer = new MCPServer(testAuthContext, undefined, undefined, undefined, cancellation);
+
+        const result = await sessionServer.handleMessage({
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { name: "happyfox_get_ticket", arguments: { ticket_id: "1" } },
+          id: 2
+        });
+
+        expect(result?.id).toBe(2);
+        expect(controllers.size).toBe(0);
+        spy.mockRestore();
+      });
+
+      it("runs untracked calls without a signal while still forwarding cancels", async () => {
+        const cancel = vi.fn(async () => {});
+        const sessionServer = new MCPServer(testAuthContext, undefined, undefined, undefined, { cancel });
+        const spy = vi.spyOn(ToolRegistry.prototype, "callToolWithAuth").mockResolvedValue({ id: 1 });
+
+        const result = await sessionServer.handleMessage({
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { name: "happyfox_get_ticket", arguments: { ticket_id: "1" } },
+          id: 3
+        });
+        await sessionServer.handleMessage({
+          jsonrpc: "2.0",
+          method: "notifications/cancelled",
+          params: { requestId: 4 }
+        });
+
+        expect(result?.id).toBe(3);
+        expect(spy.mock.calls[0][4]).toBeUndefined();
+        expect(cancel).toHaveBeenCalledWith(4, undefined);
+        spy.mockRestore();
+      });
+    });
+
+    it("ignores 'notifications/cancelled' for unknown requests", async () => {
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 404 }
+      });
+
+      expect(result).toBeNull();
+    });
+
     it("silently ignores unknown notifications", async () => {
       const notification: MCPNotification = {
         jsonrpc: "2.0",
@@ -124,6 +226,30 @@ describe("MCPServer", () => {
       expect(result?.error?.message).toContain("Unsupported protocol version");
     });
 
+    it("accepts older supported protocol versions", async () => {
+      for (const protocolVersion of ["2025-06-18", "2025-03-26"]) {
+        const result = await server.handleMessage({
+          jsonrpc: "2.0",
+          method: "initialize",
+          params: { protocolVersion, capabilities: {} },
+          id: 1
+        });
+
+        expect(result?.result?.protocolVersion).toBe(protocolVersion);
+      }
+    });
+
+    it("answers newer unknown versions with the latest supported version", async () => {
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "initialize",
+        params: { protocolVersion: "2026-06-30", capabilities: {} },
+        id: 1
+      });
+
+      expect(result?.result?.protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+    });
+
     it("returns server capabilities", async () => {
       const request: MCPRequest = {
         jsonrpc: "2.0",
@@ -139,7 +265,9 @@ describe("MCPServer", () => {
 
       expect(result?.result?.capabilities).toEqual({
         tools: {},
-        resources: {}
+        resources: {},
+        prompts: {},
+        completions: {}
       });
     });
 
@@ -177,6 +305,27 @@ describe("MCPServer", () => {
       expect(Array.isArray(result?.result?.tools)).toBe(true);
     });
 
+    it("includes output schemas for ticket, contact and asset tools", async () => {
+      const result = await server.handleMessage({ jsonrpc: "2.0", method: "tools/list", id: 1 });
+      const tools: any[] = result?.result?.tools;
+
+      const getTicket = tools.find(tool => tool.name === "happyfox_get_ticket");
+      expect(getTicket.outputSchema).toMatchObject({ type: "object", required: ["id"] });
+      const listAssets = tools.find(tool => tool.name === "happyfox_list_assets");
+      expect(listAssets.outputSchema.properties.data.items.properties).toHaveProperty("asset_type");
+    });
+
+    it("leaves out output schemas for 2025-03-26 sessions", async () => {
+      const legacyServer = new MCPServer(testAuthContext, undefined, "2025-03-26");
+      const result = await legacyServer.handleMessage({ jsonrpc: "2.0", method: "tools/list", id: 1 });
+      const tools: any[] = result?.result?.tools;
+
+      expect(tools.some(tool => "outputSchema" in tool)).toBe(false);
+      // The shared registry definitions keep their schemas
+      const current = await server.handleMessage({ jsonrpc: "2.0", method: "tools/list", id: 2 });
+      expect(current?.result?.tools.find((tool: any) => tool.name === "happyfox_get_ticket").outputSchema).toBeDefined();
+    });
+
     it("handles cursor for pagination", async () => {
       const request: MCPRequest = {
         jsonrpc: "2.0",
@@ -294,6 +443,125 @@ describe("MCPServer", () => {
       expect(result?.result?.isError).toBe(true);
       expect(result?.result?.content[0]?.text).toContain("string error from tool");
     });
+
+    it("passes ToolContentResult content through without stringifying", async () => {
+      const contentServer = new MCPServer(testAuthContext);
+      const resource = { uri: "happyfox://ticket/1/attachments/2", mimeType: "image/png", blob: "UE5H" };
+
+      vi.spyOn((contentServer as any).toolRegistry, 'callToolWithAuth').mockResolvedValue(
+        new ToolContentResult([{ type: "resource", resource }])
+      );
+
+      const request: MCPRequest = {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: {
+          name: "happyfox_get_ticket_attachment",
+          arguments: { ticket_id: "1", attachment_id: "2" }
+        },
+        id: 1
+      };
+
+      const result = await contentServer.handleMessage(request);
+
+      expect(result?.result).toEqual({ content: [{ type: "resource", resource }] });
+    });
+
+    it("returns structuredContent for tools with an output schema", async () => {
+      const ticket = { id: 1, subject: "Printer on fire" };
+      vi.spyOn((server as any).toolRegistry, 'callToolWithAuth').mockResolvedValue(ticket);
+
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "happyfox_get_ticket", arguments: { ticket_id: "1" } },
+        id: 1
+      });
+
+      expect(result?.result?.structuredContent).toEqual(ticket);
+      expect(JSON.parse(result?.result?.content[0]?.text)).toEqual(ticket);
+    });
+
+    it("wraps array results to match the output schema", async () => {
+      const tickets = [{ id: 1 }, { id: 2 }];
+      vi.spyOn((server as any).toolRegistry, 'callToolWithAuth').mockResolvedValue(tickets);
+
+      const list = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "happyfox_list_tickets", arguments: {} },
+        id: 1
+      });
+      expect(list?.result?.structuredContent).toEqual({ data: tickets });
+
+      vi.spyOn((server as any).toolRegistry, 'callToolWithAuth').mockResolvedValue([{ id: 1 }]);
+      const single = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "happyfox_get_ticket", arguments: { ticket_id: "1" } },
+        id: 2
+      });
+      expect(single?.result?.structuredContent).toEqual({ id: 1 });
+    });
+
+    it("reports a tool error when a read result cannot match the output schema", async () => {
+      vi.spyOn((server as any).toolRegistry, 'callToolWithAuth').mockResolvedValue("OK");
+
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "happyfox_get_ticket", arguments: { ticket_id: "1" } },
+        id: 1
+      });
+
+      expect(result?.result?.isError).toBe(true);
+      expect(result?.result).not.toHaveProperty("structuredContent");
+      expect(result?.result?._meta).toEqual({ statusCode: 502, errorCode: "UNEXPECTED_RESPONSE" });
+    });
+
+    it("returns a completed write as text when its result cannot match the output schema", async () => {
+      vi.spyOn((server as any).toolRegistry, 'callToolWithAuth').mockResolvedValue("Created");
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "happyfox_create_ticket", arguments: {} },
+        id: 1
+      });
+
+      expect(result?.result).toEqual({ content: [{ type: "text", text: "Created" }] });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("happyfox_create_ticket"));
+      warn.mockRestore();
+    });
+
+    it("omits structuredContent for tools without an output schema", async () => {
+      vi.spyOn((server as any).toolRegistry, 'callToolWithAuth').mockResolvedValue({ success: true });
+
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "happyfox_delete_ticket", arguments: { ticket_id: "1" } },
+        id: 1
+      });
+
+      expect(result?.result).not.toHaveProperty("structuredContent");
+    });
+
+    it("omits structuredContent for 2025-03-26 sessions", async () => {
+      const legacyServer = new MCPServer(testAuthContext, undefined, "2025-03-26");
+      vi.spyOn((legacyServer as any).toolRegistry, 'callToolWithAuth').mockResolvedValue({ id: 1 });
+
+      const result = await legacyServer.handleMessage({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "happyfox_get_ticket", arguments: { ticket_id: "1" } },
+        id: 1
+      });
+
+      expect(result?.result).not.toHaveProperty("structuredContent");
+      expect(JSON.parse(result?.result?.content[0]?.text)).toEqual({ id: 1 });
+    });
   });
 
   describe("handleResourcesList", () => {
@@ -324,6 +592,45 @@ describe("MCPServer", () => {
     });
   });
 
+  describe("handleResourceTemplatesList", () => {
+    it("returns resource templates", async () => {
+      const request: MCPRequest = {
+        jsonrpc: "2.0",
+        method: "resources/templates/list",
+        id: 1
+      };
+
+      const result = await server.handleMessage(request);
+      const uriTemplates = result?.result?.resourceTemplates.map((t: any) => t.uriTemplate);
+
+      expect(uriTemplates).toContain("happyfox://ticket/{id}");
+      expect(uriTemplates).toContain("happyfox://contact/{idOrEmail}");
+      expect(uriTemplates).toContain("happyfox://asset/{id}");
+      expect(uriTemplates).toContain("happyfox://contact-group/{id}");
+    });
+
+    it("hides templates that need a scope the token lacks", async () => {
+      const request: MCPRequest = { jsonrpc: "2.0", method: "resources/templates/list", id: 1 };
+
+      const withoutScope = await server.handleMessage(request);
+      const withScope = await new MCPServer({
+        ...testAuthContext,
+        scopes: ["happyfox:read", "happyfox:kb-internal"]
+      }).handleMessage(request);
+
+      const internal = "happyfox://kb/internal-articles/{id}";
+      expect(withoutScope?.result?.resourceTemplates.map((t: any) => t.uriTemplate)).not.toContain(internal);
+      expect(withScope?.result?.resourceTemplates.map((t: any) => t.uriTemplate)).toContain(internal);
+    });
+
+    it("requires happyfox:read scope", async () => {
+      const result = await new MCPServer({ ...testAuthContext, scopes: ["happyfox:write"] })
+        .handleMessage({ jsonrpc: "2.0", method: "resources/templates/list", id: 1 });
+
+      expect(result?.error?.code).toBe(-32600);
+    });
+  });
+
   describe("handleResourceRead", () => {
     // Note: Authentication is now handled by OAuth layer in index.ts
     // MCPServer expects an already-authenticated AuthContext
@@ -357,6 +664,239 @@ describe("MCPServer", () => {
       expect(result?.error?.code).toBe(-32602);
       expect(result?.error?.message).toContain("Resource not found");
     });
+
+    it("maps a HappyFox 404 from a template to Resource not found", async () => {
+      resetFetchMock();
+      mockHappyFoxGet("/ticket/999/", { error: "Ticket not found" }, 404);
+
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "resources/read",
+        params: { uri: "happyfox://ticket/999" },
+        id: 1
+      });
+
+      expect(result?.error).toEqual({ code: -32602, message: "Resource not found: happyfox://ticket/999" });
+    });
+
+    it("returns other HappyFox errors as internal errors with a message", async () => {
+      vi.spyOn((server as any).resourceRegistry, "readResource").mockRejectedValue(
+        new HappyFoxAPIError("Invalid API credentials", 401, "API_ERROR")
+      );
+
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "resources/read",
+        params: { uri: "happyfox://ticket/42" },
+        id: 1
+      });
+
+      expect(result?.error).toEqual({
+        code: -32603,
+        message: "Invalid API credentials",
+        data: { statusCode: 401, code: "API_ERROR" }
+      });
+    });
+
+    it("requires happyfox:kb-internal scope for internal KB articles", async () => {
+      const request: MCPRequest = {
+        jsonrpc: "2.0",
+        method: "resources/read",
+        params: {
+          uri: "happyfox://kb/internal-articles/5"
+        },
+        id: 1
+      };
+
+      const result = await server.handleMessage(request);
+
+      expect(result?.error?.code).toBe(-32600);
+      expect(result?.error?.message).toContain("requires happyfox:kb-internal scope");
+    });
+  });
+
+  describe("handleResourceSubscribe", () => {
+    function createSubscriptions() {
+      return { subscribe: vi.fn().mockResolvedValue(undefined), unsubscribe: vi.fn().mockResolvedValue(undefined) };
+    }
+
+    it("advertises subscriptions when a hub is available", async () => {
+      const hubServer = new MCPServer(testAuthContext, undefined, MCP_PROTOCOL_VERSION, createSubscriptions());
+
+      const result = await hubServer.handleMessage({
+        jsonrpc: "2.0",
+        method: "initialize",
+        params: { protocolVersion: MCP_PROTOCOL_VERSION, capabilities: {} },
+        id: 1
+      });
+
+      expect(result?.result?.capabilities.resources).toEqual({ subscribe: true });
+    });
+
+    it("returns Method not found without a hub", async () => {
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "resources/subscribe",
+        params: { uri: "happyfox://ticket/42" },
+        id: 1
+      });
+
+      expect(result?.error?.code).toBe(-32601);
+    });
+
+    it("subscribes with the resource's current content", async () => {
+      const subscriptions = createSubscriptions();
+      const hubServer = new MCPServer(testAuthContext, undefined, MCP_PROTOCOL_VERSION, subscriptions);
+      const content = { uri: "happyfox://ticket/42", mimeType: "application/json", text: "{}" };
+      vi.spyOn((hubServer as any).resourceRegistry, "readResource").mockResolvedValue(content);
+
+      const result = await hubServer.handleMessage({
+        jsonrpc: "2.0",
+        method: "resources/subscribe",
+        params: { uri: "happyfox://ticket/42" },
+        id: 1
+      });
+
+      expect(result?.result).toEqual({});
+      expect(subscriptions.subscribe).toHaveBeenCalledWith(content);
+    });
+
+    it("unsubscribes", async () => {
+      const subscriptions = createSubscriptions();
+      const hubServer = new MCPServer(testAuthContext, undefined, MCP_PROTOCOL_VERSION, subscriptions);
+
+      const result = await hubServer.handleMessage({
+        jsonrpc: "2.0",
+        method: "resources/unsubscribe",
+        params: { uri: "happyfox://statuses" },
+        id: 1
+      });
+
+      expect(result?.result).toEqual({});
+      expect(subscriptions.unsubscribe).toHaveBeenCalledWith("happyfox://statuses");
+    });
+
+    it("rejects resources that do not support subscriptions", async () => {
+      const subscriptions = createSubscriptions();
+      const hubServer = new MCPServer(testAuthContext, undefined, MCP_PROTOCOL_VERSION, subscriptions);
+
+      const result = await hubServer.handleMessage({
+        jsonrpc: "2.0",
+        method: "resources/subscribe",
+        params: { uri: "happyfox://ticket/42/attachments/7" },
+        id: 1
+      });
+
+      expect(result?.error?.code).toBe(-32602);
+      expect(result?.error?.message).toContain("does not support subscriptions");
+      expect(subscriptions.subscribe).not.toHaveBeenCalled();
+    });
+
+    it("requires happyfox:read scope", async () => {
+      const hubServer = new MCPServer({ ...testAuthContext, scopes: ["happyfox:write"] }, undefined, MCP_PROTOCOL_VERSION, createSubscriptions());
+
+      const result = await hubServer.handleMessage({
+        jsonrpc: "2.0",
+        method: "resources/subscribe",
+        params: { uri: "happyfox://ticket/42" },
+        id: 1
+      });
+
+      expect(result?.error?.code).toBe(-32600);
+    });
+  });
+
+  describe("handlePromptsList", () => {
+    it("lists prompts without their builders", async () => {
+      const result = await server.handleMessage({ jsonrpc: "2.0", method: "prompts/list", id: 1 });
+
+      const names = result?.result?.prompts.map((prompt: any) => prompt.name);
+      expect(names).toEqual(["triage_ticket", "draft_reply", "summarize_contact_history", "weekly_sla_review"]);
+      expect(result?.result?.prompts[0]).not.toHaveProperty("build");
+    });
+
+    it("requires happyfox:read scope", async () => {
+      const result = await new MCPServer({ ...testAuthContext, scopes: ["happyfox:write"] }).handleMessage({
+        jsonrpc: "2.0",
+        method: "prompts/list",
+        id: 1
+      });
+
+      expect(result?.error?.code).toBe(-32600);
+    });
+  });
+
+  describe("handlePromptGet", () => {
+    it("returns the prompt messages", async () => {
+      const getPrompt = vi.spyOn(server["promptRegistry"], "getPrompt").mockResolvedValue({
+        description: "Draft a reply",
+        messages: [{ role: "user", content: { type: "text", text: "Draft it" } }]
+      });
+
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "prompts/get",
+        params: { name: "draft_reply", arguments: { ticket_id: "123" } },
+        id: 1
+      });
+
+      expect(result?.result?.messages).toHaveLength(1);
+      expect(getPrompt).toHaveBeenCalledWith("draft_reply", { ticket_id: "123" }, testAuthContext.credentials);
+    });
+
+    it("rejects unknown prompts", async () => {
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "prompts/get",
+        params: { name: "nonexistent" },
+        id: 1
+      });
+
+      expect(result?.error?.code).toBe(-32602);
+      expect(result?.error?.message).toBe("Prompt not found: nonexistent");
+    });
+
+    it("maps a missing ticket to an invalid params error", async () => {
+      resetFetchMock();
+      mockHappyFoxGet("/ticket/999/", { error: "Ticket not found" }, 404);
+      const getOrFetch = vi.spyOn(referenceCache, "getOrFetch").mockResolvedValue([]);
+
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "prompts/get",
+        params: { name: "triage_ticket", arguments: { ticket_id: "999" } },
+        id: 1
+      });
+
+      expect(result?.error).toEqual({
+        code: -32602,
+        message: "Not found: no HappyFox record matches the prompt arguments (ticket_id=999)"
+      });
+      getOrFetch.mockRestore();
+    });
+
+    it("rejects missing required arguments", async () => {
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "prompts/get",
+        params: { name: "triage_ticket", arguments: {} },
+        id: 1
+      });
+
+      expect(result?.error?.code).toBe(-32602);
+      expect(result?.error?.message).toContain("ticket_id");
+    });
+
+    it("requires happyfox:read scope", async () => {
+      const result = await new MCPServer({ ...testAuthContext, scopes: ["happyfox:write"] }).handleMessage({
+        jsonrpc: "2.0",
+        method: "prompts/get",
+        params: { name: "weekly_sla_review" },
+        id: 1
+      });
+
+      expect(result?.error?.code).toBe(-32600);
+    });
   });
 
   describe("handleCompletion", () => {
@@ -379,6 +919,28 @@ describe("MCPServer", () => {
         hasMore: false
       });
     });
+
+    it("rejects requests without a valid ref", async () => {
+      const result = await server.handleMessage({
+        jsonrpc: "2.0",
+        method: "completion/complete",
+        params: { ref: { type: "ref/tool" }, argument: { name: "status", value: "" } },
+        id: 1
+      });
+
+      expect(result?.error?.code).toBe(-32602);
+    });
+
+    it("requires happyfox:read scope", async () => {
+      const result = await new MCPServer({ ...testAuthContext, scopes: ["happyfox:write"] }).handleMessage({
+        jsonrpc: "2.0",
+        method: "completion/complete",
+        params: { ref: { type: "ref/prompt", name: "triage" }, argument: { name: "status", value: "" } },
+        id: 1
+      });
+
+      expect(result?.error?.code).toBe(-32600);
+    });
   });
 
   describe("error handling", () => {
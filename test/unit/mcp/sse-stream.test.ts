@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { SSEStream } from "../../../src/mcp/sse-stream";
+import type { ReplayEntry, ReplayRecorder } from "../../../src/session/replay-buffer";
+
+const STREAM_ID = "0f8fad5b-d9cb-469f-a165-70867728950e";
+
+// Records in memory what the session hub would store
+class MemoryRecorder implements ReplayRecorder {
+  entries = new Map<string, ReplayEntry>();
+
+  async record(streamId: string, sequence: number, entry: ReplayEntry): Promise<void> {
+    this.entries.set(`${streamId}-${sequence}`, entry);
+  }
+}
+
+describe("SSEStream", () => {
+  it("writes each message as a message event and ends on close", async () => {
+    const stream = new SSEStream();
+    const body = new Response(stream.readable).text();
+
+    await stream.send({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: 1, progress: 1 } });
+    await stream.send({ jsonrpc: "2.0", id: 1, result: {} });
+    await stream.close();
+
+    expect(await body).toBe(
+      'event: message\ndata: {"jsonrpc":"2.0","method":"notifications/progress","params":{"progressToken":1,"progress":1}}\n\n' +
+      'event: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n'
+    );
+  });
+
+  describe("with a replay recorder", () => {
+    it("sends a priming event and gives every event an ID", async () => {
+      const stream = new SSEStream({ buffer: new MemoryRecorder(), streamId: STREAM_ID });
+      const body = new Response(stream.readable).text();
+
+      await stream.begin(true);
+      await stream.send({ jsonrpc: "2.0", id: 1, result: {} });
+      await stream.close();
+
+      expect(await body).toBe(
+        `id: ${STREAM_ID}-0\ndata: \n\n` +
+        `id: ${STREAM_ID}-1\nevent: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n`
+      );
+    });
+
+    it("records the events, ending with the end marker", async () => {
+      const buffer = new MemoryRecorder();
+      const stream = new SSEStream({ buffer, streamId: STREAM_ID });
+      const body = new Response(stream.readable).text();
+
+      await stream.begin(false);
+      await stream.send({ jsonrpc: "2.0", id: 1, result: {} });
+      await stream.close();
+
+      expect(await body).toBe(`id: ${STREAM_ID}-1\nevent: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n`);
+      expect(buffer.entries.get(`${STREAM_ID}-0`)).toEqual({ start: true });
+      expect(buffer.entries.get(`${STREAM_ID}-1`)).toEqual({ message: { jsonrpc: "2.0", id: 1, result: {} } });
+      expect(buffer.entries.get(`${STREAM_ID}-2`)).toEqual({ end: true });
+    });
+
+    it("still writes every event and closes when recording fails", async () => {
+      const failing: ReplayRecorder = { record: async () => { throw new Error("hub unavailable"); } };
+      const stream = new SSEStream({ buffer: failing, streamId: STREAM_ID });
+      const body = new Response(stream.readable).text();
+
+      await stream.begin(false);
+      await stream.send({ jsonrpc: "2.0", id: 1, result: {} });
+      await stream.close();
+
+      expect(await body).toBe(`id: ${STREAM_ID}-1\nevent: message\ndata: {"jsonrpc":"2.0","id":1,"result":{}}\n\n`);
+    });
+
+    it("keeps recording after the client disconnects", async () => {
+      const buffer = new MemoryRecorder();
+      const stream = new SSEStream({ buffer, streamId: STREAM_ID });
+      await stream.readable.cancel();
+
+      await stream.begin(true);
+      await stream.send({ jsonrpc: "2.0", id: 1, result: {} });
+      await stream.close();
+
+      expect(buffer.entries.get(`${STREAM_ID}-1`)).toEqual({ message: { jsonrpc: "2.0", id: 1, result: {} } });
+      expect(buffer.entries.get(`${STREAM_ID}-2`)).toEqual({ end: true });
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { validateArguments } from "../../../../src/mcp/tools/argument-validator";
+
+describe("validateArguments", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      ticket_id: { type: "string" },
+      category: { type: ["number", "string"] },
+      duedate: { type: "string", enum: ["today", "overdue"] },
+      tags: { type: "array", items: { type: "string" } },
+      custom_fields: { type: "object" },
+      tickets: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { subject: { type: "string" }, priority: { type: "number" } },
+          required: ["subject"]
+        }
+      }
+    },
+    required: ["ticket_id"]
+  };
+
+  it("accepts valid arguments", () => {
+    expect(validateArguments(schema, {
+      ticket_id: "1",
+      category: "Billing",
+      duedate: "today",
+      tags: ["a"],
+      custom_fields: { "Product Version": "2.1" },
+      tickets: [{ subject: "Hi", priority: 2 }]
+    })).toEqual([]);
+  });
+
+  it("reports missing required arguments", () => {
+    expect(validateArguments(schema, {})).toEqual(["ticket_id: required"]);
+  });
+
+  it("accepts any of a list of types", () => {
+    expect(validateArguments(schema, { ticket_id: "1", category: 3 })).toEqual([]);
+    expect(validateArguments(schema, { ticket_id: "1", category: true })).toEqual(["category: expected number or string, got boolean"]);
+  });
+
+  it("checks enums", () => {
+    expect(validateArguments(schema, { ticket_id: "1", duedate: "someday" })).toEqual([
+      'duedate: must be one of "today", "overdue", got "someday"'
+    ]);
+  });
+
+  it("checks array items and nested objects with paths", () => {
+    expect(validateArguments(schema, { ticket_id: "1", tags: ["a", 2], tickets: [{ subject: "Hi" }, { priority: "high" }] })).toEqual([
+      "tags[1]: expected string, got number",
+      "tickets[1].subject: required",
+      "tickets[1].priority: expected number, got string \"high\""
+    ]);
+  });
+
+  it("rejects unknown top-level arguments but allows open nested objects", () => {
+    expect(validateArguments(schema, { ticket_id: "1", ticketid: "1", custom_fields: { anything: 1 } })).toEqual([
+      "ticketid: unknown argument (expected one of: ticket_id, category, duedate, tags, custom_fields, tickets)"
+    ]);
+  });
+
+  it("honours additionalProperties in nested schemas", () => {
+    const closed = { type: "object", properties: { filter: { type: "object", properties: { a: { type: "string" } }, additionalProperties: false } } };
+    const typed = { type: "object", properties: { values: { type: "object", additionalProperties: { type: "number" } } } };
+
+    expect(validateArguments(closed, { filter: { b: "x" } })).toEqual(["filter.b: unknown property (expected one of: a)"]);
+    expect(validateArguments(typed, { values: { a: 1, b: "2" } })).toEqual(['values.b: expected number, got string "2"']);
+  });
+
+  it("rejects non-object arguments", () => {
+    expect(validateArguments(schema, [])).toEqual(["arguments: expected object, got array"]);
+  });
+});
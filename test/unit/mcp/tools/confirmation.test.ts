@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { requiresConfirmation, confirmToolCall } from "../../../../src/mcp/tools/confirmation";
+import { ClientChannel, HappyFoxAuth, ToolExecutionError } from "../../../../src/types";
+import { TicketEndpoints } from "../../../../src/happyfox/endpoints/tickets";
+import { AssetEndpoints } from "../../../../src/happyfox/endpoints/assets";
+import { HappyFoxClient } from "../../../../src/happyfox/client";
+
+describe("confirmation", () => {
+  const testAuth: HappyFoxAuth = {
+    apiKey: "test-api-key",
+    authCode: "test-auth-code",
+    accountName: "testaccount",
+    region: "us"
+  };
+
+  const ticket = {
+    id: 42,
+    display_id: "#SUP00042",
+    subject: "Printer on fire",
+    category: { id: 1, name: "Support" },
+    user: { name: "Jane Doe", email: "jane@example.com" }
+  };
+
+  const channel = (answer: any): ClientChannel & { elicit: ReturnType<typeof vi.fn> } => ({
+    elicit: vi.fn().mockResolvedValue(answer)
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("covers the destructive tools only", () => {
+    expect(requiresConfirmation("happyfox_delete_ticket")).toBe(true);
+    expect(requiresConfirmation("happyfox_delete_asset")).toBe(true);
+    expect(requiresConfirmation("happyfox_move_ticket_category")).toBe(true);
+    expect(requiresConfirmation("happyfox_get_ticket")).toBe(false);
+  });
+
+  it("shows the ticket subject and requester and resolves on accept", async () => {
+    vi.spyOn(TicketEndpoints.prototype, "getTicket").mockResolvedValue(ticket);
+    const accepting = channel({ action: "accept", content: { confirm: true } });
+
+    await confirmToolCall("happyfox_delete_ticket", { ticket_id: "42" }, testAuth, accepting);
+
+    const [message, schema] = accepting.elicit.mock.calls[0];
+    expect(message).toBe('Permanently delete ticket #SUP00042 "Printer on fire" raised by Jane Doe <jane@example.com>? This cannot be undone.');
+    expect(schema.required).toEqual(["confirm"]);
+  });
+
+  it("names the current and target category when moving", async () => {
+    vi.spyOn(TicketEndpoints.prototype, "getTicket").mockResolvedValue(ticket);
+    vi.spyOn(HappyFoxClient.prototype, "getCached").mockResolvedValue([{ id: 1, name: "Support" }, { id: 3, name: "Billing" }]);
+    const accepting = channel({ action: "accept", content: { confirm: true } });
+
+    await confirmToolCall("happyfox_move_ticket_category", { ticket_id: "42", target_category_id: 3 }, testAuth, accepting);
+    await confirmToolCall("happyfox_move_ticket_category", { ticket_id: "42", target_category_id: "billing" }, testAuth, accepting);
+
+    expect(accepting.elicit.mock.calls[0][0]).toContain('from "Support" to category "Billing"?');
+    expect(accepting.elicit.mock.calls[1][0]).toContain('from "Support" to category "Billing"?');
+  });
+
+  it("describes the asset being deleted", async () => {
+    vi.spyOn(AssetEndpoints.prototype, "getAsset").mockResolvedValue({ id: 7, name: "MacBook", asset_type: { id: 1, name: "Laptop" } });
+    const accepting = channel({ action: "accept", content: { confirm: true } });
+
+    await confirmToolCall("happyfox_delete_asset", { asset_id: 7 }, testAuth, accepting);
+
+    expect(accepting.elicit.mock.calls[0][0]).toBe('Permanently delete asset "MacBook" (Laptop)? This cannot be undone.');
+  });
+
+  it.each([
+    ["decline", { action: "decline" }],
+    ["cancel", { action: "cancel" }],
+    ["accept without confirm", { action: "accept", content: { confirm: false } }]
+  ])("throws NOT_CONFIRMED on %s", async (_label, answer) => {
+    vi.spyOn(TicketEndpoints.prototype, "getTicket").mockResolvedValue(ticket);
+
+    const call = confirmToolCall("happyfox_delete_ticket", { ticket_id: "42" }, testAuth, channel(answer));
+
+    await expect(call).rejects.toBeInstanceOf(ToolExecutionError);
+    await expect(call).rejects.toMatchObject({ errorCode: "NOT_CONFIRMED" });
+  });
+});
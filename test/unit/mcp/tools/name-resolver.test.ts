@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { NameResolver } from "../../../../src/mcp/tools/name-resolver";
+import { ToolExecutionError } from "../../../../src/types";
+import { HappyFoxClient } from "../../../../src/happyfox/client";
+import { createMockClient } from "../../../helpers/client-mock";
+
+describe("NameResolver", () => {
+  let client: HappyFoxClient;
+  let resolver: NameResolver;
+
+  const references: Record<string, any> = {
+    categories: [
+      { id: 1, name: "Support" },
+      { id: 2, name: "Billing US" },
+      { id: 3, name: "Billing EU" }
+    ],
+    statuses: [
+      { id: 10, name: "New", behavior: "pending" },
+      { id: 11, name: "Closed", behavior: "completed" }
+    ],
+    staff: [
+      { id: 5, name: "Jane Doe", email: "jane@example.com" },
+      { id: 6, name: "John Smith", email: "john@example.com" },
+      { id: 7, name: "Jane Doe", email: "jane.doe@example.com" }
+    ],
+    "asset-types": { data: [{ id: 20, name: "Laptop" }], page_info: {} }
+  };
+
+  beforeEach(() => {
+    client = createMockClient();
+    (client.getCached as any).mockImplementation(async (resource: string) => references[resource] ?? []);
+    resolver = new NameResolver(client);
+  });
+
+  describe("resolve", () => {
+    it("passes IDs through without loading reference data", async () => {
+      expect(await resolver.resolve("category", 2)).toBe(2);
+      expect(await resolver.resolve("status", "11")).toBe("11");
+      expect(await resolver.resolve("staff", undefined)).toBeUndefined();
+      expect(client.getCached).not.toHaveBeenCalled();
+    });
+
+    it("matches names case-insensitively", async () => {
+      expect(await resolver.resolve("status", "closed")).toBe(11);
+      expect(client.getCached).toHaveBeenCalledWith("statuses", "/statuses/");
+    });
+
+    it("matches staff by email", async () => {
+      expect(await resolver.resolve("staff", "JOHN@example.com")).toBe(6);
+    });
+
+    it("ignores surrounding whitespace", async () => {
+      expect(await resolver.resolve("category", " billing eu ")).toBe(3);
+    });
+
+    it("suggests partial matches instead of resolving them", async () => {
+      const error = await resolver.resolve("category", "billing").catch(e => e);
+
+      expect(error).toBeInstanceOf(ToolExecutionError);
+      expect(error.errorCode).toBe("NAME_NOT_FOUND");
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toBe('No category named exactly "billing". Did you mean: "Billing US" (id 2), "Billing EU" (id 3)? Use the full name or the ID.');
+    });
+
+    it("does not resolve a single partial match", async () => {
+      const error = await resolver.resolve("category", "port").catch(e => e);
+
+      expect(error.errorCode).toBe("NAME_NOT_FOUND");
+      expect(error.message).toContain('"Support" (id 1)');
+    });
+
+    it("reads paginated asset types", async () => {
+      expect(await resolver.resolve("asset_type", "laptop")).toBe(20);
+      expect(client.getCached).toHaveBeenCalledWith("asset-types", "/asset_types/");
+    });
+
+    it("lists the candidates when a name is ambiguous", async () => {
+      const error = await resolver.resolve("staff", "jane doe").catch(e => e);
+
+      expect(error).toBeInstanceOf(ToolExecutionError);
+      expect(error.errorCode).toBe("AMBIGUOUS_NAME");
+      expect(error.statusCode).toBe(400);
+      expect(error.message).toContain('"Jane Doe" <jane@example.com> (id 5)');
+      expect(error.message).toContain('"Jane Doe" <jane.doe@example.com> (id 7)');
+    });
+
+    it("lists valid options when nothing matches", async () => {
+      const error = await resolver.resolve("status", "Pending").catch(e => e);
+
+      expect(error.errorCode).toBe("NAME_NOT_FOUND");
+      expect(error.message).toBe('No status named "Pending". Valid options: "New" (id 10), "Closed" (id 11)');
+    });
+  });
+
+  describe("resolveArgs", () => {
+    it("resolves only the listed parameters that are present", async () => {
+      const args = { ticket_id: "42", status: "New", staff_id: "jane@example.com", text: "Closed" };
+
+      const resolved = await resolver.resolveArgs(args, { status: "status", staff_id: "staff", priority: "priority" });
+
+      expect(resolved).toEqual({ ticket_id: "42", status: 10, staff_id: 5, text: "Closed" });
+      expect(resolved).not.toHaveProperty("priority");
+      expect(args.status).toBe("New");
+    });
+  });
+
+  describe("find", () => {
+    it("returns the record for an ID or a name", async () => {
+      expect(await resolver.find("category", "3")).toEqual({ id: 3, name: "Billing EU" });
+      expect(await resolver.find("category", "support")).toEqual({ id: 1, name: "Support" });
+    });
+
+    it("returns undefined for IDs that match no record", async () => {
+      expect(await resolver.find("category", 99)).toBeUndefined();
+    });
+  });
+});
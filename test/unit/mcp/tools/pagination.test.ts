@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from "vitest";
+import { paginate, MAX_ITEMS_LIMIT } from "../../../../src/mcp/tools/pagination";
+import { ToolExecutionError } from "../../../../src/types";
+
+// 120 items served in HappyFox page format
+function createFetcher(totalItems = 120) {
+  return vi.fn(async (page: number, size: number) => {
+    const start = (page - 1) * size;
+    const data = Array.from({ length: Math.max(0, Math.min(size, totalItems - start)) }, (_, i) => ({ id: start + i + 1 }));
+    return {
+      data,
+      page_info: { count: data.length, last_index: totalItems, page_count: Math.ceil(totalItems / size), start_index: start + 1, end_index: start + data.length }
+    };
+  });
+}
+
+describe("paginate", () => {
+  it("returns a single page with total and nextCursor", async () => {
+    const fetchPage = createFetcher();
+
+    const result = await paginate({ size: 50 }, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(fetchPage).toHaveBeenCalledWith(1, 50);
+    expect(result.data).toHaveLength(50);
+    expect(result.total).toBe(120);
+    expect(result.page_info.page_count).toBe(3);
+    expect(typeof result.nextCursor).toBe("string");
+  });
+
+  it("continues from nextCursor", async () => {
+    const fetchPage = createFetcher();
+    const first = await paginate({ size: 50 }, fetchPage);
+
+    const second = await paginate({ cursor: first.nextCursor }, fetchPage);
+
+    expect(fetchPage).toHaveBeenLastCalledWith(2, 50);
+    expect(second.data[0]).toEqual({ id: 51 });
+  });
+
+  it("omits nextCursor on the last page", async () => {
+    const result = await paginate({ page: 3, size: 50 }, createFetcher());
+
+    expect(result.data).toHaveLength(20);
+    expect(result).not.toHaveProperty("nextCursor");
+  });
+
+  it("walks pages until max_items are collected", async () => {
+    const fetchPage = createFetcher();
+
+    const result = await paginate({ max_items: 75 }, fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(result.data.map((item: any) => item.id)).toEqual(Array.from({ length: 75 }, (_, i) => i + 1));
+
+    // The cursor resumes mid-page
+    const rest = await paginate({ cursor: result.nextCursor, max_items: 100 }, fetchPage);
+    expect(rest.data[0]).toEqual({ id: 76 });
+    expect(rest.data).toHaveLength(45);
+    expect(rest).not.toHaveProperty("nextCursor");
+  });
+
+  it("caps max_items to the per-call budget", async () => {
+    const fetchPage = createFetcher(2000);
+
+    const result = await paginate({ max_items: 10000 }, fetchPage);
+
+    expect(result.data).toHaveLength(MAX_ITEMS_LIMIT);
+    expect(result.nextCursor).toBeDefined();
+  });
+
+  it("continues while pages are full when page_info is missing", async () => {
+    const fetchPage = vi.fn(async (page: number) => ({ data: page === 1 ? [{ id: 1 }, { id: 2 }] : [{ id: 3 }] }));
+
+    const result = await paginate({ size: 2, max_items: 10 }, fetchPage);
+
+    expect(result.data).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(result).not.toHaveProperty("total");
+    expect(result).not.toHaveProperty("nextCursor");
+  });
+
+  it("rejects invalid cursors", async () => {
+    const error = await paginate({ cursor: "not-a-cursor" }, createFetcher()).catch(e => e);
+
+    expect(error).toBeInstanceOf(ToolExecutionError);
+    expect(error.errorCode).toBe("INVALID_CURSOR");
+  });
+
+  it("reports progress between pages when walking with max_items", async () => {
+    const progress = vi.fn().mockResolvedValue(undefined);
+
+    await paginate({ size: 50, max_items: 120 }, createFetcher(), progress);
+
+    expect(progress.mock.calls).toEqual([
+      [50, 120, "Fetched page 1"],
+      [100, 120, "Fetched page 2"]
+    ]);
+  });
+
+  it("does not report progress for a single page", async () => {
+    const progress = vi.fn();
+
+    await paginate({ size: 50 }, createFetcher(), progress);
+
+    expect(progress).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,9 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { ToolRegistry } from "../../../../src/mcp/tools/registry";
 import { ToolNotFoundError, ToolExecutionError, HappyFoxAuth, AuthContext } from "../../../../src/types";
 import { HappyFoxAPIError } from "../../../../src/happyfox/client";
+import { referenceCache } from "../../../../src/cache/reference-cache";
+import { requiresConfirmation } from "../../../../src/mcp/tools/confirmation";
+import { TicketEndpoints } from "../../../../src/happyfox/endpoints/tickets";
 
 // Mock global fetch to prevent network calls in unit tests
 const mockFetch = vi.fn();
@@ -110,6 +113,28 @@ describe("ToolRegistry", () => {
       expect(toolNames).toContain("happyfox_delete_asset");
       expect(toolNames).toContain("happyfox_list_asset_custom_fields");
     });
+
+    it("includes all report tools", async () => {
+      const tools = await registry.listTools();
+      const toolNames = tools.map(t => t.name);
+
+      expect(toolNames).toContain("happyfox_list_reports");
+      expect(toolNames).toContain("happyfox_get_report_summary");
+      expect(toolNames).toContain("happyfox_get_report_tabular_data");
+      expect(toolNames).toContain("happyfox_get_report_staff_performance");
+      expect(toolNames).toContain("happyfox_get_report_sla_performance");
+    });
+
+    it("hides internal knowledge base tools without the kb-internal scope", async () => {
+      const readTools = (await registry.listTools(["happyfox:read"])).map(t => t.name);
+      expect(readTools).toContain("happyfox_search_kb_articles");
+      expect(readTools).not.toContain("happyfox_search_kb_internal_articles");
+
+      const kbTools = (await registry.listTools(["happyfox:read", "happyfox:kb-internal"])).map(t => t.name);
+      expect(kbTools).toContain("happyfox_list_kb_internal_articles");
+      expect(kbTools).toContain("happyfox_get_kb_internal_article");
+      expect(kbTools).toContain("happyfox_search_kb_internal_articles");
+    });
   });
 
   describe("callToolWithAuth", () => {
@@ -188,6 +213,131 @@ describe("ToolRegistry", () => {
     });
   });
 
+  describe("argument validation", () => {
+    it("rejects invalid arguments without calling HappyFox, naming each field", async () => {
+      const call = registry.callToolWithAuth(
+        "happyfox_update_ticket_tags",
+        { ticket_id: [42], add: ["vip", 7], remvoe: ["old"] },
+        testAuthContext
+      );
+
+      await expect(call).rejects.toMatchObject({ statusCode: 400, errorCode: "INVALID_ARGUMENTS" });
+      const message = await call.catch(error => error.message);
+      expect(message).toContain("ticket_id: expected number or string, got array");
+      expect(message).toContain("add[1]: expected string, got number");
+      expect(message).toContain("remvoe: unknown argument");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ["happyfox_get_ticket", { ticket_id: 42 }],
+      ["happyfox_get_ticket", { ticket_id: "42" }],
+      ["happyfox_update_ticket_tags", { ticket_id: 42, add: ["vip"] }],
+      ["happyfox_get_contact", { contact_id: 7 }],
+      ["happyfox_get_contact_group", { group_id: 3 }],
+      ["happyfox_get_asset", { asset_id: "5" }],
+      ["happyfox_create_ticket", { category: 1, priority: 2, assignee: 3, subject: "S", text: "T", email: "a@example.com", name: "A" }],
+      ["happyfox_add_staff_reply", { ticket_id: 42, text: "Hi", status: 2, priority: 1 }]
+    ])("accepts IDs given as numbers or strings (%s %j)", async (name, args) => {
+      await expect(registry.callToolWithAuth(name, args, testAuthContext))
+        .rejects.not.toMatchObject({ errorCode: "INVALID_ARGUMENTS" });
+      expect(mockFetch).toHaveBeenCalled();
+    });
+
+    it("reports missing required arguments", async () => {
+      await expect(
+        registry.callToolWithAuth("happyfox_add_private_note", { ticket_id: "1" }, testAuthContext)
+      ).rejects.toThrow("- text: required");
+    });
+  });
+
+  describe("confirmation", () => {
+    it("does not delete when the user declines", async () => {
+      mockFetch.mockResolvedValue(new Response(JSON.stringify({ id: 42, subject: "Old" }), { status: 200 }));
+      const channel = { elicit: vi.fn().mockResolvedValue({ action: "decline" }) };
+
+      await expect(
+        registry.callToolWithAuth("happyfox_delete_ticket", { ticket_id: "42" }, testAuthContext, channel)
+      ).rejects.toMatchObject({ errorCode: "NOT_CONFIRMED" });
+
+      expect(channel.elicit).toHaveBeenCalledOnce();
+      expect(mockFetch.mock.calls.every(([url]) => !String(url).includes("/delete/"))).toBe(true);
+    });
+
+    it("runs without asking when no client channel is available", async () => {
+      mockFetch.mockResolvedValue(new Response(JSON.stringify({}), { status: 200 }));
+
+      await registry.callToolWithAuth("happyfox_delete_ticket", { ticket_id: "42" }, testAuthContext);
+
+      expect(mockFetch).toHaveBeenCalledOnce();
+      expect(String(mockFetch.mock.calls[0][0])).toContain("/ticket/42/delete/");
+    });
+  });
+
+  describe("bulk ticket creation", () => {
+    it("creates all tickets in one request without reporting progress", async () => {
+      const create = vi.spyOn(TicketEndpoints.prototype, "createTicketsBulk").mockResolvedValue([{ id: 1 }, { id: 2 }]);
+      const progress = vi.fn().mockResolvedValue(undefined);
+      const ticket = { category: "1", subject: "Test", text: "Content", email: "test@example.com", name: "User" };
+
+      const created = await registry.callToolWithAuth("happyfox_create_tickets_bulk", { tickets: [ticket, ticket] }, testAuthContext, { progress });
+
+      expect(created).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(create).toHaveBeenCalledOnce();
+      expect(create.mock.calls[0][0]).toHaveLength(2);
+      expect(progress).not.toHaveBeenCalled();
+      create.mockRestore();
+    });
+  });
+
+  describe("custom field choice tools", () => {
+    it("invalidates the cached ticket custom fields after a change", async () => {
+      const invalidate = vi.spyOn(referenceCache, "invalidate").mockResolvedValue();
+      mockFetch.mockReset();
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify([{ id: 7, type: "choice", choices: [{ id: 11, text: "1.0" }] }]) })
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify({ id: 7 }) });
+
+      await registry.callToolWithAuth("happyfox_add_ticket_custom_field_choices", { field_id: 7, choices: ["2.0"] }, testAuthContext);
+
+      expect(invalidate).toHaveBeenCalledWith("testaccount", "us", "ticket-custom-fields");
+      invalidate.mockRestore();
+    });
+  });
+
+  describe("name resolution", () => {
+    it("resolves names to IDs before calling HappyFox", async () => {
+      const getOrFetch = vi.spyOn(referenceCache, "getOrFetch").mockImplementation(async (_account, _region, resource) =>
+        resource === "statuses" ? [{ id: 3, name: "Closed" }] : [{ id: 9, name: "Jane Doe", email: "jane@example.com" }]
+      );
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true, status: 200, text: async () => JSON.stringify({ id: 42 }) });
+
+      await registry.callToolWithAuth(
+        "happyfox_add_private_note",
+        { ticket_id: "42", staff_id: "jane@example.com", text: "Done", status: "closed" },
+        testAuthContext
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({ staff: 9, status: 3 });
+      getOrFetch.mockRestore();
+    });
+
+    it("keeps the error code when a name is ambiguous", async () => {
+      const getOrFetch = vi.spyOn(referenceCache, "getOrFetch").mockResolvedValue([
+        { id: 1, name: "Billing" },
+        { id: 2, name: "billing" },
+        { id: 3, name: "Sales" }
+      ]);
+
+      await expect(
+        registry.callToolWithAuth("happyfox_list_tickets", { category: "billing" }, testAuthContext)
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: "AMBIGUOUS_NAME" });
+      getOrFetch.mockRestore();
+    });
+  });
+
   describe("tool registration", () => {
     it("registers tools with unique names", async () => {
       const tools = await registry.listTools();
@@ -197,6 +347,59 @@ describe("ToolRegistry", () => {
       expect(toolNames.length).toBe(uniqueNames.size);
     });
 
+    it("declares object output schemas for entity and list tools", async () => {
+      const withSchemas = ["happyfox_get_ticket", "happyfox_list_tickets", "happyfox_search_tickets", "happyfox_get_contact", "happyfox_get_asset"];
+
+      for (const name of withSchemas) {
+        expect(registry.getTool(name)?.outputSchema?.type).toBe("object");
+      }
+      expect(registry.getTool("happyfox_delete_ticket")?.outputSchema).toBeUndefined();
+    });
+
+    it("annotates every tool", async () => {
+      const tools = await registry.listTools();
+
+      for (const tool of tools) {
+        expect(tool.title, tool.name).toBeTruthy();
+        expect(tool.annotations?.readOnlyHint, tool.name).toBeTypeOf("boolean");
+      }
+      expect(registry.getTool("happyfox_get_ticket")?.annotations?.readOnlyHint).toBe(true);
+      expect(registry.getTool("happyfox_delete_ticket")?.annotations).toMatchObject({ readOnlyHint: false, destructiveHint: true });
+    });
+
+    it("marks every tool that asks for confirmation as destructive", async () => {
+      const confirmed = (await registry.listTools()).filter(tool => requiresConfirmation(tool.name));
+
+      expect(confirmed.map(tool => tool.name)).toContain("happyfox_move_ticket_category");
+      for (const tool of confirmed) {
+        expect(tool.annotations?.destructiveHint, tool.name).toBe(true);
+      }
+    });
+
+    it("rejects annotations that disagree with the tool's scopes", () => {
+      const register = (annotations: object) => (registry as any).registerToolModule({
+        getTools: () => [{ name: "happyfox_get_ticket", title: "Get ticket", description: "", handler: "getTicket", annotations, inputSchema: { type: "object", properties: {} } }],
+        getTicket: async () => ({})
+      });
+
+      expect(() => register({ readOnlyHint: false })).toThrow("not marked readOnlyHint");
+      expect(() => register({ readOnlyHint: true, destructiveHint: true })).toThrow("declares destructiveHint");
+      expect(() => (registry as any).registerToolModule({
+        getTools: () => [{ name: "happyfox_delete_ticket", title: "Delete ticket", description: "", handler: "deleteTicket", annotations: { readOnlyHint: true }, inputSchema: { type: "object", properties: {} } }],
+        deleteTicket: async () => ({})
+      })).toThrow("requires happyfox:admin");
+    });
+
+    it("rejects tools without a title or annotations", () => {
+      const register = (tool: object) => (registry as any).registerToolModule({
+        getTools: () => [{ name: "happyfox_get_ticket", description: "", handler: "getTicket", inputSchema: { type: "object", properties: {} }, ...tool }],
+        getTicket: async () => ({})
+      });
+
+      expect(() => register({ title: "Get ticket" })).toThrow("must declare a title and annotations");
+      expect(() => register({ annotations: { readOnlyHint: true } })).toThrow("must declare a title and annotations");
+    });
+
     it("binds handlers correctly", async () => {
       // Verify that handlers are bound by checking they exist for all tools
       // Uses mocked fetch to prevent network calls
@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { formatEventId, parseEventId } from "../../../src/session/replay-buffer";
+
+const STREAM_ID = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+
+describe("event IDs", () => {
+  it("round-trips stream and sequence", () => {
+    expect(parseEventId(formatEventId(STREAM_ID, 12))).toEqual({ streamId: STREAM_ID, sequence: 12 });
+  });
+
+  it("rejects IDs it did not issue", () => {
+    expect(parseEventId(null)).toBeNull();
+    expect(parseEventId("42")).toBeNull();
+    expect(parseEventId(`${STREAM_ID}-`)).toBeNull();
+    expect(parseEventId(`${STREAM_ID}-1:other`)).toBeNull();
+  });
+});
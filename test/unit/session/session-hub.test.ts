@@ -0,0 +1,344 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { env, runInDurableObject, runDurableObjectAlarm } from "cloudflare:test";
+import { createCredentialStore } from "../../../src/oauth/services/credential-store";
+import { resetFetchMock, mockHappyFoxGet } from "../../helpers/fetch-mock-helpers";
+
+describe("SessionHub", () => {
+  const tokenId = "hub-token";
+  const account = "us/testaccount";
+  const ticketUri = "happyfox://ticket/42";
+  const expiresAt = Math.floor(Date.now() / 1000) + 3600;
+
+  beforeEach(async () => {
+    resetFetchMock();
+    const now = Math.floor(Date.now() / 1000);
+    await createCredentialStore(env.OAUTH_KV, env.CREDENTIAL_ENCRYPTION_KEY).store(tokenId, {
+      apiKey: "test-api-key",
+      authCode: "test-auth-code",
+      accountName: "testaccount",
+      region: "us",
+      staffId: 1,
+      staffName: "Test Staff",
+      staffEmail: "staff@example.com",
+      createdAt: now,
+      expiresAt: now + 3600
+    });
+  });
+
+  function getHub(name: string) {
+    return env.SESSION_HUB.get(env.SESSION_HUB.idFromName(name));
+  }
+
+  function ticketContent(ticket: unknown) {
+    return { uri: ticketUri, mimeType: "application/json", text: JSON.stringify(ticket, null, 2) };
+  }
+
+  // Reads SSE events until one carries a JSON-RPC message
+  async function nextMessage(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<any> {
+    const decoder = new TextDecoder();
+    let buffered = "";
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return null;
+      buffered += decoder.decode(value, { stream: true });
+      const data = buffered.split("\n").find(line => line.startsWith("data: "));
+      if (data) return JSON.parse(data.slice("data: ".length));
+    }
+  }
+
+  it("stores and removes subscriptions", async () => {
+    const hub = getHub("store");
+
+    await hub.subscribe(tokenId, account, ticketContent({ id: 42 }), expiresAt);
+    await runInDurableObject(hub, async (_instance, state) => {
+      expect(Object.keys(await state.storage.get("subscriptions") as object)).toEqual([ticketUri]);
+    });
+
+    await hub.unsubscribe(ticketUri);
+    await runInDurableObject(hub, async (_instance, state) => {
+      expect(await state.storage.get("subscriptions")).toEqual({});
+    });
+  });
+
+  it("registers its subscriptions with the account directory", async () => {
+    const hub = getHub("directory");
+    const directory = env.SUBSCRIPTION_DIRECTORY.get(env.SUBSCRIPTION_DIRECTORY.idFromName(account));
+
+    await hub.subscribe(tokenId, account, ticketContent({ id: 42 }), expiresAt);
+    await runInDurableObject(directory, async (_instance, state) => {
+      expect(await state.storage.get(`uri:${ticketUri}`)).toEqual({ [hub.id.toString()]: expiresAt });
+    });
+
+    await hub.unsubscribe(ticketUri);
+    await runInDurableObject(directory, async (_instance, state) => {
+      expect(await state.storage.get(`uri:${ticketUri}`)).toBeUndefined();
+    });
+  });
+
+  it("announces webhook-reported changes once", async () => {
+    const hub = getHub("webhook");
+    await hub.subscribe(tokenId, account, ticketContent({ id: 42, status: "New" }), expiresAt);
+    const reader = (await hub.fetch("https://hub/")).body!.getReader();
+
+    const message = nextMessage(reader);
+    await hub.resourceUpdated(ticketUri);
+    expect((await message).params).toEqual({ uri: ticketUri });
+
+    // The next poll records the new content without announcing it again
+    mockHappyFoxGet("/ticket/42/", { id: 42, status: "Closed" });
+    await runDurableObjectAlarm(hub);
+    await runInDurableObject(hub, async (_instance, state) => {
+      const subscriptions = await state.storage.get<Record<string, string>>("subscriptions");
+      expect(subscriptions?.[ticketUri]).toMatch(/^[0-9a-f]{64}$/);
+    });
+    await reader.cancel();
+  });
+
+  it("only polls while a stream is open", async () => {
+    const hub = getHub("idle");
+    await hub.subscribe(tokenId, account, ticketContent({ id: 42 }), expiresAt);
+
+    // The only alarm left ends the session
+    await runInDurableObject(hub, async (_instance, state) => {
+      expect(await state.storage.getAlarm()).toBe(expiresAt * 1000);
+    });
+  });
+
+  it("keeps an open stream alive while there are no subscriptions", async () => {
+    const hub = getHub("no-subscriptions");
+    const reader = (await hub.fetch("https://hub/")).body!.getReader();
+
+    for (let poll = 0; poll < 2; poll++) {
+      expect(await runDurableObjectAlarm(hub)).toBe(true);
+      expect(new TextDecoder().decode((await reader.read()).value)).toBe(": keep-alive\n\n");
+    }
+    await reader.cancel();
+  });
+
+  it("sends notifications/resources/updated when a subscribed ticket changes", async () => {
+    const hub = getHub("changed");
+    await hub.subscribe(tokenId, account, ticketContent({ id: 42, status: "New" }), expiresAt);
+    const response = await hub.fetch("https://hub/");
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+    const reader = response.body!.getReader();
+
+    mockHappyFoxGet("/ticket/42/", { id: 42, status: "Closed" });
+    const message = nextMessage(reader);
+    expect(await runDurableObjectAlarm(hub)).toBe(true);
+
+    expect(await message).toEqual({
+      jsonrpc: "2.0",
+      method: "notifications/resources/updated",
+      params: { uri: ticketUri }
+    });
+    await reader.cancel();
+  });
+
+  it("stays quiet when the ticket is unchanged", async () => {
+    const hub = getHub("unchanged");
+    await hub.subscribe(tokenId, account, ticketContent({ id: 42, status: "New" }), expiresAt);
+    const reader = (await hub.fetch("https://hub/")).body!.getReader();
+
+    mockHappyFoxGet("/ticket/42/", { id: 42, status: "New" });
+    await runDurableObjectAlarm(hub);
+
+    await runInDurableObject(hub, async (_instance, state) => {
+      // Polling continues with the same baseline
+      expect(await state.storage.getAlarm()).not.toBeNull();
+    });
+    await reader.cancel();
+  });
+
+  it("drops the session's subscriptions once its credentials are gone", async () => {
+    const hub = getHub("revoked");
+    await hub.subscribe("unknown-token", account, ticketContent({ id: 42 }), expiresAt);
+    const reader = (await hub.fetch("https://hub/")).body!.getReader();
+
+    await runDurableObjectAlarm(hub);
+
+    await runInDurableObject(hub, async (_instance, state) => {
+      expect(await state.storage.get("subscriptions")).toBeUndefined();
+    });
+    expect((await reader.read()).done).toBe(false); // keep-alive sent before the check
+    expect((await reader.read()).done).toBe(true);
+  });
+
+  it("closes its streams and forgets its subscriptions when terminated", async () => {
+    const hub = getHub("terminated");
+    const directory = env.SUBSCRIPTION_DIRECTORY.get(env.SUBSCRIPTION_DIRECTORY.idFromName(account));
+    await hub.subscribe(tokenId, account, ticketContent({ id: 42 }), expiresAt);
+    const reader = (await hub.fetch("https://hub/")).body!.getReader();
+
+    await hub.terminate();
+
+    expect((await reader.read()).done).toBe(true);
+    await runInDurableObject(hub, async (_instance, state) => {
+      expect(await state.storage.get("subscriptions")).toBeUndefined();
+    });
+    await runInDurableObject(directory, async (_instance, state) => {
+      expect(await state.storage.get(`uri:${ticketUri}`)).toBeUndefined();
+    });
+  });
+
+  it("ends the session when its token expires", async () => {
+    const hub = getHub("expired");
+    const directory = env.SUBSCRIPTION_DIRECTORY.get(env.SUBSCRIPTION_DIRECTORY.idFromName(account));
+    await hub.subscribe(tokenId, account, ticketContent({ id: 42 }), expiresAt);
+    await runInDurableObject(hub, async (_instance, state) => {
+      expect(await state.storage.getAlarm()).toBe(expiresAt * 1000);
+      await state.storage.put("expiresAt", Math.floor(Date.now() / 1000) - 1);
+    });
+
+    await runDurableObjectAlarm(hub);
+
+    await runInDurableObject(hub, async (_instance, state) => {
+      expect(await state.storage.get("subscriptions")).toBeUndefined();
+    });
+    await runInDurableObject(directory, async (_instance, state) => {
+      expect(await state.storage.get(`uri:${ticketUri}`)).toBeUndefined();
+    });
+  });
+
+  describe("client responses", () => {
+    it("hands an answer to the request waiting for it", async () => {
+      const hub = getHub("answered");
+      const waiting = hub.waitForResponse("elicit-1", 5000);
+      await hub.resolveResponse({ jsonrpc: "2.0", id: "elicit-1", result: { action: "accept", content: { confirm: true } } });
+
+      expect(await waiting).toEqual({ jsonrpc: "2.0", id: "elicit-1", result: { action: "accept", content: { confirm: true } } });
+    });
+
+    it("keeps an answer that arrives before its waiter", async () => {
+      const hub = getHub("early");
+      await hub.resolveResponse({ jsonrpc: "2.0", id: "elicit-2", result: { action: "decline" } });
+
+      expect((await hub.waitForResponse("elicit-2", 1000))?.result).toEqual({ action: "decline" });
+      expect(await hub.waitForResponse("elicit-2", 100)).toBeNull();
+    });
+
+    it("returns null when no answer arrives in time", async () => {
+      expect(await getHub("unanswered").waitForResponse("elicit-3", 100)).toBeNull();
+    });
+
+    it("keeps answers separate per session", async () => {
+      await getHub("other-session").resolveResponse({ jsonrpc: "2.0", id: "elicit-4", result: { action: "accept" } });
+
+      expect(await getHub("this-session").waitForResponse("elicit-4", 100)).toBeNull();
+    });
+
+    it("stops waiting when the session is terminated", async () => {
+      const hub = getHub("terminated-waiter");
+      const waiting = hub.waitForResponse("elicit-5", 5000);
+      await hub.terminate();
+
+      expect(await waiting).toBeNull();
+    });
+  });
+
+  describe("request cancellation", () => {
+    it("tells the watching request it was cancelled, with the reason", async () => {
+      const hub = getHub("cancelled");
+      const outcome = hub.watchCancellation("call-1");
+
+      expect(await hub.cancel("call-1", "User aborted")).toBe(true);
+      expect(await outcome).toEqual({ cancelled: true, reason: "User aborted" });
+    });
+
+    it("ends the watch when the request finishes", async () => {
+      const hub = getHub("finished");
+      const outcome = hub.watchCancellation(7);
+
+      await hub.finishRequest(7);
+
+      expect(await outcome).toEqual({ cancelled: false });
+      expect(await hub.cancel(7)).toBe(false);
+    });
+
+    it("keeps numeric and string request IDs apart", async () => {
+      const hub = getHub("typed-ids");
+      const outcome = hub.watchCancellation(1);
+
+      expect(await hub.cancel("1")).toBe(false);
+      await hub.finishRequest(1);
+      expect((await outcome).cancelled).toBe(false);
+    });
+
+    it("only cancels requests of the same session", async () => {
+      const outcome = getHub("session-a").watchCancellation("call-2");
+
+      expect(await getHub("session-b").cancel("call-2")).toBe(false);
+      await getHub("session-a").finishRequest("call-2");
+      expect((await outcome).cancelled).toBe(false);
+    });
+
+    it("cancels running requests when the session is terminated", async () => {
+      const hub = getHub("terminated-request");
+      const outcome = hub.watchCancellation("call-3");
+
+      await hub.terminate();
+
+      expect(await outcome).toEqual({ cancelled: true, reason: "Session terminated" });
+    });
+  });
+
+  describe("stream replay", () => {
+    const streamId = "3f2504e0-4f89-41d3-9a0c-0305e82c3301";
+    const result = { jsonrpc: "2.0", id: 1, result: {} };
+
+    function resume(hub: ReturnType<typeof getHub>, lastEventId: string) {
+      return hub.fetch("https://hub/", { headers: { "Last-Event-ID": lastEventId } });
+    }
+
+    it("replays the events after Last-Event-ID and ends with the stream", async () => {
+      const hub = getHub("replay");
+      await hub.record(streamId, 0, { start: true });
+      await hub.record(streamId, 1, { message: { jsonrpc: "2.0", method: "notifications/progress" } });
+      await hub.record(streamId, 2, { message: result });
+      await hub.record(streamId, 3, { end: true });
+
+      const response = await resume(hub, `${streamId}-1`);
+
+      expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+      expect(await response.text()).toBe(`id: ${streamId}-2\nevent: message\ndata: ${JSON.stringify(result)}\n\n`);
+    });
+
+    it("pushes events recorded after the client resumed", async () => {
+      const hub = getHub("replay-follow");
+      await hub.record(streamId, 0, { start: true });
+      const body = (await resume(hub, `${streamId}-0`)).text();
+
+      await hub.record(streamId, 1, { message: result });
+      await hub.record(streamId, 2, { end: true });
+
+      expect(await body).toBe(`id: ${streamId}-1\nevent: message\ndata: ${JSON.stringify(result)}\n\n`);
+    });
+
+    it("answers 404 for event IDs it did not record", async () => {
+      const hub = getHub("replay-unknown");
+      await hub.record(streamId, 0, { start: true });
+
+      expect((await resume(hub, `${streamId}-5`)).status).toBe(404);
+      expect((await resume(hub, "42")).status).toBe(404);
+      expect((await resume(getHub("replay-other-session"), `${streamId}-0`)).status).toBe(404);
+    });
+
+    it("drops the events of a stream once they expire", async () => {
+      const hub = getHub("replay-expired");
+      await hub.record(streamId, 0, { start: true });
+      const body = (await resume(hub, `${streamId}-0`)).text();
+      await runInDurableObject(hub, async (_instance, state) => {
+        expect(await state.storage.getAlarm()).not.toBeNull();
+        await state.storage.put("replayExpiry", { [streamId]: Date.now() - 1 });
+      });
+
+      await runDurableObjectAlarm(hub);
+
+      expect(await body).toBe(": keep-alive\n\n");
+      expect((await resume(hub, `${streamId}-0`)).status).toBe(404);
+      await runInDurableObject(hub, async (_instance, state) => {
+        expect((await state.storage.list({ prefix: "replay:" })).size).toBe(0);
+        expect(await state.storage.get("replayExpiry")).toEqual({});
+      });
+    });
+  });
+});
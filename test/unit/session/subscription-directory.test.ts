@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { env, runInDurableObject } from "cloudflare:test";
+import { getAccountKey } from "../../../src/session/subscription-directory";
+
+describe("SubscriptionDirectory", () => {
+  function getDirectory(name: string) {
+    return env.SUBSCRIPTION_DIRECTORY.get(env.SUBSCRIPTION_DIRECTORY.idFromName(name));
+  }
+
+  const expiresAt = Math.floor(Date.now() / 1000) + 3600;
+
+  function newHubId() {
+    return env.SESSION_HUB.newUniqueId().toString();
+  }
+
+  it("keys accounts by region and lowercased name", () => {
+    expect(getAccountKey("eu", "Acme")).toBe("eu/acme");
+  });
+
+  it("tracks each hub once per URI", async () => {
+    const directory = getDirectory("add");
+    const hubId = newHubId();
+
+    await directory.add("happyfox://ticket/1", hubId, expiresAt);
+    await directory.add("happyfox://ticket/1", hubId, expiresAt);
+
+    await runInDurableObject(directory, async (_instance, state) => {
+      expect(await state.storage.get("uri:happyfox://ticket/1")).toEqual({ [hubId]: expiresAt });
+    });
+  });
+
+  it("forgets a hub across all URIs", async () => {
+    const directory = getDirectory("remove-hub");
+    const [first, second] = [newHubId(), newHubId()];
+    await directory.add("happyfox://ticket/1", first, expiresAt);
+    await directory.add("happyfox://ticket/1", second, expiresAt);
+    await directory.add("happyfox://statuses", first, expiresAt);
+
+    await directory.removeHub(first);
+
+    await runInDurableObject(directory, async (_instance, state) => {
+      expect(await state.storage.get("uri:happyfox://ticket/1")).toEqual({ [second]: expiresAt });
+      expect(await state.storage.get("uri:happyfox://statuses")).toBeUndefined();
+    });
+  });
+
+  it("publishes only to hubs subscribed to the URIs", async () => {
+    const account = "us/publish";
+    const directory = getDirectory(account);
+    for (const uri of ["happyfox://ticket/1", "happyfox://ticket/2"]) {
+      const hub = env.SESSION_HUB.get(env.SESSION_HUB.newUniqueId());
+      await hub.subscribe("token", account, { uri, mimeType: "application/json", text: "{}" }, expiresAt);
+    }
+
+    expect(await directory.publish(["happyfox://ticket/1"])).toBe(1);
+    expect(await directory.publish(["happyfox://ticket/3"])).toBe(0);
+  });
+
+  it("drops expired hubs and hubs no longer subscribed when publishing", async () => {
+    const directory = getDirectory("publish-prune");
+    await directory.add("happyfox://ticket/1", newHubId(), Math.floor(Date.now() / 1000) - 1);
+    await directory.add("happyfox://ticket/1", newHubId(), expiresAt);
+
+    expect(await directory.publish(["happyfox://ticket/1"])).toBe(0);
+    await runInDurableObject(directory, async (_instance, state) => {
+      expect(await state.storage.get("uri:happyfox://ticket/1")).toBeUndefined();
+    });
+  });
+});
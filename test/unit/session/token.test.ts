@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { SessionTokenManager } from "../../../src/session/token";
+import { env } from "cloudflare:test";
+import { SessionTokenManager, getClientCapabilities } from "../../../src/session/token";
 
 describe("SessionTokenManager", () => {
   const secret = "test-secret-key-for-hmac-signing-at-least-32-chars";
@@ -31,6 +32,15 @@ describe("SessionTokenManager", () => {
       expect(result.payload?.caps).toBe("resources,tools");
     });
 
+    it("records sorted client capabilities when given", async () => {
+      const manager = new SessionTokenManager(secret);
+      const withClient = await manager.validateToken(await manager.createToken("2025-11-25", ["tools"], ["roots", "elicitation"]));
+      const withoutClient = await manager.validateToken(await manager.createToken("2025-11-25", ["tools"]));
+
+      expect(withClient.payload?.ccaps).toBe("elicitation,roots");
+      expect(withoutClient.payload).not.toHaveProperty("ccaps");
+    });
+
     it("includes timestamps in payload", async () => {
       const manager = new SessionTokenManager(secret);
       const token = await manager.createToken("2025-11-25", ["tools"]);
@@ -201,6 +211,16 @@ describe("SessionTokenManager", () => {
       expect(result.error).toBe("malformed");
     });
 
+    it("accepts tokens for older supported protocol versions", async () => {
+      const manager = new SessionTokenManager(secret);
+      const token = await manager.createToken("2025-03-26", ["tools"]);
+
+      const result = await manager.validateToken(token);
+
+      expect(result.valid).toBe(true);
+      expect(result.payload?.v).toBe("2025-03-26");
+    });
+
     it("returns invalid error for wrong protocol version in payload", async () => {
       const manager = new SessionTokenManager(secret);
 
@@ -282,4 +302,108 @@ describe("SessionTokenManager", () => {
       expect(result.error).toBe("expired");
     });
   });
+
+  describe("revocation", () => {
+    it("gives every token its own ID", async () => {
+      const manager = new SessionTokenManager(secret);
+      const first = await manager.validateToken(await manager.createToken("2025-11-25", ["tools"]));
+      const second = await manager.validateToken(await manager.createToken("2025-11-25", ["tools"]));
+
+      expect(first.payload?.jti).toBeTruthy();
+      expect(first.payload?.jti).not.toBe(second.payload?.jti);
+    });
+
+    it("rejects a revoked token, leaving other tokens valid", async () => {
+      const manager = new SessionTokenManager(secret, env.OAUTH_KV);
+      const revoked = await manager.createToken("2025-11-25", ["tools"]);
+      const other = await manager.createToken("2025-11-25", ["tools"]);
+
+      await manager.revokeToken((await manager.validateToken(revoked)).payload!);
+
+      expect(await manager.validateToken(revoked)).toEqual({ valid: false, error: "revoked" });
+      expect((await manager.validateToken(other)).valid).toBe(true);
+    });
+
+    it("keeps the revocation until the token would have expired", async () => {
+      const manager = new SessionTokenManager(secret, env.OAUTH_KV);
+      const { payload } = await manager.validateToken(await manager.createToken("2025-11-25", ["tools"]));
+
+      await manager.revokeToken(payload!);
+
+      const { keys } = await env.OAUTH_KV.list({ prefix: `revoked-session:${payload!.jti}` });
+      expect(keys).toHaveLength(1);
+      expect(Math.abs(keys[0].expiration! - payload!.exp)).toBeLessThanOrEqual(2);
+    });
+
+    it("returns invalid error for tokens without an ID", async () => {
+      const manager = new SessionTokenManager(secret);
+
+      vi.spyOn(manager as any, "verifySignature").mockResolvedValue(true);
+
+      const now = Math.floor(Date.now() / 1000);
+      const payloadWithoutId = { v: "2025-11-25", iat: now, exp: now + 3600, caps: "tools" };
+      const payloadB64 = btoa(JSON.stringify(payloadWithoutId))
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "");
+
+      const result = await manager.validateToken(payloadB64 + ".fakesignature");
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe("invalid");
+    });
+  });
+
+  describe("binding", () => {
+    const binding = { tokenId: "token-1", staffId: 7, clientInfo: { name: "test-client", version: "1.0.0" } };
+
+    it("accepts the grant the token was created for", async () => {
+      const manager = new SessionTokenManager(secret);
+      const token = await manager.createToken("2025-11-25", ["tools"], [], binding);
+
+      const result = await manager.validateToken(token, { tokenId: "token-1", staffId: 7 });
+
+      expect(result.valid).toBe(true);
+      expect(result.payload?.sub).toBeTruthy();
+      expect(result.payload?.cli).toBeTruthy();
+    });
+
+    it("returns mismatch error for another OAuth token or staff member", async () => {
+      const manager = new SessionTokenManager(secret);
+      const token = await manager.createToken("2025-11-25", ["tools"], [], binding);
+
+      expect(await manager.validateToken(token, { tokenId: "token-2", staffId: 7 })).toMatchObject({ valid: false, error: "mismatch" });
+      const result = await manager.validateToken(token, { tokenId: "token-1", staffId: 8 });
+      expect(result).toMatchObject({ valid: false, error: "mismatch" });
+      // The payload comes back so the caller can log which session and client were involved
+      expect(result.payload?.cli).toBeDefined();
+    });
+
+    it("returns mismatch error for unbound tokens when a binding is required", async () => {
+      const manager = new SessionTokenManager(secret);
+      const token = await manager.createToken("2025-11-25", ["tools"]);
+
+      expect((await manager.validateToken(token, binding)).error).toBe("mismatch");
+    });
+
+    it("does not reveal the grant in the payload", async () => {
+      const manager = new SessionTokenManager(secret);
+      const token = await manager.createToken("2025-11-25", ["tools"], [], binding);
+      const payload = atob(token.split(".")[0].replace(/-/g, "+").replace(/_/g, "/"));
+
+      expect(payload).not.toContain("token-1");
+      expect(payload).not.toContain("test-client");
+    });
+  });
+
+  describe("getClientCapabilities", () => {
+    it("returns the client capabilities recorded at creation", async () => {
+      const manager = new SessionTokenManager(secret);
+      const withClient = await manager.validateToken(await manager.createToken("2025-11-25", ["tools"], ["roots", "elicitation"]));
+      const withoutClient = await manager.validateToken(await manager.createToken("2025-11-25", ["tools"]));
+
+      expect(getClientCapabilities(withClient.payload!)).toEqual(["elicitation", "roots"]);
+      expect(getClientCapabilities(withoutClient.payload!)).toEqual([]);
+    });
+  });
 });
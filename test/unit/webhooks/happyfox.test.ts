@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { env, createExecutionContext, waitOnExecutionContext, runInDurableObject } from "cloudflare:test";
+import { handleWebhook } from "../../../src/webhooks/happyfox";
+import { referenceCache } from "../../../src/cache/reference-cache";
+import { Env } from "../../../src/types";
+
+describe("handleWebhook", () => {
+  const secret = "webhook-secret";
+  const webhookEnv = { ...env, HAPPYFOX_WEBHOOK_SECRETS: JSON.stringify({ "us/testaccount": secret }) } as unknown as Env;
+  const url = "https://mcp.example.com/webhooks/happyfox/us/testaccount/ticket-updated";
+
+  async function post(body: string, sentSecret: string | null = secret, target = url, webhookEnvOverride: Env = webhookEnv) {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (sentSecret !== null) headers["X-Webhook-Secret"] = sentSecret;
+    const ctx = createExecutionContext();
+    const response = await handleWebhook(new Request(target, { method: "POST", headers, body }), webhookEnvOverride, ctx);
+    await waitOnExecutionContext(ctx);
+    return response;
+  }
+
+  beforeEach(async () => {
+    await referenceCache.invalidate("testaccount", "us", "recent-tags");
+  });
+
+  it("ignores other paths", async () => {
+    const ctx = createExecutionContext();
+    expect(await handleWebhook(new Request("https://mcp.example.com/authorize"), webhookEnv, ctx)).toBeNull();
+  });
+
+  it("returns 404 for unknown events", async () => {
+    const body = JSON.stringify({ id: 1 });
+    const response = await post(body, secret, "https://mcp.example.com/webhooks/happyfox/us/testaccount/ticket-deleted");
+    expect(response?.status).toBe(404);
+  });
+
+  it("rejects missing and wrong secrets", async () => {
+    const body = JSON.stringify({ id: 1 });
+
+    expect((await post(body, null))?.status).toBe(401);
+    expect((await post(body, "other-secret"))?.status).toBe(401);
+    expect((await post(body, `${secret}x`))?.status).toBe(401);
+    expect((await post(body, ""))?.status).toBe(401);
+  });
+
+  it("rejects accounts without a configured secret", async () => {
+    const body = JSON.stringify({ id: 1 });
+    const response = await post(body, secret, "https://mcp.example.com/webhooks/happyfox/eu/testaccount/ticket-updated");
+    expect(response?.status).toBe(401);
+  });
+
+  it("rejects payloads without a ticket id", async () => {
+    const body = JSON.stringify({ subject: "No id" });
+    expect((await post(body))?.status).toBe(400);
+  });
+
+  it("clears ticket-derived cache entries", async () => {
+    await referenceCache.set("testaccount", "us", "recent-tags", ["vip"]);
+    const body = JSON.stringify({ ticket: { id: 42, display_id: "#SUP00042" } });
+
+    const response = await post(body);
+
+    expect(response?.status).toBe(204);
+    expect(await referenceCache.get("testaccount", "us", "recent-tags")).toBeNull();
+  });
+
+  it("clears entries cached under the account name in any case", async () => {
+    await referenceCache.set("TestAccount", "us", "recent-tags", ["vip"]);
+    const body = JSON.stringify({ id: 42 });
+
+    const response = await post(body, secret, "https://mcp.example.com/webhooks/happyfox/us/TESTACCOUNT/ticket-updated");
+
+    expect(response?.status).toBe(204);
+    expect(await referenceCache.get("TestAccount", "us", "recent-tags")).toBeNull();
+  });
+
+  it("rejects bodies over the size limit", async () => {
+    const body = JSON.stringify({ id: 42, description: "x".repeat(1024 * 1024) });
+    expect((await post(body))?.status).toBe(413);
+  });
+
+  it("notifies sessions subscribed to the ticket", async () => {
+    const hub = env.SESSION_HUB.get(env.SESSION_HUB.idFromName("webhook-subscriber"));
+    const content = { uri: "happyfox://ticket/42", mimeType: "application/json", text: "{}" };
+    await hub.subscribe("webhook-token", "us/testaccount", content, Math.floor(Date.now() / 1000) + 3600);
+    const reader = (await hub.fetch("https://hub/")).body!.getReader();
+
+    const body = JSON.stringify({ id: 42, subject: "VIP ticket" });
+    expect((await post(body))?.status).toBe(204);
+
+    const { value } = await reader.read();
+    expect(new TextDecoder().decode(value)).toContain('"notifications/resources/updated"');
+    await runInDurableObject(hub, async (_instance, state) => {
+      expect((await state.storage.get<Record<string, string>>("subscriptions"))?.["happyfox://ticket/42"]).toBe("");
+    });
+    await reader.cancel();
+  });
+});